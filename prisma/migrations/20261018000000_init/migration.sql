@@ -0,0 +1,316 @@
+-- CreateEnum
+CREATE TYPE "audit_action" AS ENUM ('VISITOR_ERASED', 'VISITOR_EXPORTED', 'SESSIONS_PURGED', 'SESSIONS_ANONYMIZED');
+
+-- CreateEnum
+CREATE TYPE "outbound_job_type" AS ENUM ('BOT_REPLY', 'SESSION_CLOSEOUT');
+
+-- CreateEnum
+CREATE TYPE "outbound_job_status" AS ENUM ('PENDING', 'PROCESSING', 'SUCCEEDED', 'DEAD');
+
+-- CreateEnum
+CREATE TYPE "api_key_scope" AS ENUM ('ADMIN', 'AGENT');
+
+-- CreateEnum
+CREATE TYPE "chat_session_status" AS ENUM ('ACTIVE', 'INACTIVE', 'CLOSED');
+
+-- CreateEnum
+CREATE TYPE "session_close_reason" AS ENUM ('USER', 'INACTIVITY', 'ADMIN');
+
+-- CreateEnum
+CREATE TYPE "message_role" AS ENUM ('USER', 'BOT', 'SYSTEM', 'AGENT');
+
+-- CreateTable
+CREATE TABLE "api_key" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "name" TEXT NOT NULL,
+    "key_hash" TEXT NOT NULL,
+    "key_prefix" TEXT NOT NULL,
+    "scope" "api_key_scope" NOT NULL DEFAULT 'ADMIN',
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_used_at" TIMESTAMPTZ(6),
+    "revoked_at" TIMESTAMPTZ(6),
+    "tenant_id" UUID,
+
+    CONSTRAINT "api_key_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tenant" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "name" TEXT NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tenant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "widget" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "public_key" TEXT NOT NULL,
+    "allowed_origins" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "n8n_webhook_url" TEXT,
+    "n8n_timeout_ms" INTEGER,
+    "bot_providers" JSONB,
+    "heartbeat_timeout_seconds" INTEGER,
+    "session_close_minutes" INTEGER,
+    "branding" JSONB NOT NULL DEFAULT '{}',
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "widget_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "widget_config" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "widget_id" UUID,
+    "config" JSONB NOT NULL DEFAULT '{}',
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_by" TEXT,
+
+    CONSTRAINT "widget_config_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "chat_message" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "session_id" UUID NOT NULL,
+    "role" "message_role" NOT NULL DEFAULT 'USER',
+    "content" TEXT NOT NULL,
+    "idempotency_key" TEXT,
+    "rich" JSONB,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "delivered_at" TIMESTAMPTZ(6),
+    "read_at" TIMESTAMPTZ(6),
+    "search_vector" tsvector,
+
+    CONSTRAINT "chat_message_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "attachment" (
+    "id" UUID NOT NULL,
+    "session_id" UUID NOT NULL,
+    "message_id" UUID,
+    "file_name" TEXT NOT NULL,
+    "mime_type" TEXT NOT NULL,
+    "size_bytes" INTEGER NOT NULL,
+    "storage" TEXT NOT NULL,
+    "storage_key" TEXT NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "outbound_job" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "type" "outbound_job_type" NOT NULL,
+    "session_id" UUID NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "outbound_job_status" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL,
+    "next_attempt_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_error" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "outbound_job_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "webhook_subscription" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID,
+    "url" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "events" TEXT[],
+    "description" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "webhook_subscription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "webhook_delivery" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "subscription_id" UUID NOT NULL,
+    "event" TEXT NOT NULL,
+    "event_id" UUID NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "outbound_job_status" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL,
+    "next_attempt_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "response_status" INTEGER,
+    "last_error" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "webhook_delivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "chat_session" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "visitor_id" TEXT NOT NULL,
+    "status" "chat_session_status" NOT NULL DEFAULT 'ACTIVE',
+    "metadata" JSONB NOT NULL DEFAULT '{}',
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_active_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "agent_id" TEXT,
+    "agent_name" TEXT,
+    "agent_since" TIMESTAMPTZ(6),
+    "closed_reason" "session_close_reason",
+    "tenant_id" UUID,
+    "widget_id" UUID,
+    "summary" TEXT,
+    "outcome_tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "summarized_at" TIMESTAMPTZ(6),
+    "transcript_emailed_at" TIMESTAMPTZ(6),
+    "closeout_queued_at" TIMESTAMPTZ(6),
+    "anonymized_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "chat_session_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "contacts" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "name" TEXT,
+    "email" TEXT,
+    "summary" TEXT,
+    "message" TEXT,
+    "created_at" TIMESTAMPTZ(6) DEFAULT CURRENT_TIMESTAMP,
+    "conversation_source" TEXT,
+    "sessionId" UUID,
+    "agent_reply" TEXT,
+
+    CONSTRAINT "contacts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "audit_log" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "action" "audit_action" NOT NULL,
+    "actor" TEXT NOT NULL,
+    "tenant_id" UUID,
+    "visitor_id" TEXT,
+    "details" JSONB NOT NULL DEFAULT '{}',
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_log_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_key_key_hash_key" ON "api_key"("key_hash");
+
+-- CreateIndex
+CREATE INDEX "idx_api_key_tenant" ON "api_key"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "widget_public_key_key" ON "widget"("public_key");
+
+-- CreateIndex
+CREATE INDEX "idx_widget_tenant" ON "widget"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "widget_config_widget_id_key" ON "widget_config"("widget_id");
+
+-- CreateIndex
+CREATE INDEX "idx_chat_message_session_created" ON "chat_message"("session_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_chat_message_created_at" ON "chat_message"("created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_chat_message_search" ON "chat_message" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uq_chat_message_session_idempotency" ON "chat_message"("session_id", "idempotency_key");
+
+-- CreateIndex
+CREATE INDEX "idx_attachment_session" ON "attachment"("session_id");
+
+-- CreateIndex
+CREATE INDEX "idx_attachment_message" ON "attachment"("message_id");
+
+-- CreateIndex
+CREATE INDEX "idx_outbound_job_status_next_attempt" ON "outbound_job"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "idx_webhook_subscription_tenant" ON "webhook_subscription"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "idx_webhook_delivery_status_next_attempt" ON "webhook_delivery"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "idx_webhook_delivery_subscription_created" ON "webhook_delivery"("subscription_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_chat_session_last_active_at" ON "chat_session"("last_active_at");
+
+-- CreateIndex
+CREATE INDEX "idx_chat_session_tenant_created" ON "chat_session"("tenant_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_chat_session_widget_visitor" ON "chat_session"("widget_id", "visitor_id");
+
+-- CreateIndex
+CREATE INDEX "idx_chat_session_created_at" ON "chat_session"("created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_contacts_session" ON "contacts"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "idx_contacts_created_at" ON "contacts"("created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_audit_log_created_at" ON "audit_log"("created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_audit_log_visitor" ON "audit_log"("visitor_id");
+
+-- AddForeignKey
+ALTER TABLE "api_key" ADD CONSTRAINT "api_key_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenant"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "widget" ADD CONSTRAINT "widget_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenant"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "widget_config" ADD CONSTRAINT "widget_config_widget_id_fkey" FOREIGN KEY ("widget_id") REFERENCES "widget"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "chat_message" ADD CONSTRAINT "chat_message_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "chat_session"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "attachment" ADD CONSTRAINT "attachment_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "chat_session"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "attachment" ADD CONSTRAINT "attachment_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "chat_message"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "outbound_job" ADD CONSTRAINT "outbound_job_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "chat_session"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "webhook_subscription" ADD CONSTRAINT "webhook_subscription_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenant"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "webhook_delivery" ADD CONSTRAINT "webhook_delivery_subscription_id_fkey" FOREIGN KEY ("subscription_id") REFERENCES "webhook_subscription"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "chat_session" ADD CONSTRAINT "chat_session_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenant"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "chat_session" ADD CONSTRAINT "chat_session_widget_id_fkey" FOREIGN KEY ("widget_id") REFERENCES "widget"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "contacts" ADD CONSTRAINT "contacts_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "chat_session"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
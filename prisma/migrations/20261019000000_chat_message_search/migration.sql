@@ -0,0 +1,23 @@
+-- Full-text search over chat messages.
+--
+-- Prisma can't express generated columns, so schema.prisma declares `search_vector`
+-- as Unsupported("tsvector") and this migration turns it into a generated column.
+-- It is idempotent: `npm run prisma:push` also runs it after `prisma db push`,
+-- which only creates a plain tsvector column.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema()
+      AND table_name = 'chat_message'
+      AND column_name = 'search_vector'
+      AND is_generated = 'ALWAYS'
+  ) THEN
+    ALTER TABLE "chat_message" DROP COLUMN IF EXISTS "search_vector";
+    ALTER TABLE "chat_message" ADD COLUMN "search_vector" tsvector
+      GENERATED ALWAYS AS (to_tsvector('english', coalesce("content", ''))) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_chat_message_search" ON "chat_message" USING GIN ("search_vector");
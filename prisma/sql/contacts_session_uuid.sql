@@ -0,0 +1,32 @@
+-- Converts `contacts."sessionId"` from free text to a uuid referencing chat_session.
+--
+-- Contacts written before sessions were linked may hold ids that are not uuids or
+-- name sessions that no longer exist; `prisma db push` would fail on them (or offer
+-- to drop the column). This script clears those values, keeping the contacts, and
+-- converts the column, so the push only has to add the foreign key and index.
+-- It runs before `prisma db push` and does nothing once the column is a uuid.
+
+DO $$
+DECLARE
+  cleared integer;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema()
+      AND table_name = 'contacts'
+      AND column_name = 'sessionId'
+      AND data_type <> 'uuid'
+  ) THEN
+    UPDATE "contacts" SET "sessionId" = NULL
+    WHERE "sessionId" IS NOT NULL
+      AND (
+        "sessionId" !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        -- Compared as text: Postgres may evaluate this before the format check above
+        OR NOT EXISTS (SELECT 1 FROM "chat_session" s WHERE s."id"::text = lower("contacts"."sessionId"))
+      );
+    GET DIAGNOSTICS cleared = ROW_COUNT;
+    RAISE NOTICE 'contacts: cleared % sessionId value(s) that did not name a session', cleared;
+
+    ALTER TABLE "contacts" ALTER COLUMN "sessionId" TYPE uuid USING "sessionId"::uuid;
+  END IF;
+END $$;
@@ -1,7 +1,48 @@
 (function () {
   const SOCKET_URL = (window.CHAT_MIDDLEWARE_URL || 'http://localhost:3001').replace(/\/$/, '');
+  // Public key of the tenant widget (omit for a single-site deployment)
+  const WIDGET_KEY = window.CHAT_WIDGET_KEY || undefined;
   const HEARTBEAT_INTERVAL = 30_000;
-  const STORAGE_KEY = 'n8n-chat-session';
+  // Visitor typing: re-announced while typing, cleared after a pause
+  const TYPING_REFRESH_INTERVAL = 3_000;
+  const TYPING_IDLE_TIMEOUT = 4_000;
+  // Relayed agent typing expires in case the "stopped typing" event is lost
+  const AGENT_TYPING_TIMEOUT = 10_000;
+  const MAX_ACK_IDS = 100;
+  const STORAGE_KEY = WIDGET_KEY ? `n8n-chat-session:${WIDGET_KEY}` : 'n8n-chat-session';
+  const CONFIG_STORAGE_KEY = `${STORAGE_KEY}:config`;
+
+  // Used until GET /api/widget/config has answered once (mirrors the server defaults)
+  const FALLBACK_CONFIG = {
+    welcomeMessage: null,
+    launcherText: 'Chat with us',
+    position: 'bottom-right',
+    colors: {
+      primary: '#4f46e5',
+      header: '#111827',
+      headerText: '#ffffff',
+      background: '#ffffff',
+      userBubble: '#4f46e5',
+      botBubble: '#f3f4f6',
+    },
+    strings: {
+      title: 'Ask our AI Assistant',
+      inputPlaceholder: 'Type a message...',
+      sendButton: 'Send',
+      contactToggle: 'Leave your contact details',
+      connectionError: 'Unable to reach chat server.',
+      loadOlder: 'Load earlier messages',
+      delivered: 'Delivered',
+      seen: 'Seen',
+      attachButton: 'Attach a file',
+      uploadFailed: 'Upload failed. Please try again.',
+      formSubmit: 'Submit',
+    },
+    starterQuestions: [],
+    officeHours: null,
+    privacyNotice: null,
+    socketIoUrl: 'https://cdn.socket.io/4.7.5/socket.io.min.js',
+  };
 
   function loadPersistedSession() {
     try {
@@ -21,95 +62,575 @@
     }
   }
 
-  function loadSocketIo(callback) {
+  function loadCachedConfig() {
+    try {
+      const raw = window.localStorage.getItem(CONFIG_STORAGE_KEY);
+      return raw ? JSON.parse(raw) : {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  function withFallbacks(config) {
+    return {
+      ...FALLBACK_CONFIG,
+      ...config,
+      colors: { ...FALLBACK_CONFIG.colors, ...(config && config.colors) },
+      strings: { ...FALLBACK_CONFIG.strings, ...(config && config.strings) },
+    };
+  }
+
+  // Revalidates the cached config with its ETag; a 304 reuses the cached copy
+  async function loadConfig() {
+    const cached = loadCachedConfig();
+    const query = WIDGET_KEY ? `?widgetKey=${encodeURIComponent(WIDGET_KEY)}` : '';
+
+    try {
+      const response = await fetch(`${SOCKET_URL}/api/widget/config${query}`, {
+        cache: 'no-store',
+        headers: cached.etag && cached.config ? { 'If-None-Match': cached.etag } : {},
+      });
+      if (response.status === 304 && cached.config) return withFallbacks(cached.config);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const config = await response.json();
+      try {
+        window.localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify({ etag: response.headers.get('ETag'), config }));
+      } catch (error) {
+        console.warn('Unable to cache chat widget config', error);
+      }
+      return withFallbacks(config);
+    } catch (error) {
+      console.warn('Unable to load chat widget config', error);
+      return withFallbacks(cached.config);
+    }
+  }
+
+  function isWithinOfficeHours(officeHours) {
+    if (!officeHours) return true;
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: officeHours.timezone,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).formatToParts(new Date());
+      const part = (type) => (parts.find((p) => p.type === type) || {}).value || '';
+      const hours = (officeHours.days || {})[part('weekday').toLowerCase().slice(0, 3)];
+      const now = `${part('hour')}:${part('minute')}`;
+      return !!hours && now >= hours.open && now < hours.close;
+    } catch (error) {
+      return true;
+    }
+  }
+
+  function loadSocketIo(url, callback) {
     if (window.io) {
       callback();
       return;
     }
 
     const script = document.createElement('script');
-    script.src = 'https://cdn.socket.io/4.7.5/socket.io.min.js';
+    script.src = url;
     script.async = true;
     script.onload = callback;
     script.onerror = () => console.error('Failed to load Socket.IO client');
     document.head.appendChild(script);
   }
 
-  function createUi() {
+  // Config strings are only ever assigned through textContent / placeholder, never as HTML
+  function createUi(config) {
+    const { colors, strings } = config;
+    const side = config.position === 'bottom-left' ? 'left' : 'right';
     const container = document.createElement('div');
     container.id = 'n8n-chat-widget';
     container.innerHTML = `
       <style>
-        #n8n-chat-widget { position: fixed; bottom: 16px; right: 16px; width: 320px; font-family: sans-serif; z-index: 9999; }
-        #n8n-chat-widget .chat-card { background: #fff; border-radius: 12px; box-shadow: 0 10px 30px rgba(0,0,0,0.2); display: flex; flex-direction: column; overflow: hidden; }
-        #n8n-chat-widget header { background: #111827; color: #fff; padding: 12px 16px; font-weight: bold; }
+        #n8n-chat-widget { position: fixed; bottom: 16px; ${side}: 16px; width: 320px; font-family: sans-serif; z-index: 9999; display: flex; flex-direction: column; align-items: flex-${side === 'left' ? 'start' : 'end'}; gap: 8px; }
+        #n8n-chat-widget .chat-card { width: 100%; background: ${colors.background}; border-radius: 12px; box-shadow: 0 10px 30px rgba(0,0,0,0.2); display: flex; flex-direction: column; overflow: hidden; }
+        #n8n-chat-widget .chat-card[hidden] { display: none; }
+        #n8n-chat-widget header { background: ${colors.header}; color: ${colors.headerText}; padding: 12px 16px; font-weight: bold; }
         #n8n-chat-widget ul { list-style: none; margin: 0; padding: 12px; height: 280px; overflow-y: auto; }
         #n8n-chat-widget li { margin-bottom: 12px; line-height: 1.3; }
         #n8n-chat-widget li.user { text-align: right; }
-        #n8n-chat-widget li.user span { background: #4f46e5; color: #fff; }
-        #n8n-chat-widget li.ai span { background: #f3f4f6; color: #111827; }
+        #n8n-chat-widget li.user span { background: ${colors.userBubble}; color: #fff; }
+        #n8n-chat-widget li.ai span { background: ${colors.botBubble}; color: #111827; }
+        #n8n-chat-widget li.agent span { background: #ecfdf5; color: #065f46; }
+        #n8n-chat-widget li.system { text-align: center; font-size: 12px; color: #6b7280; }
+        #n8n-chat-widget li.system span { padding: 0; }
         #n8n-chat-widget li span { display: inline-block; padding: 8px 12px; border-radius: 12px; }
+        #n8n-chat-widget li.typing i { display: inline-block; width: 6px; height: 6px; margin: 0 2px; border-radius: 50%; background: #9ca3af; animation: n8n-chat-typing 1s infinite; }
+        #n8n-chat-widget li.typing i:nth-child(2) { animation-delay: 0.2s; }
+        #n8n-chat-widget li.typing i:nth-child(3) { animation-delay: 0.4s; }
+        @keyframes n8n-chat-typing { 0%, 80%, 100% { opacity: 0.3; } 40% { opacity: 1; } }
+        #n8n-chat-widget li span[hidden] { display: none; }
+        #n8n-chat-widget .attachments a { display: block; margin-top: 4px; font-size: 12px; color: ${colors.primary}; }
+        #n8n-chat-widget .attachments img { display: inline-block; max-width: 180px; max-height: 140px; border-radius: 8px; }
+        #n8n-chat-widget .quick-replies, #n8n-chat-widget .rich-buttons { display: flex; flex-wrap: wrap; gap: 6px; margin-top: 6px; }
+        #n8n-chat-widget .quick-replies button { background: none; color: ${colors.primary}; border: 1px solid ${colors.primary}; padding: 4px 10px; font-size: 12px; }
+        #n8n-chat-widget a.rich-link { display: inline-block; padding: 4px 10px; border-radius: 9999px; background: ${colors.primary}; color: #fff; font-size: 12px; text-decoration: none; }
+        #n8n-chat-widget .rich-card { margin-top: 6px; max-width: 240px; border: 1px solid #e5e7eb; border-radius: 12px; overflow: hidden; background: #fff; }
+        #n8n-chat-widget .rich-card img { display: block; width: 100%; max-height: 140px; object-fit: cover; }
+        #n8n-chat-widget .rich-card div { padding: 8px 12px; }
+        #n8n-chat-widget .rich-card small { display: block; color: #6b7280; }
+        #n8n-chat-widget form.rich-form { flex-direction: column; gap: 6px; margin-top: 6px; padding: 8px 12px; border: 1px solid #e5e7eb; border-radius: 12px; }
+        #n8n-chat-widget form.rich-form label { display: flex; flex-direction: column; gap: 2px; font-size: 12px; color: #374151; }
+        #n8n-chat-widget form.rich-form textarea, #n8n-chat-widget form.rich-form select { border: 1px solid #d1d5db; border-radius: 8px; padding: 6px 10px; font: inherit; }
+        #n8n-chat-widget form.composer button.attach { background: none; color: ${colors.primary}; padding: 8px; }
+        #n8n-chat-widget .receipt { display: block; margin-top: 2px; font-size: 11px; color: #6b7280; }
         #n8n-chat-widget form { display: flex; gap: 8px; border-top: 1px solid #e5e7eb; padding: 12px; background: #fff; }
         #n8n-chat-widget input { flex: 1; border: 1px solid #d1d5db; border-radius: 9999px; padding: 8px 14px; }
-        #n8n-chat-widget button { background: #111827; color: #fff; border: none; border-radius: 9999px; padding: 8px 16px; cursor: pointer; }
+        #n8n-chat-widget button { background: ${colors.header}; color: ${colors.headerText}; border: none; border-radius: 9999px; padding: 8px 16px; cursor: pointer; }
+        #n8n-chat-widget .launcher { background: ${colors.primary}; color: #fff; box-shadow: 0 4px 12px rgba(0,0,0,0.2); padding: 12px 20px; }
+        #n8n-chat-widget .load-older { background: none; color: ${colors.primary}; padding: 8px 12px 0; font-size: 12px; }
+        #n8n-chat-widget .load-older[hidden] { display: none; }
+        #n8n-chat-widget .contact-toggle { background: none; color: ${colors.primary}; padding: 4px 12px 0; font-size: 12px; text-align: left; }
+        #n8n-chat-widget .starters { display: flex; flex-wrap: wrap; gap: 6px; padding: 0 12px; }
+        #n8n-chat-widget .starters[hidden] { display: none; }
+        #n8n-chat-widget .starters button { background: none; color: ${colors.primary}; border: 1px solid ${colors.primary}; padding: 4px 10px; font-size: 12px; }
+        #n8n-chat-widget .privacy { margin: 0; padding: 0 12px 10px; font-size: 11px; color: #6b7280; }
+        #n8n-chat-widget form.contact-form { flex-direction: column; }
+        #n8n-chat-widget form.contact-form[hidden] { display: none; }
       </style>
-      <div class="chat-card">
-        <header>Ask our AI Assistant</header>
+      <div class="chat-card" hidden>
+        <header></header>
+        <button type="button" class="load-older" hidden></button>
         <ul class="messages"></ul>
-        <form>
-          <input type="text" placeholder="Type a message..." required />
-          <button type="submit">Send</button>
+        <div class="starters"></div>
+        <button type="button" class="contact-toggle"></button>
+        <form class="contact-form" hidden>
+          <input type="text" name="name" placeholder="Your name" />
+          <input type="email" name="email" placeholder="Your email" required />
+          <button type="submit">Send details</button>
+        </form>
+        <form class="composer">
+          <button type="button" class="attach">📎</button>
+          <input type="file" class="file" hidden />
+          <input type="text" class="text" required />
+          <button type="submit"></button>
         </form>
+        <p class="privacy" hidden></p>
       </div>
+      <button type="button" class="launcher"></button>
     `;
 
+    container.querySelector('header').textContent = strings.title;
+    container.querySelector('.load-older').textContent = strings.loadOlder;
+    container.querySelector('.contact-toggle').textContent = strings.contactToggle;
+    container.querySelector('form.composer input.text').placeholder = strings.inputPlaceholder;
+    container.querySelector('form.composer button[type="submit"]').textContent = strings.sendButton;
+    container.querySelector('form.composer button.attach').title = strings.attachButton;
+    container.querySelector('form.composer button.attach').setAttribute('aria-label', strings.attachButton);
+    container.querySelector('.launcher').textContent = config.launcherText;
+    if (config.privacyNotice) {
+      const privacy = container.querySelector('.privacy');
+      privacy.textContent = config.privacyNotice;
+      privacy.hidden = false;
+    }
+
     document.body.appendChild(container);
     return container;
   }
 
-  function init() {
-    const { sessionId, visitorId } = loadPersistedSession();
-    const container = createUi();
+  function init(config) {
+    const { sessionId, visitorId, token } = loadPersistedSession();
+    const container = createUi(config);
+    const card = container.querySelector('.chat-card');
+    const launcher = container.querySelector('.launcher');
+    const starters = container.querySelector('.starters');
     const messageList = container.querySelector('ul.messages');
-    const form = container.querySelector('form');
-    const input = container.querySelector('input');
+    const loadOlderButton = container.querySelector('.load-older');
+    const form = container.querySelector('form.composer');
+    const input = form.querySelector('input.text');
+    const fileInput = form.querySelector('input.file');
+    const attachButton = form.querySelector('button.attach');
+    const contactToggle = container.querySelector('.contact-toggle');
+    const contactForm = container.querySelector('form.contact-form');
 
     const socket = window.io(SOCKET_URL, {
       transports: ['websocket'],
-      auth: { sessionId, visitorId },
+      auth: {
+        widgetKey: WIDGET_KEY,
+        sessionId,
+        visitorId,
+        token,
+        metadata: { landingPage: window.location.href, referrer: document.referrer || undefined },
+      },
     });
 
     let currentSessionId = sessionId;
+    let currentToken = token;
     let heartbeatHandle = null;
+    // Id of the oldest message shown; the server pages backwards from it
+    let olderCursor = null;
+
+    const SENDER_CLASSES = { USER: 'user', AGENT: 'agent', SYSTEM: 'system' };
+
+    // Bubbles keyed by message id, so streamed deltas and the final message land in one place
+    const bubbles = new Map();
+    // Bot, agent and system messages received while the chat was not in view
+    const unreadIds = new Set();
+
+    // Kept as the last list item while the bot or an agent is typing
+    const typingItem = document.createElement('li');
+    typingItem.innerHTML = '<span><i></i><i></i><i></i></span>';
+    let typingTimeout = null;
+
+    // A single "Delivered" / "Seen" marker under the latest acknowledged visitor message
+    const receiptMarker = document.createElement('small');
+    receiptMarker.className = 'receipt';
+    let receiptFor = null;
+
+    // Outside office hours the offline notice replaces the welcome message
+    const greeting = isWithinOfficeHours(config.officeHours)
+      ? config.welcomeMessage
+      : config.officeHours.offlineMessage;
 
-    function appendMessage(sender, content) {
+    // Image previews and download links; attachment URLs are signed and may be relative to the server
+    function createAttachmentList(attachments) {
+      const list = document.createElement('div');
+      list.className = 'attachments';
+      attachments.forEach((attachment) => {
+        const link = document.createElement('a');
+        link.href = new URL(attachment.url, `${SOCKET_URL}/`).href;
+        link.target = '_blank';
+        link.rel = 'noopener';
+        if (attachment.mimeType.startsWith('image/')) {
+          const image = document.createElement('img');
+          image.src = link.href;
+          image.alt = attachment.fileName;
+          link.appendChild(image);
+        } else {
+          link.textContent = `📄 ${attachment.fileName}`;
+        }
+        list.appendChild(link);
+      });
+      return list;
+    }
+
+    function createLinkButtons(buttons) {
+      const row = document.createElement('div');
+      row.className = 'rich-buttons';
+      buttons.forEach((button) => {
+        const link = document.createElement('a');
+        link.className = 'rich-link';
+        link.href = button.url;
+        link.target = '_blank';
+        link.rel = 'noopener';
+        link.textContent = button.label;
+        row.appendChild(link);
+      });
+      return row;
+    }
+
+    function createCard(block) {
+      const card = document.createElement('div');
+      card.className = 'rich-card';
+      if (block.imageUrl) {
+        const image = document.createElement('img');
+        image.src = block.imageUrl;
+        image.alt = block.title;
+        card.appendChild(image);
+      }
+      const body = document.createElement('div');
+      const title = document.createElement('strong');
+      title.textContent = block.title;
+      body.appendChild(title);
+      if (block.subtitle) {
+        const subtitle = document.createElement('small');
+        subtitle.textContent = block.subtitle;
+        body.appendChild(subtitle);
+      }
+      if (block.buttons) body.appendChild(createLinkButtons(block.buttons));
+      card.appendChild(body);
+      return card;
+    }
+
+    // Chips send their label as the visitor's message; they are only offered on the latest message
+    function createQuickReplies(messageId, replies) {
+      const chips = document.createElement('div');
+      chips.className = 'quick-replies';
+      replies.forEach((reply) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.textContent = reply.label;
+        button.addEventListener('click', () => {
+          if (sendMessage(reply.label, { type: 'quick_reply', messageId, value: reply.value })) chips.remove();
+        });
+        chips.appendChild(button);
+      });
+      return chips;
+    }
+
+    function createForm(messageId, block) {
+      const richForm = document.createElement('form');
+      richForm.className = 'rich-form';
+      if (block.title) {
+        const title = document.createElement('strong');
+        title.textContent = block.title;
+        richForm.appendChild(title);
+      }
+      block.fields.forEach((field) => {
+        const label = document.createElement('label');
+        label.textContent = field.label;
+        let control;
+        if (field.type === 'select') {
+          control = document.createElement('select');
+          ['', ...field.options].forEach((option) => {
+            const choice = document.createElement('option');
+            choice.value = option;
+            choice.textContent = option;
+            control.appendChild(choice);
+          });
+        } else if (field.type === 'textarea') {
+          control = document.createElement('textarea');
+        } else {
+          control = document.createElement('input');
+          control.type = field.type;
+        }
+        control.name = field.name;
+        control.required = field.required;
+        if (field.placeholder) control.placeholder = field.placeholder;
+        label.appendChild(control);
+        richForm.appendChild(label);
+      });
+      const submit = document.createElement('button');
+      submit.type = 'submit';
+      submit.textContent = block.submitLabel || config.strings.formSubmit;
+      richForm.appendChild(submit);
+
+      richForm.addEventListener('submit', (event) => {
+        event.preventDefault();
+        const values = {};
+        block.fields.forEach((field) => {
+          values[field.name] = richForm.elements.namedItem(field.name).value.trim();
+        });
+        if (sendMessage('', { type: 'form', messageId, formId: block.id, values })) {
+          Array.from(richForm.elements).forEach((element) => {
+            element.disabled = true;
+          });
+        }
+      });
+      return richForm;
+    }
+
+    // Quick replies, link buttons, cards and forms sent by the bot; all text goes through textContent
+    function createRichBlocks(messageId, blocks) {
+      const container = document.createElement('div');
+      container.className = 'rich';
+      blocks.forEach((block) => {
+        if (block.type === 'quick_replies') container.appendChild(createQuickReplies(messageId, block.replies));
+        else if (block.type === 'buttons') container.appendChild(createLinkButtons(block.buttons));
+        else if (block.type === 'card') container.appendChild(createCard(block));
+        else if (block.type === 'form') container.appendChild(createForm(messageId, block));
+      });
+      return container;
+    }
+
+    function richBlocksOf(rich) {
+      return (rich && rich.blocks) || [];
+    }
+
+    function createMessageItem(sender, content, id, attachments = [], rich = null) {
       const li = document.createElement('li');
-      li.className = sender === 'USER' ? 'user' : 'ai';
+      li.className = SENDER_CLASSES[sender] || 'ai';
       const bubble = document.createElement('span');
       bubble.textContent = content;
+      bubble.hidden = !content && (attachments.length > 0 || richBlocksOf(rich).length > 0);
       li.appendChild(bubble);
-      messageList.appendChild(li);
+      if (attachments.length) li.appendChild(createAttachmentList(attachments));
+      if (richBlocksOf(rich).length) li.appendChild(createRichBlocks(id, rich.blocks));
+      if (id) bubbles.set(id, bubble);
+      return li;
+    }
+
+    function appendMessage(sender, content, id, attachments, rich) {
+      messageList.querySelectorAll('.quick-replies').forEach((chips) => chips.remove());
+      const li = createMessageItem(sender, content, id, attachments, rich);
+      messageList.insertBefore(li, typingItem.parentNode ? typingItem : null);
       messageList.scrollTop = messageList.scrollHeight;
+      return li.firstChild;
+    }
+
+    // Inserts an older page above the oldest message, keeping the visible messages in place
+    function prependMessages(messages) {
+      const oldest = olderCursor && bubbles.get(olderCursor);
+      const anchor = oldest ? oldest.parentNode : messageList.firstChild;
+      const previousHeight = messageList.scrollHeight;
+      messages
+        .filter((msg) => !bubbles.has(msg.id))
+        .forEach((msg) => {
+          const li = createMessageItem(msg.sender, msg.content, msg.id, msg.attachments, msg.rich);
+          // Older messages never offer quick replies, those belong to the latest message only
+          li.querySelectorAll('.quick-replies').forEach((chips) => chips.remove());
+          messageList.insertBefore(li, anchor);
+        });
+      messageList.scrollTop += messageList.scrollHeight - previousHeight;
+    }
+
+    function setOlderCursor(cursor) {
+      olderCursor = cursor || null;
+      loadOlderButton.hidden = !olderCursor;
+      loadOlderButton.disabled = false;
+    }
+
+    function setTyping(isTyping, sender) {
+      window.clearTimeout(typingTimeout);
+      if (!isTyping) {
+        typingItem.remove();
+        return;
+      }
+      typingItem.className = `typing ${SENDER_CLASSES[sender] || 'ai'}`;
+      messageList.appendChild(typingItem);
+      messageList.scrollTop = messageList.scrollHeight;
+      if (sender !== 'BOT') typingTimeout = window.setTimeout(() => typingItem.remove(), AGENT_TYPING_TIMEOUT);
+    }
+
+    // Moves the marker to the given visitor message unless a later one is already acknowledged
+    function showReceipt(id, status) {
+      const bubble = bubbles.get(id);
+      if (!bubble) return;
+      const current = receiptFor && bubbles.get(receiptFor.id);
+      if (current && current !== bubble && current.parentNode.compareDocumentPosition(bubble.parentNode) & Node.DOCUMENT_POSITION_PRECEDING) {
+        return;
+      }
+      if (current === bubble && receiptFor.status === 'read') return;
+      receiptFor = { id, status };
+      receiptMarker.textContent = status === 'read' ? config.strings.seen : config.strings.delivered;
+      bubble.parentNode.appendChild(receiptMarker);
+    }
+
+    function isInView() {
+      return !card.hidden && document.visibilityState === 'visible';
+    }
+
+    function emitAck(event, ids) {
+      for (let i = 0; i < ids.length; i += MAX_ACK_IDS) {
+        socket.emit(event, { sessionId: currentSessionId, messageIds: ids.slice(i, i + MAX_ACK_IDS) });
+      }
+    }
+
+    // Acknowledges incoming messages: read when the chat is in view, delivered otherwise
+    function acknowledge(messages) {
+      const incoming = messages.filter((msg) => msg.id && msg.sender !== 'USER' && !msg.readAt);
+      if (isInView()) {
+        emitAck('read', incoming.map((msg) => msg.id));
+        return;
+      }
+      emitAck('delivered', incoming.filter((msg) => !msg.deliveredAt).map((msg) => msg.id));
+      incoming.forEach((msg) => unreadIds.add(msg.id));
+    }
+
+    function flushReads() {
+      if (!unreadIds.size || !isInView()) return;
+      emitAck('read', [...unreadIds]);
+      unreadIds.clear();
+    }
+
+    function showGreeting() {
+      if (greeting) appendMessage('BOT', greeting);
+    }
+
+    function renderMessage(msg) {
+      const bubble = bubbles.get(msg.id);
+      if (bubble) {
+        // A streamed reply gets its blocks with the final message
+        bubble.textContent = msg.content;
+        const blocks = richBlocksOf(msg.rich);
+        if (blocks.length && !bubble.parentNode.querySelector('.rich')) {
+          bubble.hidden = !msg.content;
+          bubble.parentNode.appendChild(createRichBlocks(msg.id, blocks));
+        }
+        return;
+      }
+      appendMessage(msg.sender, msg.content, msg.id, msg.attachments, msg.rich);
     }
 
     socket.on('session', (payload) => {
       currentSessionId = payload.sessionId;
-      persistSession({ sessionId: payload.sessionId, visitorId: payload.visitorId });
+      currentToken = payload.token;
+      persistSession({ sessionId: payload.sessionId, visitorId: payload.visitorId, token: payload.token });
     });
 
     socket.on('history', (history) => {
       messageList.innerHTML = '';
-      history.forEach((msg) => appendMessage(msg.sender, msg.content));
+      bubbles.clear();
+      unreadIds.clear();
+      receiptFor = null;
+      showGreeting();
+      const messages = history.messages || history;
+      messages.forEach(renderMessage);
+      messages
+        .filter((msg) => msg.sender === 'USER' && (msg.readAt || msg.deliveredAt))
+        .forEach((msg) => showReceipt(msg.id, msg.readAt ? 'read' : 'delivered'));
+      acknowledge(messages);
+      setOlderCursor(messages.length ? history.olderCursor : null);
+      if (messages.some((msg) => msg.sender === 'USER')) starters.hidden = true;
+    });
+
+    socket.on('olderMessages', (page) => {
+      prependMessages(page.messages);
+      acknowledge(page.messages);
+      setOlderCursor(page.olderCursor);
+    });
+
+    loadOlderButton.addEventListener('click', () => {
+      if (!olderCursor) return;
+      loadOlderButton.disabled = true;
+      socket.emit('loadOlder', { sessionId: currentSessionId, before: olderCursor });
+    });
+
+    socket.on('message', (msg) => {
+      if (msg.sender !== 'USER') {
+        setTyping(false);
+        acknowledge([msg]);
+      }
+      renderMessage(msg);
+    });
+
+    socket.on('typing', (typing) => {
+      if (typing.sender === 'USER') return;
+      setTyping(typing.isTyping, typing.sender);
+    });
+
+    socket.on('receipt', (receipt) => {
+      const status = receipt.status;
+      receipt.messageIds.forEach((id) => showReceipt(id, status));
+    });
+
+    socket.on('message_delta', (delta) => {
+      setTyping(false);
+      const bubble = bubbles.get(delta.id) || appendMessage('BOT', '', delta.id);
+      bubble.textContent += delta.delta;
+      messageList.scrollTop = messageList.scrollHeight;
+    });
+
+    socket.on('message_complete', renderMessage);
+
+    socket.on('message_reset', (reset) => {
+      const bubble = bubbles.get(reset.id);
+      if (!bubble) return;
+      bubble.parentNode.remove();
+      bubbles.delete(reset.id);
+    });
+
+    socket.on('status', (status) => {
+      if (status.message) appendMessage('SYSTEM', status.message);
     });
 
-    socket.on('message', (msg) => appendMessage(msg.sender, msg.content));
+    socket.on('contactSaved', () => {
+      contactForm.hidden = true;
+      contactToggle.hidden = true;
+      appendMessage('SYSTEM', 'Thanks! We will be in touch.');
+    });
 
     socket.on('error', (error) => {
       appendMessage('SYSTEM', error.message || 'Something went wrong.');
     });
 
     socket.on('connect_error', () => {
-      appendMessage('SYSTEM', 'Unable to reach chat server.');
+      appendMessage('SYSTEM', config.strings.connectionError);
     });
 
     function sendHeartbeat() {
@@ -119,16 +640,114 @@
 
     heartbeatHandle = window.setInterval(sendHeartbeat, HEARTBEAT_INTERVAL);
 
-    form.addEventListener('submit', (event) => {
-      event.preventDefault();
-      const value = input.value.trim();
-      if (!value || !currentSessionId) return;
+    let typingAnnouncedAt = 0;
+    let typingIdle = null;
+
+    function stopTyping() {
+      window.clearTimeout(typingIdle);
+      if (!typingAnnouncedAt) return;
+      typingAnnouncedAt = 0;
+      socket.emit('typing', { sessionId: currentSessionId, isTyping: false });
+    }
+
+    input.addEventListener('input', () => {
+      if (!currentSessionId) return;
+      window.clearTimeout(typingIdle);
+      if (!input.value) {
+        stopTyping();
+        return;
+      }
+      if (Date.now() - typingAnnouncedAt > TYPING_REFRESH_INTERVAL) {
+        typingAnnouncedAt = Date.now();
+        socket.emit('typing', { sessionId: currentSessionId, isTyping: true });
+      }
+      typingIdle = window.setTimeout(stopTyping, TYPING_IDLE_TIMEOUT);
+    });
+
+    // `response` answers a quick reply or form; the server then derives the stored text itself
+    function sendMessage(value, response) {
+      if ((!value && !response) || !currentSessionId) return false;
+      stopTyping();
       socket.emit('message', {
         sessionId: currentSessionId,
         content: value,
+        ...(response ? { response } : {}),
         metadata: { page: window.location.href },
       });
-      input.value = '';
+      starters.hidden = true;
+      return true;
+    }
+
+    // Uploads the chosen file, then sends it as a message together with any typed text
+    async function sendAttachment(file) {
+      if (!file || !currentSessionId) return;
+      const body = new FormData();
+      body.append('file', file);
+      attachButton.disabled = true;
+      try {
+        const response = await fetch(`${SOCKET_URL}/api/sessions/${currentSessionId}/attachments`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${currentToken}` },
+          body,
+        });
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(result.error || config.strings.uploadFailed);
+
+        stopTyping();
+        socket.emit('message', {
+          sessionId: currentSessionId,
+          content: input.value.trim(),
+          attachmentIds: [result.id],
+          metadata: { page: window.location.href },
+        });
+        input.value = '';
+        starters.hidden = true;
+      } catch (error) {
+        appendMessage('SYSTEM', error.message || config.strings.uploadFailed);
+      } finally {
+        attachButton.disabled = false;
+        fileInput.value = '';
+      }
+    }
+
+    attachButton.addEventListener('click', () => fileInput.click());
+    fileInput.addEventListener('change', () => sendAttachment(fileInput.files[0]));
+
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      if (sendMessage(input.value.trim())) input.value = '';
+    });
+
+    config.starterQuestions.forEach((question) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = question;
+      button.addEventListener('click', () => sendMessage(question));
+      starters.appendChild(button);
+    });
+
+    launcher.addEventListener('click', () => {
+      card.hidden = !card.hidden;
+      if (!card.hidden) input.focus();
+      flushReads();
+    });
+
+    document.addEventListener('visibilitychange', flushReads);
+
+    showGreeting();
+
+    contactToggle.addEventListener('click', () => {
+      contactForm.hidden = !contactForm.hidden;
+    });
+
+    contactForm.addEventListener('submit', (event) => {
+      event.preventDefault();
+      if (!currentSessionId) return;
+      socket.emit('contact', {
+        sessionId: currentSessionId,
+        name: contactForm.elements.name.value.trim(),
+        email: contactForm.elements.email.value.trim(),
+      });
     });
 
     window.addEventListener('beforeunload', () => {
@@ -137,5 +756,5 @@
     });
   }
 
-  loadSocketIo(init);
+  loadConfig().then((config) => loadSocketIo(config.socketIoUrl, () => init(config)));
 })();
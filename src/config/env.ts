@@ -6,14 +6,127 @@ const envSource: EnvSource = (
 	(globalThis as typeof globalThis & { process?: { env: EnvSource } }).process?.env ?? {}
 );
 
+type SocketAdapterKind = 'memory' | 'postgres' | 'redis';
+
+type AttachmentStorageKind = 'local' | 's3';
+
+type BotProviderKind = 'n8n' | 'http' | 'openai' | 'rules';
+
+type SummaryProviderKind = 'none' | 'n8n' | 'openai';
+
+type RetentionMode = 'purge' | 'anonymize';
+
+type RedactionDetector = 'email' | 'phone' | 'card';
+
+type RedactionMode = 'mask' | 'hash' | 'drop';
+
+/** What each detector does to its matches; detectors left out are not applied */
+type RedactionRules = Partial<Record<RedactionDetector, RedactionMode>>;
+
+type RedactionConfig = {
+	/** Message content written to chat_message */
+	storage: RedactionRules;
+	/** Every line written by the logger */
+	logs: RedactionRules;
+	/** Text sent to the bot providers and the summarizer */
+	bot: RedactionRules;
+	/** HMAC key for `hash` mode, so the same value always maps to the same token */
+	hashSecret?: string;
+};
+
+type HttpBotEnvConfig = {
+	url: string;
+	timeoutMs: number;
+	headers: Record<string, string>;
+	/** JSON body with {{placeholders}}; the n8n payload shape when unset */
+	requestTemplate?: unknown;
+	/** Dot path to the reply text in the response; n8n-style output/text/message when unset */
+	responsePath?: string;
+};
+
+type OpenAiEnvConfig = {
+	baseUrl: string;
+	apiKey?: string;
+	model: string;
+	systemPrompt?: string;
+	timeoutMs: number;
+};
+
+type S3Config = {
+	bucket: string;
+	region: string;
+	/** Custom endpoint for S3-compatible services (MinIO, R2, Spaces, ...) */
+	endpoint?: string;
+	accessKeyId?: string;
+	secretAccessKey?: string;
+	forcePathStyle: boolean;
+};
+
+type RateLimitConfig = {
+	/** Maximum hits per window, 0 disables the limit */
+	limit: number;
+	windowSeconds: number;
+};
+
 type EnvConfig = {
 	port: number;
 	corsOrigins: string[];
 	n8nWebhookUrl: string;
+	n8nStreaming: boolean;
+	n8nTimeoutMs: number;
+	n8nCallbackSecret?: string;
+	n8nRetryMaxAttempts: number;
+	n8nRetryBaseSeconds: number;
+	n8nCircuitFailureThreshold: number;
+	n8nCircuitResetSeconds: number;
+	/** Bot providers in failover order for widgets without their own list */
+	botProviders: BotProviderKind[];
+	httpBot?: HttpBotEnvConfig;
+	openai: OpenAiEnvConfig;
+	/** JSON file with the rule/FAQ provider's rules */
+	botRulesFile?: string;
+	/** Who writes the summary and outcome tags of closed sessions */
+	summaryProvider: SummaryProviderKind;
+	summaryWebhookUrl?: string;
+	/** SMTP connection string (smtp[s]://user:pass@host:port) for outgoing mail */
+	smtpUrl?: string;
+	mailFrom?: string;
+	/** Email the transcript to the visitor's captured address when a session closes */
+	closeoutEmailTranscript: boolean;
 	databaseUrl: string;
+	socketAdapter: SocketAdapterKind;
+	socketAdapterDatabaseUrl: string;
+	redisUrl?: string;
+	trustProxy: number;
+	rateLimitStore: 'memory' | 'redis';
+	rateLimits: {
+		messagesPerSession: RateLimitConfig;
+		messagesPerVisitor: RateLimitConfig;
+		messagesPerIp: RateLimitConfig;
+		sessionsPerVisitor: RateLimitConfig;
+		sessionsPerIp: RateLimitConfig;
+	};
 	apiSecret?: string;
+	widgetTokenSecret?: string;
+	metricsToken?: string;
+	widgetTokenTtlHours: number;
 	heartbeatTimeoutSeconds: number;
 	sessionCloseMinutes: number;
+	/** Closed sessions idle for longer than this are purged or anonymized, 0 keeps them forever */
+	retentionDays: number;
+	retentionMode: RetentionMode;
+	webhookTimeoutMs: number;
+	webhookMaxAttempts: number;
+	webhookRetryBaseSeconds: number;
+	/** Absolute URL of this server, used for attachment links sent to n8n */
+	publicBaseUrl?: string;
+	attachmentStorage: AttachmentStorageKind;
+	attachmentDir: string;
+	attachmentMaxBytes: number;
+	attachmentMimeTypes: string[];
+	attachmentUrlTtlHours: number;
+	s3?: S3Config;
+	redaction: RedactionConfig;
 };
 
 function requireString(value: string | undefined, key: string): string {
@@ -32,6 +145,130 @@ function parseNumber(value: string | undefined, key: string, fallback: number):
 	return parsed;
 }
 
+function parseBoolean(value: string | undefined, key: string, fallback: boolean): boolean {
+	if (!value) return fallback;
+	const normalized = value.trim().toLowerCase();
+	if (['true', '1', 'yes'].includes(normalized)) return true;
+	if (['false', '0', 'no'].includes(normalized)) return false;
+	throw new Error(`Environment variable ${key} must be a boolean (true/false)`);
+}
+
+function parseSocketAdapter(value: string | undefined, redisUrl: string | undefined): SocketAdapterKind {
+	const adapter = value?.trim().toLowerCase() || (redisUrl ? 'redis' : 'memory');
+	if (adapter !== 'memory' && adapter !== 'postgres' && adapter !== 'redis') {
+		throw new Error('Environment variable SOCKET_ADAPTER must be one of memory, postgres, redis');
+	}
+	if (adapter === 'redis' && !redisUrl) {
+		throw new Error('Environment variable REDIS_URL is required when SOCKET_ADAPTER=redis');
+	}
+	return adapter;
+}
+
+function parseJson(value: string | undefined, key: string): unknown {
+	if (!value?.trim()) return undefined;
+	try {
+		return JSON.parse(value);
+	} catch {
+		throw new Error(`Environment variable ${key} must be valid JSON`);
+	}
+}
+
+function parseBotProviders(value: string | undefined): BotProviderKind[] {
+	const kinds = (value ?? 'n8n')
+		.split(',')
+		.map((kind: string) => kind.trim().toLowerCase())
+		.filter(Boolean);
+	if (!kinds.length || !kinds.every((kind) => ['n8n', 'http', 'openai', 'rules'].includes(kind))) {
+		throw new Error('Environment variable BOT_PROVIDERS must list n8n, http, openai and/or rules');
+	}
+	return [...new Set(kinds)] as BotProviderKind[];
+}
+
+function parseHttpBot(providers: BotProviderKind[]): HttpBotEnvConfig | undefined {
+	const url = envSource.HTTP_BOT_URL?.trim();
+	if (!url) {
+		if (providers.includes('http')) {
+			throw new Error('Environment variable HTTP_BOT_URL is required when BOT_PROVIDERS includes http');
+		}
+		return undefined;
+	}
+	const headers = parseJson(envSource.HTTP_BOT_HEADERS, 'HTTP_BOT_HEADERS') ?? {};
+	if (
+		typeof headers !== 'object' ||
+		Array.isArray(headers) ||
+		!Object.values(headers as object).every((header) => typeof header === 'string')
+	) {
+		throw new Error('Environment variable HTTP_BOT_HEADERS must be a JSON object of strings');
+	}
+	return {
+		url,
+		timeoutMs: parseNumber(envSource.HTTP_BOT_TIMEOUT_MS, 'HTTP_BOT_TIMEOUT_MS', 30000),
+		headers: headers as Record<string, string>,
+		requestTemplate: parseJson(envSource.HTTP_BOT_REQUEST_TEMPLATE, 'HTTP_BOT_REQUEST_TEMPLATE'),
+		responsePath: envSource.HTTP_BOT_RESPONSE_PATH?.trim() || undefined,
+	};
+}
+
+function parseSummaryProvider(value: string | undefined): SummaryProviderKind {
+	const kind = value?.trim().toLowerCase() || 'none';
+	if (kind !== 'none' && kind !== 'n8n' && kind !== 'openai') {
+		throw new Error('Environment variable SUMMARY_PROVIDER must be none, n8n or openai');
+	}
+	if (kind === 'n8n' && !envSource.N8N_SUMMARY_WEBHOOK_URL?.trim()) {
+		throw new Error('Missing required environment variable: N8N_SUMMARY_WEBHOOK_URL (SUMMARY_PROVIDER=n8n)');
+	}
+	return kind;
+}
+
+function parseRetentionMode(value: string | undefined): RetentionMode {
+	const mode = value?.trim().toLowerCase() || 'purge';
+	if (mode !== 'purge' && mode !== 'anonymize') {
+		throw new Error('Environment variable RETENTION_MODE must be purge or anonymize');
+	}
+	return mode;
+}
+
+// `email:hash,phone:mask,card:drop`; an empty value (or `off`) disables redaction for that target
+function parseRedactionRules(value: string | undefined, key: string, fallback: string): RedactionRules {
+	const rules: RedactionRules = {};
+	const source = (value ?? fallback).trim().toLowerCase();
+	if (!source || source === 'off') return rules;
+
+	for (const entry of source.split(',').map((part) => part.trim()).filter(Boolean)) {
+		const [detector, mode = 'mask'] = entry.split(':').map((part) => part.trim());
+		if (!['email', 'phone', 'card'].includes(detector) || !['mask', 'hash', 'drop'].includes(mode)) {
+			throw new Error(`Environment variable ${key} must list detector:mode pairs (email|phone|card : mask|hash|drop)`);
+		}
+		rules[detector as RedactionDetector] = mode as RedactionMode;
+	}
+	return rules;
+}
+
+function parseAttachmentStorage(value: string | undefined): AttachmentStorageKind {
+	const storage = value?.trim().toLowerCase() || 'local';
+	if (storage !== 'local' && storage !== 's3') {
+		throw new Error('Environment variable ATTACHMENT_STORAGE must be one of local, s3');
+	}
+	return storage;
+}
+
+function parseS3Config(storage: AttachmentStorageKind): S3Config | undefined {
+	if (storage !== 's3') return undefined;
+	return {
+		bucket: requireString(envSource.S3_BUCKET, 'S3_BUCKET'),
+		region: envSource.S3_REGION?.trim() || 'us-east-1',
+		endpoint: envSource.S3_ENDPOINT?.trim() || undefined,
+		accessKeyId: envSource.S3_ACCESS_KEY_ID?.trim() || undefined,
+		secretAccessKey: envSource.S3_SECRET_ACCESS_KEY?.trim() || undefined,
+		forcePathStyle: parseBoolean(envSource.S3_FORCE_PATH_STYLE, 'S3_FORCE_PATH_STYLE', false),
+	};
+}
+
+const redisUrl = envSource.REDIS_URL?.trim() || undefined;
+const botProviders = parseBotProviders(envSource.BOT_PROVIDERS);
+const attachmentStorage = parseAttachmentStorage(envSource.ATTACHMENT_STORAGE);
+const databaseUrl = requireString(envSource.DATABASE_URL, 'DATABASE_URL');
+
 const rawOrigins: string = envSource.CORS_ORIGIN ?? '';
 const corsOrigins = rawOrigins
 	.split(',')
@@ -42,14 +279,106 @@ export const env: EnvConfig = {
 	port: parseNumber(envSource.PORT, 'PORT', 3001),
 	corsOrigins: corsOrigins.length ? corsOrigins : ['http://localhost:3000'],
 	n8nWebhookUrl: requireString(envSource.N8N_WEBHOOK_URL, 'N8N_WEBHOOK_URL'),
-	databaseUrl: requireString(envSource.DATABASE_URL, 'DATABASE_URL'),
+	n8nStreaming: parseBoolean(envSource.N8N_STREAMING, 'N8N_STREAMING', false),
+	n8nTimeoutMs: parseNumber(envSource.N8N_TIMEOUT_MS, 'N8N_TIMEOUT_MS', 60000),
+	n8nCallbackSecret: envSource.N8N_CALLBACK_SECRET?.trim() || undefined,
+	n8nRetryMaxAttempts: parseNumber(envSource.N8N_RETRY_MAX_ATTEMPTS, 'N8N_RETRY_MAX_ATTEMPTS', 8),
+	n8nRetryBaseSeconds: parseNumber(envSource.N8N_RETRY_BASE_SECONDS, 'N8N_RETRY_BASE_SECONDS', 5),
+	n8nCircuitFailureThreshold: parseNumber(
+		envSource.N8N_CIRCUIT_FAILURE_THRESHOLD,
+		'N8N_CIRCUIT_FAILURE_THRESHOLD',
+		5
+	),
+	n8nCircuitResetSeconds: parseNumber(envSource.N8N_CIRCUIT_RESET_SECONDS, 'N8N_CIRCUIT_RESET_SECONDS', 30),
+	botProviders,
+	httpBot: parseHttpBot(botProviders),
+	openai: {
+		baseUrl: (envSource.OPENAI_BASE_URL?.trim() || 'https://api.openai.com/v1').replace(/\/$/, ''),
+		apiKey: envSource.OPENAI_API_KEY?.trim() || undefined,
+		model: envSource.OPENAI_MODEL?.trim() || 'gpt-4o-mini',
+		systemPrompt: envSource.OPENAI_SYSTEM_PROMPT?.trim() || undefined,
+		timeoutMs: parseNumber(envSource.OPENAI_TIMEOUT_MS, 'OPENAI_TIMEOUT_MS', 60000),
+	},
+	botRulesFile: envSource.BOT_RULES_FILE?.trim() || undefined,
+	summaryProvider: parseSummaryProvider(envSource.SUMMARY_PROVIDER),
+	summaryWebhookUrl: envSource.N8N_SUMMARY_WEBHOOK_URL?.trim() || undefined,
+	smtpUrl: envSource.SMTP_URL?.trim() || undefined,
+	mailFrom: envSource.MAIL_FROM?.trim() || undefined,
+	closeoutEmailTranscript: parseBoolean(envSource.CLOSEOUT_EMAIL_TRANSCRIPT, 'CLOSEOUT_EMAIL_TRANSCRIPT', false),
+	databaseUrl,
+	socketAdapter: parseSocketAdapter(envSource.SOCKET_ADAPTER, redisUrl),
+	socketAdapterDatabaseUrl: envSource.SOCKET_ADAPTER_DATABASE_URL?.trim() || databaseUrl,
+	redisUrl,
+	trustProxy: parseNumber(envSource.TRUST_PROXY, 'TRUST_PROXY', 1),
+	rateLimitStore: envSource.RATE_LIMIT_STORE?.trim().toLowerCase() === 'redis' ? 'redis' : 'memory',
+	rateLimits: {
+		messagesPerSession: {
+			limit: parseNumber(envSource.RATE_LIMIT_SESSION_MESSAGES_PER_MINUTE, 'RATE_LIMIT_SESSION_MESSAGES_PER_MINUTE', 20),
+			windowSeconds: 60,
+		},
+		messagesPerVisitor: {
+			limit: parseNumber(envSource.RATE_LIMIT_VISITOR_MESSAGES_PER_MINUTE, 'RATE_LIMIT_VISITOR_MESSAGES_PER_MINUTE', 30),
+			windowSeconds: 60,
+		},
+		messagesPerIp: {
+			limit: parseNumber(envSource.RATE_LIMIT_IP_MESSAGES_PER_MINUTE, 'RATE_LIMIT_IP_MESSAGES_PER_MINUTE', 60),
+			windowSeconds: 60,
+		},
+		sessionsPerVisitor: {
+			limit: parseNumber(envSource.RATE_LIMIT_VISITOR_SESSIONS_PER_HOUR, 'RATE_LIMIT_VISITOR_SESSIONS_PER_HOUR', 10),
+			windowSeconds: 3600,
+		},
+		sessionsPerIp: {
+			limit: parseNumber(envSource.RATE_LIMIT_IP_SESSIONS_PER_HOUR, 'RATE_LIMIT_IP_SESSIONS_PER_HOUR', 30),
+			windowSeconds: 3600,
+		},
+	},
 	apiSecret: envSource.API_SECRET?.trim() || undefined,
+	widgetTokenSecret: envSource.WIDGET_TOKEN_SECRET?.trim() || undefined,
+	metricsToken: envSource.METRICS_TOKEN?.trim() || undefined,
+	widgetTokenTtlHours: parseNumber(envSource.WIDGET_TOKEN_TTL_HOURS, 'WIDGET_TOKEN_TTL_HOURS', 24),
 	heartbeatTimeoutSeconds: parseNumber(
 		envSource.HEARTBEAT_TIMEOUT_SECONDS,
 		'HEARTBEAT_TIMEOUT_SECONDS',
 		120
 	),
 	sessionCloseMinutes: parseNumber(envSource.SESSION_CLOSE_MINUTES, 'SESSION_CLOSE_MINUTES', 15),
+	retentionDays: parseNumber(envSource.RETENTION_DAYS, 'RETENTION_DAYS', 0),
+	retentionMode: parseRetentionMode(envSource.RETENTION_MODE),
+	webhookTimeoutMs: parseNumber(envSource.WEBHOOK_TIMEOUT_MS, 'WEBHOOK_TIMEOUT_MS', 10000),
+	webhookMaxAttempts: parseNumber(envSource.WEBHOOK_MAX_ATTEMPTS, 'WEBHOOK_MAX_ATTEMPTS', 10),
+	webhookRetryBaseSeconds: parseNumber(envSource.WEBHOOK_RETRY_BASE_SECONDS, 'WEBHOOK_RETRY_BASE_SECONDS', 30),
+	publicBaseUrl: envSource.PUBLIC_BASE_URL?.trim().replace(/\/$/, '') || undefined,
+	attachmentStorage,
+	attachmentDir: envSource.ATTACHMENT_DIR?.trim() || 'uploads',
+	attachmentMaxBytes: parseNumber(envSource.ATTACHMENT_MAX_BYTES, 'ATTACHMENT_MAX_BYTES', 10 * 1024 * 1024),
+	attachmentMimeTypes: (envSource.ATTACHMENT_MIME_TYPES ?? 'image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain')
+		.split(',')
+		.map((type: string) => type.trim().toLowerCase())
+		.filter(Boolean),
+	attachmentUrlTtlHours: parseNumber(envSource.ATTACHMENT_URL_TTL_HOURS, 'ATTACHMENT_URL_TTL_HOURS', 24),
+	s3: parseS3Config(attachmentStorage),
+	redaction: {
+		storage: parseRedactionRules(envSource.REDACT_STORAGE, 'REDACT_STORAGE', 'card:mask'),
+		logs: parseRedactionRules(envSource.REDACT_LOGS, 'REDACT_LOGS', 'email:mask,phone:mask,card:mask'),
+		bot: parseRedactionRules(envSource.REDACT_BOT, 'REDACT_BOT', 'card:mask'),
+		hashSecret: envSource.REDACT_HASH_SECRET?.trim() || envSource.API_SECRET?.trim() || undefined,
+	},
 };
 
-export type { EnvConfig };
+export type {
+	AttachmentStorageKind,
+	BotProviderKind,
+	EnvConfig,
+	HttpBotEnvConfig,
+	OpenAiEnvConfig,
+	RateLimitConfig,
+	RedactionConfig,
+	RedactionDetector,
+	RedactionMode,
+	RedactionRules,
+	RetentionMode,
+	S3Config,
+	SocketAdapterKind,
+	SummaryProviderKind,
+};
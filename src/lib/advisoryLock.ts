@@ -0,0 +1,24 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+/**
+ * Runs `fn` inside a transaction holding a Postgres transaction-level advisory
+ * lock, so only one instance does the work. The lock is released on commit or
+ * rollback, which keeps it safe with Prisma's connection pool. Returns
+ * `{ acquired: false }` without running `fn` when another instance holds it.
+ */
+export async function withAdvisoryLock<T>(
+  lockName: string,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  timeoutMs = 60_000
+): Promise<{ acquired: boolean; result?: T }> {
+  return prisma.$transaction(
+    async (tx) => {
+      const [{ locked }] = await tx.$queryRaw<{ locked: boolean }[]>`
+        SELECT pg_try_advisory_xact_lock(hashtext(${lockName})) AS locked`;
+      if (!locked) return { acquired: false };
+      return { acquired: true, result: await fn(tx) };
+    },
+    { timeout: timeoutMs }
+  );
+}
@@ -0,0 +1,77 @@
+import { createReadStream } from 'fs';
+import { access, mkdir, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import type { Readable } from 'stream';
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { env, type AttachmentStorageKind, type S3Config } from '../config/env';
+import logger from '../utils/logger';
+
+/** Where attachment bytes live; keys are generated server-side (`<sessionId>/<attachmentId>`) */
+export interface AttachmentStorage {
+  readonly kind: AttachmentStorageKind;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+function createLocalStorage(directory: string): AttachmentStorage {
+  const root = path.resolve(directory);
+  const resolve = (key: string) => path.join(root, ...key.split('/'));
+
+  return {
+    kind: 'local',
+    async put(key, body) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+    },
+    async get(key) {
+      const file = resolve(key);
+      await access(file);
+      return createReadStream(file);
+    },
+    async delete(key) {
+      await unlink(resolve(key)).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') throw error;
+      });
+    },
+  };
+}
+
+function createS3Storage(config: S3Config): AttachmentStorage {
+  const client = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    // Without explicit keys the SDK falls back to its default chain (env, instance role, ...)
+    credentials:
+      config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+  });
+
+  return {
+    kind: 's3',
+    async put(key, body, contentType) {
+      await client.send(new PutObjectCommand({ Bucket: config.bucket, Key: key, Body: body, ContentType: contentType }));
+    },
+    async get(key) {
+      const object = await client.send(new GetObjectCommand({ Bucket: config.bucket, Key: key }));
+      return object.Body as Readable;
+    },
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: config.bucket, Key: key }));
+    },
+  };
+}
+
+let storage: AttachmentStorage | undefined;
+
+/** The backend selected by ATTACHMENT_STORAGE, created on first use */
+export function getAttachmentStorage(): AttachmentStorage {
+  if (!storage) {
+    storage = env.attachmentStorage === 's3' && env.s3 ? createS3Storage(env.s3) : createLocalStorage(env.attachmentDir);
+    logger.info(`📎 Attachment storage: ${storage.kind}`);
+  }
+  return storage;
+}
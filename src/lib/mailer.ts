@@ -0,0 +1,22 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import { env } from '../config/env';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+let transporter: Transporter | null = null;
+
+export function isMailConfigured(): boolean {
+  return !!env.smtpUrl && !!env.mailFrom;
+}
+
+/** Sends through SMTP_URL; the connection is created on first use */
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!isMailConfigured()) throw new Error('Mail is not configured (SMTP_URL, MAIL_FROM)');
+  transporter ??= nodemailer.createTransport(env.smtpUrl);
+  await transporter.sendMail({ from: env.mailFrom, ...message });
+}
@@ -0,0 +1,96 @@
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { chat_session_status, type message_role } from '@prisma/client';
+import type { Namespace } from 'socket.io';
+import { prisma } from './prisma';
+import logger from '../utils/logger';
+
+/** Everything served on GET /metrics; counters and histograms are per instance */
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+const connectedSockets = new Gauge({
+  name: 'chat_connected_sockets',
+  help: 'Socket.IO connections to this instance',
+  labelNames: ['namespace'] as const,
+  registers: [metricsRegistry],
+});
+
+// Read from the database on every scrape, so every instance reports the same totals
+new Gauge({
+  name: 'chat_sessions',
+  help: 'Chat sessions by status',
+  labelNames: ['status'] as const,
+  registers: [metricsRegistry],
+  async collect() {
+    // A database hiccup shouldn't fail the whole scrape; the gauge keeps its last values
+    try {
+      const counts = await prisma.chatSession.groupBy({ by: ['status'], _count: { _all: true } });
+      for (const status of Object.values(chat_session_status)) {
+        this.set({ status }, counts.find((count) => count.status === status)?._count._all ?? 0);
+      }
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.warn(`Failed to count sessions for metrics: ${errMsg}`);
+    }
+  },
+});
+
+const messagesTotal = new Counter({
+  name: 'chat_messages_total',
+  help: 'Chat messages stored, by sender role',
+  labelNames: ['role'] as const,
+  registers: [metricsRegistry],
+});
+
+const botRequestDuration = new Histogram({
+  name: 'chat_bot_request_duration_seconds',
+  help: 'Bot provider (n8n, http, openai, rules) request latency',
+  labelNames: ['provider', 'outcome'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60],
+  registers: [metricsRegistry],
+});
+
+const botRequestErrors = new Counter({
+  name: 'chat_bot_request_errors_total',
+  help: 'Failed bot provider requests (errors and timeouts)',
+  labelNames: ['provider'] as const,
+  registers: [metricsRegistry],
+});
+
+const cleanupTransitions = new Counter({
+  name: 'chat_cleanup_transitions_total',
+  help: 'Sessions moved by the cleanup job, by new status',
+  labelNames: ['status'] as const,
+  registers: [metricsRegistry],
+});
+
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'REST API latency by route',
+  labelNames: ['method', 'route', 'status_code'] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+export function trackSockets(namespace: Namespace, label: string) {
+  connectedSockets.set({ namespace: label }, 0);
+  namespace.on('connection', (socket) => {
+    connectedSockets.inc({ namespace: label });
+    socket.on('disconnect', () => connectedSockets.dec({ namespace: label }));
+  });
+}
+
+export function recordMessage(role: message_role) {
+  messagesTotal.inc({ role });
+}
+
+/** Times one provider call; `startedAt` comes from `process.hrtime.bigint()` */
+export function recordBotRequest(provider: string, startedAt: bigint, failed: boolean) {
+  const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+  botRequestDuration.observe({ provider, outcome: failed ? 'error' : 'success' }, seconds);
+  if (failed) botRequestErrors.inc({ provider });
+}
+
+export function recordCleanupTransitions(status: chat_session_status, count: number) {
+  if (count) cleanupTransitions.inc({ status }, count);
+}
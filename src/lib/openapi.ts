@@ -0,0 +1,147 @@
+import {
+  extendZodWithOpenApi,
+  OpenAPIRegistry,
+  OpenApiGeneratorV3,
+  type ResponseConfig,
+  type RouteConfig,
+} from '@asteasolutions/zod-to-openapi';
+import { z, type AnyZodObject, type ZodTypeAny } from 'zod';
+
+extendZodWithOpenApi(z);
+
+/** Who may call a route; documented as its security requirement */
+export type RouteAccess = 'public' | 'authenticated' | 'admin' | 'globalAdmin' | 'session' | 'signature' | 'signedLink' | 'metrics';
+
+export interface ApiRouteDoc {
+  method: 'get' | 'post' | 'put' | 'patch' | 'delete';
+  /** Full Express path as mounted, e.g. `/api/sessions/:id` */
+  path: string;
+  summary: string;
+  tag: string;
+  access: RouteAccess;
+  /** Success statuses and what they mean; defaults to `200: 'OK'` */
+  responses?: Record<number, string>;
+  /** Multipart field carrying an uploaded file (documented only; multer reads it) */
+  upload?: string;
+}
+
+export interface ApiRouteSchemas {
+  params?: AnyZodObject;
+  query?: AnyZodObject;
+  body?: ZodTypeAny;
+}
+
+const registry = new OpenAPIRegistry();
+
+registry.registerComponent('securitySchemes', 'apiKey', {
+  type: 'http',
+  scheme: 'bearer',
+  description: 'Admin API key (API_SECRET or one issued by POST /api/keys). Also accepted as the X-API-Key header.',
+});
+registry.registerComponent('securitySchemes', 'sessionToken', {
+  type: 'http',
+  scheme: 'bearer',
+  description: 'Widget session token returned by POST /api/sessions.',
+});
+registry.registerComponent('securitySchemes', 'signature', {
+  type: 'apiKey',
+  in: 'header',
+  name: 'X-Signature-256',
+  description: 'sha256=<hex> HMAC of `<X-Signature-Timestamp>.<METHOD> <path>.<raw body>` keyed with N8N_CALLBACK_SECRET.',
+});
+registry.registerComponent('securitySchemes', 'metricsToken', {
+  type: 'http',
+  scheme: 'bearer',
+  description: 'METRICS_TOKEN, or a deployment-wide admin key when it is unset.',
+});
+
+const ErrorResponse = registry.register('Error', z.object({ error: z.string() }));
+
+const ValidationErrorResponse = registry.register(
+  'ValidationError',
+  z.object({
+    error: z.string().openapi({ example: 'content: String must contain at most 4000 character(s)' }),
+    issues: z.array(
+      z.object({
+        location: z.enum(['params', 'query', 'body']),
+        path: z.string(),
+        message: z.string(),
+      })
+    ),
+  })
+);
+
+const SECURITY: Record<RouteAccess, RouteConfig['security']> = {
+  public: [],
+  authenticated: [{ apiKey: [] }, { sessionToken: [] }],
+  admin: [{ apiKey: [] }],
+  globalAdmin: [{ apiKey: [] }],
+  session: [{ apiKey: [] }, { sessionToken: [] }],
+  signature: [{ signature: [] }],
+  signedLink: [],
+  metrics: [{ metricsToken: [] }],
+};
+
+const ACCESS_NOTES: Record<RouteAccess, string> = {
+  public: 'Public.',
+  authenticated: 'Admin key or widget session token.',
+  admin: 'Admin key; tenant-bound keys only see their tenant.',
+  globalAdmin: 'Deployment-wide admin key.',
+  session: "Admin key (of the session's tenant) or the session's widget token.",
+  signature: 'HMAC-signed by n8n.',
+  signedLink: 'Signed link (`expires` and `signature` query parameters).',
+  metrics: 'METRICS_TOKEN or a deployment-wide admin key.',
+};
+
+function errorResponse(description: string, schema: ZodTypeAny = ErrorResponse): ResponseConfig {
+  return { description, content: { 'application/json': { schema } } };
+}
+
+function requestBody(route: ApiRouteDoc & ApiRouteSchemas): RouteConfig['request'] {
+  if (route.upload) {
+    const schema = z.object({ [route.upload]: z.string().openapi({ format: 'binary' }) });
+    return { body: { content: { 'multipart/form-data': { schema } } } };
+  }
+  return route.body ? { body: { content: { 'application/json': { schema: route.body } } } } : {};
+}
+
+/** Adds a route to the OpenAPI document served at /api/docs */
+export function registerRoute(route: ApiRouteDoc & ApiRouteSchemas) {
+  const responses: Record<number, ResponseConfig> = {};
+  for (const [status, description] of Object.entries(route.responses ?? { 200: 'OK' })) {
+    responses[Number(status)] = { description };
+  }
+  if (route.params || route.query || route.body) {
+    responses[400] = errorResponse('Invalid parameters or body', ValidationErrorResponse);
+  }
+  if (route.access !== 'public' && route.access !== 'signedLink') {
+    responses[401] = errorResponse('Missing or invalid credentials');
+    responses[403] = errorResponse('Credentials do not grant access');
+  }
+
+  registry.registerPath({
+    method: route.method,
+    path: route.path.replace(/:(\w+)/g, '{$1}'),
+    summary: route.summary,
+    description: ACCESS_NOTES[route.access],
+    tags: [route.tag],
+    security: SECURITY[route.access],
+    request: {
+      ...(route.params ? { params: route.params } : {}),
+      ...(route.query ? { query: route.query } : {}),
+      ...requestBody(route),
+    },
+    responses,
+  });
+}
+
+export function buildOpenApiDocument() {
+  return new OpenApiGeneratorV3(registry.definitions).generateDocument({
+    openapi: '3.0.3',
+    info: {
+      title: 'PixelPunch Chat Middleware API',
+      version: process.env.npm_package_version ?? '0.1.0',
+      description: 'REST API of the chat middleware. Socket.IO events are described at /api/docs/socket.',
+    },
+  });
+}
@@ -0,0 +1,88 @@
+import { Pool } from 'pg';
+import { createClient } from 'redis';
+import { createAdapter as createPostgresAdapter } from '@socket.io/postgres-adapter';
+import { createAdapter as createRedisAdapter } from '@socket.io/redis-adapter';
+import { env } from '../config/env';
+import logger from '../utils/logger';
+import type { ChatServer } from '../types/socket';
+
+const POSTGRES_ADAPTER_TABLE = 'socket_io_attachments';
+// The server only starts listening once the adapter is attached, so an unreachable backend must fail fast
+const ADAPTER_CONNECT_TIMEOUT_MS = 10_000;
+
+async function attachPostgresAdapter(io: ChatServer) {
+  // LISTEN/NOTIFY needs a direct (non-transaction-pooled) connection
+  const pool = new Pool({
+    connectionString: env.socketAdapterDatabaseUrl,
+    max: 5,
+    connectionTimeoutMillis: ADAPTER_CONNECT_TIMEOUT_MS,
+  });
+  pool.on('error', (error) => logger.error('Socket.IO Postgres adapter pool error', error));
+
+  try {
+    // Large payloads are spilled into this table by the adapter
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS ${POSTGRES_ADAPTER_TABLE} (
+        id          bigserial UNIQUE,
+        created_at  timestamptz DEFAULT NOW(),
+        payload     bytea
+      );
+    `);
+  } catch (error) {
+    await pool.end().catch(() => undefined);
+    throw error;
+  }
+
+  io.adapter(createPostgresAdapter(pool, { tableName: POSTGRES_ADAPTER_TABLE }));
+}
+
+async function attachRedisAdapter(io: ChatServer) {
+  const pubClient = createClient({ url: env.redisUrl });
+  const subClient = pubClient.duplicate();
+  pubClient.on('error', (error) => logger.error('Socket.IO Redis pub client error', error));
+  subClient.on('error', (error) => logger.error('Socket.IO Redis sub client error', error));
+
+  // The clients keep retrying an unreachable server, so the first connect is capped
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Redis did not connect within ${ADAPTER_CONNECT_TIMEOUT_MS}ms`)),
+      ADAPTER_CONNECT_TIMEOUT_MS
+    );
+  });
+  try {
+    await Promise.race([Promise.all([pubClient.connect(), subClient.connect()]), deadline]);
+  } catch (error) {
+    pubClient.destroy();
+    subClient.destroy();
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+  io.adapter(createRedisAdapter(pubClient, subClient));
+}
+
+/**
+ * Switches Socket.IO to a cross-instance adapter so `io.to(room).emit()`
+ * reaches sockets connected to other instances. Falls back to the default
+ * in-memory adapter (single instance) when the adapter can't be set up or
+ * its backend doesn't answer within ADAPTER_CONNECT_TIMEOUT_MS.
+ */
+export async function attachSocketAdapter(io: ChatServer): Promise<void> {
+  if (env.socketAdapter === 'memory') {
+    logger.info('🔌 Socket.IO adapter: in-memory (single instance)');
+    return;
+  }
+
+  try {
+    if (env.socketAdapter === 'redis') {
+      await attachRedisAdapter(io);
+    } else {
+      await attachPostgresAdapter(io);
+    }
+    logger.info(`🔌 Socket.IO adapter: ${env.socketAdapter}`);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to attach ${env.socketAdapter} Socket.IO adapter, staying in-memory: ${errMsg}`);
+  }
+}
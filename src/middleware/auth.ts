@@ -0,0 +1,106 @@
+import type { NextFunction, Request, Response } from 'express';
+import { env } from '../config/env';
+import { canAccessSession, isGlobalAdmin, resolveCredential, safeEqual, type AuthContext } from '../services/authService';
+import logger from '../utils/logger';
+import { isUuid } from '../utils/query';
+import { sendValidationError } from './validate';
+
+function extractCredential(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.toLowerCase().startsWith('bearer ')) {
+    return header.slice(7).trim();
+  }
+  const apiKey = req.headers['x-api-key'];
+  return Array.isArray(apiKey) ? apiKey[0] : apiKey;
+}
+
+function unauthorized(res: Response, message: string) {
+  res.setHeader('WWW-Authenticate', 'Bearer');
+  res.status(401).json({ error: message });
+}
+
+function forbidden(res: Response) {
+  res.status(403).json({ error: 'Insufficient permissions' });
+}
+
+/** Auth context attached by one of the guards below. */
+export function getAuth(res: Response): AuthContext {
+  return res.locals.auth as AuthContext;
+}
+
+async function authenticate(req: Request, res: Response): Promise<AuthContext | null> {
+  const credential = extractCredential(req);
+  if (!credential) {
+    unauthorized(res, 'Authentication required');
+    return null;
+  }
+
+  try {
+    const auth = await resolveCredential(credential);
+    if (!auth) {
+      unauthorized(res, 'Invalid credentials');
+      return null;
+    }
+    res.locals.auth = auth;
+    return auth;
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to resolve credentials: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to verify credentials' });
+    return null;
+  }
+}
+
+// Any valid credential: admin keys or widget tokens
+export async function requireAuthenticated(req: Request, res: Response, next: NextFunction) {
+  const auth = await authenticate(req, res);
+  if (!auth) return;
+  if (auth.kind === 'agent') return forbidden(res);
+  next();
+}
+
+// Admin keys only (API_SECRET or an ADMIN key stored in api_key)
+export async function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const auth = await authenticate(req, res);
+  if (!auth) return;
+  if (auth.kind !== 'admin') return forbidden(res);
+  next();
+}
+
+// Deployment-wide admin keys only: tenant-bound admin keys can't manage other tenants
+export async function requireGlobalAdmin(req: Request, res: Response, next: NextFunction) {
+  const auth = await authenticate(req, res);
+  if (!auth) return;
+  if (!isGlobalAdmin(auth)) return forbidden(res);
+  next();
+}
+
+// Prometheus scrapers: METRICS_TOKEN when set, otherwise a deployment-wide admin key
+export async function requireMetricsAccess(req: Request, res: Response, next: NextFunction) {
+  if (!env.metricsToken) return requireGlobalAdmin(req, res, next);
+  const credential = extractCredential(req);
+  if (!credential || !safeEqual(credential, env.metricsToken)) {
+    return unauthorized(res, 'Invalid credentials');
+  }
+  next();
+}
+
+// Admin keys (of the session's tenant), or a widget token issued for the session in the route params
+export function requireSessionAccess(param = 'id') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const auth = await authenticate(req, res);
+    if (!auth) return;
+    if (!isUuid(req.params[param])) {
+      return sendValidationError(res, [{ location: 'params', path: param, message: 'Invalid uuid' }]);
+    }
+
+    try {
+      if (!(await canAccessSession(auth, req.params[param]))) return forbidden(res);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to check session access: ${errMsg}`);
+      return res.status(500).json({ error: 'Failed to verify credentials' });
+    }
+    next();
+  };
+}
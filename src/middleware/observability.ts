@@ -0,0 +1,21 @@
+import type { NextFunction, Request, Response } from 'express';
+import { httpRequestDuration } from '../lib/metrics';
+import { CORRELATION_HEADER, withCorrelationId } from '../utils/correlation';
+
+// Honours the caller's X-Correlation-Id (or issues one) and echoes it on the response
+export function assignCorrelationId(req: Request, res: Response, next: NextFunction) {
+  withCorrelationId(req.get(CORRELATION_HEADER), (correlationId) => {
+    res.setHeader(CORRELATION_HEADER, correlationId);
+    next();
+  });
+}
+
+// Latency per route pattern (`/api/sessions/:id`), so ids don't explode the label set
+export function recordHttpMetrics(req: Request, res: Response, next: NextFunction) {
+  const stopTimer = httpRequestDuration.startTimer();
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    stopTimer({ method: req.method, route, status_code: String(res.statusCode) });
+  });
+  next();
+}
@@ -0,0 +1,13 @@
+import type { NextFunction, Request, Response } from 'express';
+import { consumeRateLimits, type RateLimitCheck } from '../services/rateLimiter';
+
+/** Rejects with 429 + Retry-After when any of the checks built for the request is exhausted */
+export function rateLimit(buildChecks: (req: Request) => RateLimitCheck[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const result = await consumeRateLimits(buildChecks(req));
+    if (result.allowed) return next();
+
+    res.setHeader('Retry-After', String(result.retryAfterSeconds));
+    res.status(429).json({ error: 'Too many requests', retryAfter: result.retryAfterSeconds });
+  };
+}
@@ -0,0 +1,55 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { NextFunction, Request, Response } from 'express';
+import logger from '../utils/logger';
+
+export const SIGNATURE_HEADER = 'x-signature-256';
+export const TIMESTAMP_HEADER = 'x-signature-timestamp';
+const MAX_CLOCK_SKEW_SECONDS = 300;
+
+type RawBodyRequest = IncomingMessage & { rawBody?: Buffer };
+
+/** `express.json({ verify })` hook that keeps the raw body around for signature checks */
+export function captureRawBody(req: IncomingMessage, _res: unknown, buf: Buffer) {
+  (req as RawBodyRequest).rawBody = buf;
+}
+
+/**
+ * HMAC-SHA256 over `<timestamp>.<raw body>`, or `<timestamp>.<target>.<raw body>`
+ * when a `target` (`<METHOD> <path>`) is given so the signature only fits that route.
+ */
+export function computeSignature(secret: string, timestamp: string, body: Buffer | string, target?: string): string {
+  const prefix = target === undefined ? `${timestamp}.` : `${timestamp}.${target}.`;
+  return createHmac('sha256', secret).update(prefix).update(body).digest('hex');
+}
+
+/**
+ * Verifies `X-Signature-256: sha256=<hex>` where the HMAC-SHA256 is computed
+ * over `<X-Signature-Timestamp>.<METHOD> <path>.<raw body>` with the given
+ * shared secret. Signing the path (with the session id in it) keeps a captured
+ * request from being replayed against another session within the skew window.
+ */
+export function requireSignature(secret: string | undefined) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!secret) {
+      logger.warn('⚠️ Signed endpoint called but no signing secret is configured');
+      return res.status(503).json({ error: 'Endpoint not configured' });
+    }
+
+    const signature = String(req.headers[SIGNATURE_HEADER] ?? '').replace(/^sha256=/, '');
+    const timestamp = String(req.headers[TIMESTAMP_HEADER] ?? '');
+    const ageSeconds = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!signature || !timestamp || Number.isNaN(ageSeconds) || ageSeconds > MAX_CLOCK_SKEW_SECONDS) {
+      return res.status(401).json({ error: 'Missing or expired signature' });
+    }
+
+    const target = `${req.method} ${req.originalUrl}`;
+    const expected = Buffer.from(computeSignature(secret, timestamp, (req as RawBodyRequest).rawBody ?? '', target));
+    const provided = Buffer.from(signature);
+    if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+      logger.warn(`❌ Invalid signature on ${req.method} ${req.originalUrl}`);
+      return res.status(401).json({ error: 'Invalid signature' });
+    }
+    next();
+  };
+}
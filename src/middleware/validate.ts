@@ -0,0 +1,66 @@
+import type { NextFunction, Request, Response } from 'express';
+import type { AnyZodObject, z, ZodTypeAny } from 'zod';
+import { registerRoute, type ApiRouteDoc } from '../lib/openapi';
+import { describeIssues, toIssues, type ValidationIssue } from '../utils/validation';
+
+type Output<T> = T extends ZodTypeAny ? z.output<T> : undefined;
+
+export interface RouteInput<P, Q, B> {
+  params: Output<P>;
+  query: Output<Q>;
+  body: Output<B>;
+}
+
+const LOCATIONS = ['params', 'query', 'body'] as const;
+
+/** Largest JSON or form body accepted (uploads go through multer and ATTACHMENT_MAX_BYTES) */
+export const MAX_BODY_SIZE = '100kb';
+
+/** The uniform 400 body: the first issue as `error`, every issue in `issues` */
+export function sendValidationError(res: Response, issues: ValidationIssue[]) {
+  res.status(400).json({ error: describeIssues(issues), issues });
+}
+
+/** Error handler for the body parsers: malformed or oversized bodies get JSON errors, not HTML pages */
+export function rejectInvalidBody(error: unknown, _req: Request, res: Response, next: NextFunction) {
+  const { type } = (error ?? {}) as { type?: string };
+  if (type === 'entity.parse.failed') {
+    return sendValidationError(res, [{ location: 'body', path: '', message: 'Malformed JSON' }]);
+  }
+  if (type === 'entity.too.large') {
+    return res.status(413).json({ error: `Request bodies may be at most ${MAX_BODY_SIZE}` });
+  }
+  next(error);
+}
+
+/**
+ * Declares a route's params, query and body schemas. The route is added to
+ * the OpenAPI document, `validate` rejects bad input with a 400, and handlers
+ * read the parsed values with `input(res)`. Mount `validate` after the auth
+ * guard, so callers without credentials get a 401 rather than schema details.
+ */
+export function defineRoute<
+  P extends AnyZodObject | undefined = undefined,
+  Q extends AnyZodObject | undefined = undefined,
+  B extends ZodTypeAny | undefined = undefined,
+>(route: ApiRouteDoc & { params?: P; query?: Q; body?: B }) {
+  registerRoute(route);
+
+  return {
+    validate(req: Request, res: Response, next: NextFunction) {
+      const input: Record<string, unknown> = {};
+      const issues: ValidationIssue[] = [];
+      for (const location of LOCATIONS) {
+        const schema = route[location];
+        if (!schema) continue;
+        const result = schema.safeParse(req[location] ?? {});
+        if (result.success) input[location] = result.data;
+        else issues.push(...toIssues(result.error, location));
+      }
+      if (issues.length) return sendValidationError(res, issues);
+      res.locals.input = input;
+      next();
+    },
+    input: (res: Response) => res.locals.input as RouteInput<P, Q, B>,
+  };
+}
@@ -0,0 +1,102 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { getAuth, requireAdmin } from '../middleware/auth';
+import { defineRoute, sendValidationError } from '../middleware/validate';
+import {
+  ANALYTICS_GROUPINGS,
+  getAbandonment,
+  getBotResponseLatency,
+  getMessagesPerSession,
+  getSessionsPerPeriod,
+  getSummary,
+  getTopLandingPages,
+  type AnalyticsRange,
+} from '../services/analyticsService';
+import { getTenantId } from '../services/tenantService';
+import logger from '../utils/logger';
+import { dateQuery, limitQuery, timeZoneQuery } from '../utils/validation';
+
+const DEFAULT_RANGE_DAYS = 30;
+
+const rangeQuery = z.object({
+  from: dateQuery,
+  to: dateQuery,
+  groupBy: z.enum(ANALYTICS_GROUPINGS).default('day'),
+  tz: timeZoneQuery,
+});
+
+type RangeQuery = z.output<typeof rangeQuery>;
+
+function toRange(query: RangeQuery): AnalyticsRange | null {
+  const rangeTo = query.to ?? new Date();
+  const rangeFrom = query.from ?? new Date(rangeTo.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+  if (rangeFrom >= rangeTo) return null;
+
+  return { from: rangeFrom, to: rangeTo, groupBy: query.groupBy, timezone: query.tz };
+}
+
+function analyticsRoute(path: string, summary: string) {
+  return defineRoute({
+    method: 'get',
+    path: `/api/analytics${path}`,
+    summary,
+    tag: 'Analytics',
+    access: 'admin',
+    query: rangeQuery,
+  });
+}
+
+// Wraps an aggregation so every endpoint shares range parsing and error handling
+function analyticsHandler(
+  name: string,
+  route: { input(res: Response): { query: RangeQuery } },
+  load: (range: AnalyticsRange, res: Response) => Promise<unknown>
+) {
+  return async (_req: Request, res: Response) => {
+    const range = toRange(route.input(res).query);
+    if (!range) {
+      return sendValidationError(res, [{ location: 'query', path: 'from', message: 'from must be before to' }]);
+    }
+    range.tenantId = getTenantId(getAuth(res));
+
+    try {
+      const data = await load(range, res);
+      res.json({ from: range.from, to: range.to, groupBy: range.groupBy, tz: range.timezone, data });
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to compute ${name} analytics: ${errMsg}`);
+      res.status(500).json({ error: `Failed to compute ${name} analytics` });
+    }
+  };
+}
+
+export const analyticsRouter = Router();
+
+analyticsRouter.use(requireAdmin);
+
+const summaryRoute = analyticsRoute('', 'Totals: sessions, visitors, messages, bot response time, abandonment');
+const sessionsRoute = analyticsRoute('/sessions', 'Sessions and unique visitors per period');
+const messagesRoute = analyticsRoute('/messages', 'Messages per session');
+const latencyRoute = analyticsRoute('/latency', 'Median / p90 seconds between a user message and the next bot reply');
+const abandonmentRoute = analyticsRoute('/abandonment', 'Sessions timed out without any bot reply');
+const landingPagesRoute = defineRoute({
+  method: 'get',
+  path: '/api/analytics/landing-pages',
+  summary: 'Top landing pages from session metadata',
+  tag: 'Analytics',
+  access: 'admin',
+  query: rangeQuery.extend({ limit: limitQuery(10, 100) }),
+});
+
+analyticsRouter.get('/', summaryRoute.validate, analyticsHandler('summary', summaryRoute, (range) => getSummary(range)));
+analyticsRouter.get('/sessions', sessionsRoute.validate, analyticsHandler('sessions', sessionsRoute, getSessionsPerPeriod));
+analyticsRouter.get('/messages', messagesRoute.validate, analyticsHandler('messages', messagesRoute, getMessagesPerSession));
+analyticsRouter.get('/latency', latencyRoute.validate, analyticsHandler('latency', latencyRoute, getBotResponseLatency));
+analyticsRouter.get('/abandonment', abandonmentRoute.validate, analyticsHandler('abandonment', abandonmentRoute, getAbandonment));
+analyticsRouter.get(
+  '/landing-pages',
+  landingPagesRoute.validate,
+  analyticsHandler('landing page', landingPagesRoute, (range, res) =>
+    getTopLandingPages(range, landingPagesRoute.input(res).query.limit)
+  )
+);
@@ -0,0 +1,127 @@
+import { Router, type Request, type Response } from 'express';
+import { api_key_scope } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { z } from 'zod';
+import { getAuth, requireAdmin } from '../middleware/auth';
+import { defineRoute } from '../middleware/validate';
+import { generateApiKey, hashApiKey } from '../services/authService';
+import { getTenantId } from '../services/tenantService';
+import logger from '../utils/logger';
+import { idParams, uuid } from '../utils/validation';
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  key_prefix: true,
+  scope: true,
+  created_at: true,
+  last_used_at: true,
+  revoked_at: true,
+  tenant_id: true,
+} as const;
+
+export const apiKeysRouter = Router();
+
+apiKeysRouter.use(requireAdmin);
+
+// List API keys (hashes are never returned); tenant-bound admins only see their tenant's keys
+const listKeysRoute = defineRoute({
+  method: 'get',
+  path: '/api/keys',
+  summary: 'List API keys (without hashes)',
+  tag: 'API keys',
+  access: 'admin',
+});
+apiKeysRouter.get('/', listKeysRoute.validate, async (_req: Request, res: Response) => {
+  try {
+    const tenantId = getTenantId(getAuth(res));
+    const keys = await prisma.apiKey.findMany({
+      where: tenantId ? { tenant_id: tenantId } : {},
+      select: apiKeySelect,
+      orderBy: { created_at: 'desc' },
+    });
+    res.json(keys);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to fetch API keys: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to fetch API keys' });
+  }
+});
+
+// Create API key - the plaintext key is only returned once. Keys created by a
+// tenant-bound admin inherit its tenant; deployment-wide admins may pass `tenantId`.
+const createKeyRoute = defineRoute({
+  method: 'post',
+  path: '/api/keys',
+  summary: 'Create an API key; the plaintext key is only returned once',
+  tag: 'API keys',
+  access: 'admin',
+  body: z.object({
+    name: z.string().trim().min(1).max(200),
+    scope: z.nativeEnum(api_key_scope).default(api_key_scope.ADMIN),
+    tenantId: uuid.optional(),
+  }),
+  responses: { 201: 'Key created' },
+});
+apiKeysRouter.post('/', createKeyRoute.validate, async (_req: Request, res: Response) => {
+  try {
+    const { name, scope, tenantId: requestedTenantId } = createKeyRoute.input(res).body;
+    const tenantId = getTenantId(getAuth(res)) ?? requestedTenantId;
+    if (tenantId && !(await prisma.tenant.findUnique({ where: { id: tenantId }, select: { id: true } }))) {
+      return res.status(400).json({ error: 'Unknown tenantId' });
+    }
+
+    const key = generateApiKey();
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        name,
+        key_hash: hashApiKey(key),
+        key_prefix: key.slice(0, 10),
+        scope,
+        tenant_id: tenantId,
+      },
+      select: apiKeySelect,
+    });
+    logger.info(`API key created: ${apiKey.id} (${apiKey.name})`);
+    res.status(201).json({ ...apiKey, key });
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to create API key: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to create API key' });
+  }
+});
+
+// Revoke API key
+const revokeKeyRoute = defineRoute({
+  method: 'delete',
+  path: '/api/keys/:id',
+  summary: 'Revoke an API key',
+  tag: 'API keys',
+  access: 'admin',
+  params: idParams,
+  responses: { 200: 'The revoked key', 404: 'API key not found' },
+});
+apiKeysRouter.delete('/:id', revokeKeyRoute.validate, async (req: Request, res: Response) => {
+  try {
+    const tenantId = getTenantId(getAuth(res));
+    const existing = await prisma.apiKey.findFirst({
+      where: { id: req.params.id, ...(tenantId ? { tenant_id: tenantId } : {}) },
+      select: { id: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    const apiKey = await prisma.apiKey.update({
+      where: { id: existing.id },
+      data: { revoked_at: new Date() },
+      select: apiKeySelect,
+    });
+    logger.info(`API key revoked: ${apiKey.id}`);
+    res.json(apiKey);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to revoke API key: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to revoke API key' });
+  }
+});
@@ -0,0 +1,158 @@
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { chat_session_status } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { env } from '../config/env';
+import { requireSessionAccess } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { defineRoute, sendValidationError } from '../middleware/validate';
+import {
+  createAttachment,
+  getAttachment,
+  isAllowedMimeType,
+  mapAttachment,
+  openAttachment,
+} from '../services/attachmentService';
+import { verifyAttachmentLink } from '../services/authService';
+import logger from '../utils/logger';
+import { idParams } from '../utils/validation';
+
+const UPLOAD_FIELD = 'file';
+
+class UnsupportedMediaTypeError extends Error {}
+
+// Files are buffered in memory (bounded by ATTACHMENT_MAX_BYTES) and handed to the storage backend
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: env.attachmentMaxBytes, files: 1 },
+  fileFilter: (_req, file, callback) => {
+    if (isAllowedMimeType(file.mimetype)) return callback(null, true);
+    callback(new UnsupportedMediaTypeError(`File type ${file.mimetype} is not allowed`));
+  },
+});
+
+// Runs multer and maps its errors onto 413 / 415 / 400 responses
+function receiveFile(req: Request, res: Response, next: NextFunction) {
+  upload.single(UPLOAD_FIELD)(req, res, (error: unknown) => {
+    if (!error) return next();
+    if (error instanceof UnsupportedMediaTypeError) {
+      return res.status(415).json({ error: error.message, allowed: env.attachmentMimeTypes });
+    }
+    if (error instanceof multer.MulterError) {
+      if (error.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ error: `Files may be at most ${env.attachmentMaxBytes} bytes` });
+      }
+      return res.status(400).json({ error: error.message });
+    }
+    next(error);
+  });
+}
+
+// Images and plain text render inline; everything else downloads
+function dispositionFor(mimeType: string, fileName: string): string {
+  const type = mimeType.startsWith('image/') || mimeType === 'text/plain' ? 'inline' : 'attachment';
+  return `${type}; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+export const attachmentsRouter = Router();
+
+// Upload a file (multipart field `file`); send its id in `attachmentIds` with the next message
+const uploadRoute = defineRoute({
+  method: 'post',
+  path: '/api/sessions/:id/attachments',
+  summary: 'Upload an attachment for the next message',
+  tag: 'Attachments',
+  access: 'session',
+  params: idParams,
+  upload: UPLOAD_FIELD,
+  responses: {
+    201: 'The attachment',
+    404: 'Session not found',
+    409: 'Session is closed',
+    413: 'File too large',
+    415: 'File type not allowed',
+  },
+});
+attachmentsRouter.post(
+  '/sessions/:id/attachments',
+  requireSessionAccess(),
+  uploadRoute.validate,
+  rateLimit((req) => [{ rule: 'messagesPerSession', key: req.params.id }]),
+  receiveFile,
+  async (req: Request, res: Response) => {
+    if (!req.file) {
+      return sendValidationError(res, [{ location: 'body', path: UPLOAD_FIELD, message: 'A file is required' }]);
+    }
+
+    try {
+      const session = await prisma.chatSession.findUnique({
+        where: { id: req.params.id },
+        select: { status: true },
+      });
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      if (session.status === chat_session_status.CLOSED) {
+        return res.status(409).json({ error: 'Session is closed' });
+      }
+
+      const attachment = await createAttachment(req.params.id, req.file);
+      res.status(201).json(mapAttachment(attachment));
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to upload attachment: ${errMsg}`);
+      res.status(500).json({ error: 'Failed to upload attachment' });
+    }
+  }
+);
+
+// Download through a signed link (the `url` of an attachment)
+const downloadRoute = defineRoute({
+  method: 'get',
+  path: '/api/attachments/:id',
+  summary: 'Download an attachment through its signed link',
+  tag: 'Attachments',
+  access: 'signedLink',
+  params: idParams,
+  query: z.object({
+    expires: z.string().max(20).optional(),
+    signature: z.string().max(128).optional(),
+  }),
+  responses: { 200: 'The file', 403: 'Invalid or expired attachment link', 404: 'Attachment not found' },
+});
+attachmentsRouter.get('/attachments/:id', downloadRoute.validate, async (req: Request, res: Response) => {
+  const { expires, signature } = downloadRoute.input(res).query;
+  if (!verifyAttachmentLink(req.params.id, expires, signature)) {
+    return res.status(403).json({ error: 'Invalid or expired attachment link' });
+  }
+
+  try {
+    const attachment = await getAttachment(req.params.id);
+    if (!attachment) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    const stream = await openAttachment(attachment);
+    res.setHeader('Content-Type', attachment.mime_type);
+    res.setHeader('Content-Length', String(attachment.size_bytes));
+    res.setHeader('Content-Disposition', dispositionFor(attachment.mime_type, attachment.file_name));
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Content-Security-Policy', "default-src 'none'; sandbox");
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    stream.on('error', (error) => {
+      logger.error(`Failed to stream attachment ${attachment.id}: ${error.message}`);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    // Bytes missing from the backend (deleted file / object) vs. the backend being unavailable
+    const { code, name } = error as { code?: string; name?: string };
+    if (code === 'ENOENT' || name === 'NoSuchKey') {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to read attachment: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to read attachment' });
+  }
+});
@@ -0,0 +1,102 @@
+import { Router, type Request, type Response } from 'express';
+import { chat_session_status } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma';
+import { env } from '../config/env';
+import { requireSignature } from '../middleware/signature';
+import { defineRoute } from '../middleware/validate';
+import { extractLead } from '../services/contactService';
+import { deliverBotReply } from '../services/messageService';
+import { parseRichBlocks } from '../services/richMessageService';
+import type { ChatMessageDto, ChatServer } from '../types/socket';
+import logger from '../utils/logger';
+import { idParams, jsonObject, parsedBy } from '../utils/validation';
+
+const MAX_MESSAGES_PER_CALL = 20;
+// Bot output is not typed by a visitor, so it gets more room than user messages
+const MAX_BOT_MESSAGE_LENGTH = 20000;
+
+const callbackMessage = z
+  .object({
+    content: z.string().trim().min(1).max(MAX_BOT_MESSAGE_LENGTH).optional(),
+    idempotencyKey: z.string().trim().min(1).max(200).optional(),
+    lead: jsonObject.optional(),
+    contact: jsonObject.optional(),
+    // Unlike synchronous n8n replies, invalid blocks are rejected so the workflow sees the error
+    blocks: parsedBy(z.array(jsonObject), parseRichBlocks).optional(),
+  })
+  // `content` may only be left out when the message carries blocks
+  .refine((message) => message.content !== undefined || message.blocks !== undefined, {
+    message: 'Every message needs non-empty content or blocks',
+    path: ['content'],
+  });
+
+const botMessagesRoute = defineRoute({
+  method: 'post',
+  path: '/api/sessions/:id/bot-messages',
+  summary: 'Push bot messages from n8n (one message, or up to 20 as `messages`)',
+  tag: 'Messages',
+  access: 'signature',
+  params: idParams,
+  // A bare message is shorthand for `{ messages: [message] }`
+  body: z.preprocess(
+    (body) => (body && typeof body === 'object' && 'messages' in body ? body : { messages: [body] }),
+    z.object({ messages: z.array(callbackMessage).min(1).max(MAX_MESSAGES_PER_CALL) })
+  ),
+  responses: {
+    200: 'Every message was a duplicate',
+    201: 'Messages delivered',
+    404: 'Session not found',
+    409: 'Session is closed',
+  },
+});
+
+/**
+ * Inbound webhook that lets n8n push bot messages at any time (e.g. after a
+ * human approval step), instead of only as the synchronous webhook response.
+ */
+export function createBotMessagesRouter(io: ChatServer) {
+  const router = Router();
+  const verifySignature = requireSignature(env.n8nCallbackSecret);
+
+  router.post('/:id/bot-messages', verifySignature, botMessagesRoute.validate, async (req: Request, res: Response) => {
+    const { messages } = botMessagesRoute.input(res).body;
+    const headerKey = req.header('idempotency-key')?.trim();
+
+    try {
+      const session = await prisma.chatSession.findUnique({
+        where: { id: req.params.id },
+        select: { id: true, status: true },
+      });
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      if (session.status === chat_session_status.CLOSED) {
+        return res.status(409).json({ error: 'Session is closed' });
+      }
+
+      const results: (ChatMessageDto & { duplicate: boolean })[] = [];
+      for (const [index, message] of messages.entries()) {
+        // Per-message keys win; otherwise derive one from the Idempotency-Key header
+        const idempotencyKey = message.idempotencyKey ?? (headerKey ? `${headerKey}:${index}` : undefined);
+
+        const { message: delivered, duplicate } = await deliverBotReply(
+          io,
+          session.id,
+          { output: message.content ?? '', lead: extractLead(message), blocks: message.blocks },
+          { idempotencyKey }
+        );
+        results.push({ ...delivered, duplicate });
+      }
+
+      logger.info(`📨 n8n callback delivered ${results.filter((r) => !r.duplicate).length} message(s) to ${session.id}`);
+      res.status(results.every((r) => r.duplicate) ? 200 : 201).json({ messages: results });
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to deliver bot messages: ${errMsg}`);
+      res.status(500).json({ error: 'Failed to deliver bot messages' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,180 @@
+import { Router, type Request, type Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma';
+import { getAuth, requireAdmin, requireAuthenticated } from '../middleware/auth';
+import { defineRoute, sendValidationError } from '../middleware/validate';
+import {
+  CONTACT_SOURCES,
+  createContact,
+  listContacts,
+  updateContact,
+  validateContactInput,
+  type ContactInput,
+} from '../services/contactService';
+import { canAccessSession } from '../services/authService';
+import { getTenantId } from '../services/tenantService';
+import logger from '../utils/logger';
+import { countQuery, dateQuery, idParams, limitQuery, uuid } from '../utils/validation';
+
+const MAX_TEXT_LENGTH = 4000;
+
+const optionalText = (max: number) => z.string().max(max).nullable().optional();
+
+const contactBody = z.object({
+  name: optionalText(200),
+  email: optionalText(254),
+  summary: optionalText(MAX_TEXT_LENGTH),
+  message: optionalText(MAX_TEXT_LENGTH),
+  conversationSource: optionalText(100),
+  sessionId: uuid.nullable().optional(),
+  agentReply: optionalText(MAX_TEXT_LENGTH),
+});
+
+function contactError(res: Response, message: string, path = '') {
+  sendValidationError(res, [{ location: 'body', path, message }]);
+}
+
+// `sessionId` is a foreign key: an unknown id is the caller's mistake, not a 500
+async function sessionExists(sessionId: string | null | undefined): Promise<boolean> {
+  if (!sessionId) return true;
+  return !!(await prisma.chatSession.findUnique({ where: { id: sessionId }, select: { id: true } }));
+}
+
+function isUnknownSession(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003';
+}
+
+export const contactsRouter = Router();
+
+// List contacts (sales follow-up) - filter by source, session, email and date range
+const listContactsRoute = defineRoute({
+  method: 'get',
+  path: '/api/contacts',
+  summary: 'List captured contacts',
+  tag: 'Contacts',
+  access: 'admin',
+  query: z.object({
+    source: z.string().max(100).optional(),
+    sessionId: uuid.optional(),
+    email: z.string().max(254).optional(),
+    from: dateQuery,
+    to: dateQuery,
+    limit: limitQuery(50, 200),
+    offset: countQuery(0, 10000),
+  }),
+});
+contactsRouter.get('/', requireAdmin, listContactsRoute.validate, async (_req: Request, res: Response) => {
+  const { query } = listContactsRoute.input(res);
+
+  try {
+    const contacts = await listContacts({
+      source: query.source || undefined,
+      sessionId: query.sessionId,
+      email: query.email || undefined,
+      from: query.from,
+      to: query.to,
+      tenantId: getTenantId(getAuth(res)),
+      take: query.limit,
+      skip: query.offset,
+    });
+    res.json(contacts);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to fetch contacts: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to fetch contacts' });
+  }
+});
+
+// Submit a contact - widget tokens are pinned to their own session
+const createContactRoute = defineRoute({
+  method: 'post',
+  path: '/api/contacts',
+  summary: 'Submit a contact; widget tokens are pinned to their own session',
+  tag: 'Contacts',
+  access: 'authenticated',
+  body: contactBody,
+  responses: { 201: 'Contact created' },
+});
+contactsRouter.post('/', requireAuthenticated, createContactRoute.validate, async (_req: Request, res: Response) => {
+  const auth = getAuth(res);
+  const input: ContactInput = { ...createContactRoute.input(res).body };
+
+  if (auth.kind === 'widget') {
+    input.sessionId = auth.sessionId;
+    input.conversationSource = CONTACT_SOURCES.widgetForm;
+    input.agentReply = undefined;
+  } else {
+    input.conversationSource = input.conversationSource || CONTACT_SOURCES.rest;
+  }
+
+  const validationError = validateContactInput(input);
+  if (validationError) {
+    return contactError(res, validationError);
+  }
+
+  try {
+    if (!(await sessionExists(input.sessionId))) {
+      return contactError(res, 'Unknown session', 'sessionId');
+    }
+    // Tenant-bound admin keys may only attach contacts to their own sessions
+    if (getTenantId(auth) && (!input.sessionId || !(await canAccessSession(auth, input.sessionId)))) {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+
+    const contact = await createContact(input);
+    res.status(201).json(contact);
+  } catch (error) {
+    // The session was deleted between the check and the insert
+    if (isUnknownSession(error)) {
+      return contactError(res, 'Unknown session', 'sessionId');
+    }
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to create contact: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to create contact' });
+  }
+});
+
+// Update a contact (e.g. record the agent's follow-up reply)
+const updateContactRoute = defineRoute({
+  method: 'patch',
+  path: '/api/contacts/:id',
+  summary: "Update a contact (e.g. record the agent's follow-up reply)",
+  tag: 'Contacts',
+  access: 'admin',
+  params: idParams,
+  body: contactBody,
+  responses: { 200: 'The updated contact', 404: 'Contact not found' },
+});
+contactsRouter.patch('/:id', requireAdmin, updateContactRoute.validate, async (req: Request, res: Response) => {
+  const input: ContactInput = updateContactRoute.input(res).body;
+  const validationError = validateContactInput(input, { requireContactInfo: false });
+  if (validationError) {
+    return contactError(res, validationError);
+  }
+
+  try {
+    const auth = getAuth(res);
+    if (!(await sessionExists(input.sessionId))) {
+      return contactError(res, 'Unknown session', 'sessionId');
+    }
+    if (getTenantId(auth) && input.sessionId !== undefined) {
+      if (!input.sessionId || !(await canAccessSession(auth, input.sessionId))) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+    }
+
+    const contact = await updateContact(req.params.id, input, getTenantId(auth));
+    if (!contact) {
+      return res.status(404).json({ error: 'Contact not found' });
+    }
+    res.json(contact);
+  } catch (error) {
+    if (isUnknownSession(error)) {
+      return contactError(res, 'Unknown session', 'sessionId');
+    }
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to update contact: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to update contact' });
+  }
+});
@@ -0,0 +1,34 @@
+import { Router, type Request, type Response } from 'express';
+import { buildOpenApiDocument } from '../lib/openapi';
+import { defineRoute } from '../middleware/validate';
+import { buildAsyncApiDocument } from '../services/socketSchemas';
+
+export const docsRouter = Router();
+
+// Built on first request, once every router has registered its routes
+let openApiDocument: ReturnType<typeof buildOpenApiDocument> | undefined;
+let asyncApiDocument: ReturnType<typeof buildAsyncApiDocument> | undefined;
+
+const openApiRoute = defineRoute({
+  method: 'get',
+  path: '/api/docs',
+  summary: 'OpenAPI 3 description of the REST API',
+  tag: 'Docs',
+  access: 'public',
+});
+docsRouter.get('/', openApiRoute.validate, (_req: Request, res: Response) => {
+  openApiDocument ??= buildOpenApiDocument();
+  res.json(openApiDocument);
+});
+
+const asyncApiRoute = defineRoute({
+  method: 'get',
+  path: '/api/docs/socket',
+  summary: 'AsyncAPI 2 description of the Socket.IO events',
+  tag: 'Docs',
+  access: 'public',
+});
+docsRouter.get('/socket', asyncApiRoute.validate, (_req: Request, res: Response) => {
+  asyncApiDocument ??= buildAsyncApiDocument();
+  res.json(asyncApiDocument);
+});
@@ -0,0 +1,84 @@
+import { Router, type Request, type Response } from 'express';
+import { outbound_job_status } from '@prisma/client';
+import { z } from 'zod';
+import { getAuth, requireAdmin } from '../middleware/auth';
+import { defineRoute } from '../middleware/validate';
+import { listJobs, replayJob } from '../services/outboundQueue';
+import { getTenantId } from '../services/tenantService';
+import logger from '../utils/logger';
+import { idParams, limitQuery } from '../utils/validation';
+
+export const jobsRouter = Router();
+
+jobsRouter.use(requireAdmin);
+
+// Dead-letter list: jobs that exhausted their retries
+const deadLetterRoute = defineRoute({
+  method: 'get',
+  path: '/api/jobs/dead-letter',
+  summary: 'List jobs that exhausted their retries',
+  tag: 'Jobs',
+  access: 'admin',
+  query: z.object({ limit: limitQuery(50, 200) }),
+});
+jobsRouter.get('/dead-letter', deadLetterRoute.validate, async (_req: Request, res: Response) => {
+  try {
+    const tenantId = getTenantId(getAuth(res));
+    const jobs = await listJobs(outbound_job_status.DEAD, deadLetterRoute.input(res).query.limit, tenantId);
+    res.json(jobs);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to fetch dead-letter jobs: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to fetch dead-letter jobs' });
+  }
+});
+
+// Inspect jobs by status (PENDING, PROCESSING, SUCCEEDED, DEAD)
+const listJobsRoute = defineRoute({
+  method: 'get',
+  path: '/api/jobs',
+  summary: 'List outbound jobs by status',
+  tag: 'Jobs',
+  access: 'admin',
+  query: z.object({
+    status: z.nativeEnum(outbound_job_status).default(outbound_job_status.PENDING),
+    limit: limitQuery(50, 200),
+  }),
+});
+jobsRouter.get('/', listJobsRoute.validate, async (_req: Request, res: Response) => {
+  const { status, limit } = listJobsRoute.input(res).query;
+
+  try {
+    const tenantId = getTenantId(getAuth(res));
+    const jobs = await listJobs(status, limit, tenantId);
+    res.json(jobs);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to fetch jobs: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to fetch jobs' });
+  }
+});
+
+// Replay a dead-lettered job
+const replayRoute = defineRoute({
+  method: 'post',
+  path: '/api/jobs/:id/replay',
+  summary: 'Replay a dead-lettered job',
+  tag: 'Jobs',
+  access: 'admin',
+  params: idParams,
+  responses: { 200: 'The requeued job', 404: 'Dead-letter job not found' },
+});
+jobsRouter.post('/:id/replay', replayRoute.validate, async (req: Request, res: Response) => {
+  try {
+    const job = await replayJob(req.params.id, getTenantId(getAuth(res)));
+    if (!job) {
+      return res.status(404).json({ error: 'Dead-letter job not found' });
+    }
+    res.json(job);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to replay job: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to replay job' });
+  }
+});
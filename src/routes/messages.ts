@@ -0,0 +1,122 @@
+import { Router, type Request, type Response } from 'express';
+import { message_role } from '@prisma/client';
+import { z } from 'zod';
+import { requireSessionAccess } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { defineRoute, sendValidationError } from '../middleware/validate';
+import { acceptUserMessage, replyToUserMessage } from '../services/conversationService';
+import { getMessagePage } from '../services/messageService';
+import { userMessageSchema } from '../services/socketSchemas';
+import type { ChatServer } from '../types/socket';
+import logger from '../utils/logger';
+import { enumListQuery, idParams, limitQuery, uuid } from '../utils/validation';
+
+// Get messages for a session: the latest page by default, `before` / `after` a message id to page
+const listMessagesRoute = defineRoute({
+  method: 'get',
+  path: '/api/sessions/:id/messages',
+  summary: 'Page through session messages',
+  tag: 'Messages',
+  access: 'session',
+  params: idParams,
+  query: z.object({
+    before: uuid.optional(),
+    after: uuid.optional(),
+    role: enumListQuery(message_role),
+    limit: limitQuery(100, 500),
+  }),
+});
+
+// Send message to session (REST alternative to WebSocket)
+const sendMessageRoute = defineRoute({
+  method: 'post',
+  path: '/api/sessions/:id/messages',
+  summary: 'Send a visitor message and get the bot reply (202 with `Prefer: respond-async`)',
+  tag: 'Messages',
+  access: 'session',
+  params: idParams,
+  body: userMessageSchema.omit({ sessionId: true }),
+  responses: {
+    201: 'The stored message and what happened to the bot reply',
+    202: 'The stored message; the reply follows over the socket and webhooks',
+    404: 'Session not found',
+    409: 'Session is closed',
+  },
+});
+
+/** Session messages over REST, for mobile apps and server-side integrations without a socket */
+export function createMessagesRouter(io: ChatServer) {
+  const router = Router();
+
+  router.get('/:id/messages', requireSessionAccess(), listMessagesRoute.validate, async (req: Request, res: Response) => {
+    const { query } = listMessagesRoute.input(res);
+    if (query.before && query.after) {
+      return sendValidationError(res, [{ location: 'query', path: 'after', message: 'Use either before or after, not both' }]);
+    }
+
+    try {
+      const page = await getMessagePage(req.params.id, {
+        before: query.before,
+        after: query.after,
+        limit: query.limit,
+        roles: query.role,
+      });
+      res.json(page);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to fetch messages: ${errMsg}`);
+      res.status(500).json({ error: 'Failed to fetch messages' });
+    }
+  });
+
+  router.post(
+    '/:id/messages',
+    requireSessionAccess(),
+    sendMessageRoute.validate,
+    rateLimit((req) => [
+      { rule: 'messagesPerSession', key: req.params.id },
+      { rule: 'messagesPerIp', key: req.ip ?? '' },
+    ]),
+    async (req: Request, res: Response) => {
+      const { content, attachmentIds, response, metadata } = sendMessageRoute.input(res).body;
+      if (!content && !attachmentIds.length && !response) {
+        return sendValidationError(res, [{ location: 'body', path: 'content', message: 'Message content is required' }]);
+      }
+
+      try {
+        // Same pipeline as the socket 'message' event: open widgets see the message and the reply
+        const accepted = await acceptUserMessage(io, {
+          sessionId: req.params.id,
+          content,
+          attachmentIds,
+          response,
+          metadata,
+        });
+        if (!accepted.ok) {
+          const status = accepted.reason === 'not_found' ? 404 : accepted.reason === 'closed' ? 409 : 400;
+          return res.status(status).json({ error: accepted.error });
+        }
+        logger.info(`Message saved for session ${req.params.id}`);
+
+        // `Prefer: respond-async` returns right away; the reply then only arrives over the socket and webhooks
+        if (/\brespond-async\b/i.test(req.get('Prefer') ?? '')) {
+          replyToUserMessage(io, accepted).catch((error) => {
+            const errMsg = error instanceof Error ? error.message : String(error);
+            logger.error(`Failed to reply to message in session ${req.params.id}: ${errMsg}`);
+          });
+          res.set('Preference-Applied', 'respond-async');
+          return res.status(202).json({ message: accepted.message });
+        }
+
+        const reply = await replyToUserMessage(io, accepted);
+        res.status(201).json({ message: accepted.message, reply });
+      } catch (error) {
+        const errMsg = error instanceof Error ? error.message : String(error);
+        logger.error(`Failed to save message: ${errMsg}`);
+        res.status(500).json({ error: 'Failed to save message' });
+      }
+    }
+  );
+
+  return router;
+}
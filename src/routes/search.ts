@@ -0,0 +1,57 @@
+import { Router, type Request, type Response } from 'express';
+import { chat_session_status, message_role } from '@prisma/client';
+import { z } from 'zod';
+import { getAuth, requireAdmin } from '../middleware/auth';
+import { defineRoute } from '../middleware/validate';
+import { searchMessages } from '../services/searchService';
+import { getTenantId } from '../services/tenantService';
+import logger from '../utils/logger';
+import { countQuery, dateQuery, enumListQuery, limitQuery } from '../utils/validation';
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_CONTEXT = 10;
+
+export const searchRouter = Router();
+
+// Full-text search across chat messages (admin only)
+const searchRoute = defineRoute({
+  method: 'get',
+  path: '/api/search',
+  summary: 'Full-text search across chat messages',
+  tag: 'Search',
+  access: 'admin',
+  query: z.object({
+    q: z.string().trim().min(1).max(MAX_QUERY_LENGTH),
+    role: enumListQuery(message_role),
+    status: z.nativeEnum(chat_session_status).optional(),
+    from: dateQuery,
+    to: dateQuery,
+    visitorId: z.string().max(200).optional(),
+    limit: limitQuery(20, 100),
+    offset: countQuery(0, 10000),
+    context: countQuery(2, MAX_CONTEXT),
+  }),
+});
+searchRouter.get('/', requireAdmin, searchRoute.validate, async (_req: Request, res: Response) => {
+  const { q: query, role, status, from, to, visitorId, limit, offset, context } = searchRoute.input(res).query;
+
+  try {
+    const results = await searchMessages({
+      query,
+      roles: role ?? [],
+      status,
+      from,
+      to,
+      visitorId: visitorId || undefined,
+      tenantId: getTenantId(getAuth(res)),
+      limit,
+      offset,
+      context,
+    });
+    res.json({ query, limit, offset, results });
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to search messages: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to search messages' });
+  }
+});
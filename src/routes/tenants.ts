@@ -0,0 +1,199 @@
+import { Router, type Request, type Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { requireGlobalAdmin } from '../middleware/auth';
+import { z } from 'zod';
+import { defineRoute } from '../middleware/validate';
+import { parseBotProviders } from '../services/botProviderService';
+import { generateWidgetKey, invalidateWidgetCache } from '../services/tenantService';
+import logger from '../utils/logger';
+import { isHttpUrl } from '../utils/query';
+import { jsonObject, parsedBy, uuid } from '../utils/validation';
+
+type WidgetInput = Omit<Prisma.WidgetUncheckedUpdateInput, 'id' | 'tenant_id' | 'public_key' | 'created_at' | 'updated_at'>;
+
+const MAX_NAME_LENGTH = 200;
+
+function isOrigin(value: string): boolean {
+  try {
+    return new URL(value).origin === value;
+  } catch {
+    return false;
+  }
+}
+
+const positiveIntOrNull = z.number().int().positive().nullable().optional();
+
+const widgetFields = z.object({
+  name: z.string().trim().min(1).max(MAX_NAME_LENGTH).optional(),
+  allowedOrigins: z.array(z.string().refine(isOrigin, 'Must be an origin (e.g. https://example.com)')).optional(),
+  n8nWebhookUrl: z.string().refine(isHttpUrl, 'Must be an http(s) URL').nullable().optional(),
+  n8nTimeoutMs: positiveIntOrNull,
+  botProviders: parsedBy(z.array(jsonObject), parseBotProviders).nullable().optional(),
+  heartbeatTimeoutSeconds: positiveIntOrNull,
+  sessionCloseMinutes: positiveIntOrNull,
+  branding: jsonObject.optional(),
+  active: z.boolean().optional(),
+});
+
+/** Maps the camelCase request body onto widget columns */
+function toWidgetInput(fields: z.output<typeof widgetFields>): WidgetInput {
+  const columns: WidgetInput = {
+    name: fields.name,
+    allowed_origins: fields.allowedOrigins,
+    n8n_webhook_url: fields.n8nWebhookUrl,
+    n8n_timeout_ms: fields.n8nTimeoutMs,
+    heartbeat_timeout_seconds: fields.heartbeatTimeoutSeconds,
+    session_close_minutes: fields.sessionCloseMinutes,
+    branding: fields.branding as Prisma.InputJsonObject | undefined,
+    active: fields.active,
+  };
+  if (fields.botProviders !== undefined) {
+    columns.bot_providers = fields.botProviders === null ? Prisma.DbNull : (fields.botProviders as unknown as Prisma.InputJsonArray);
+  }
+  return columns;
+}
+
+const tenantParams = z.object({ id: uuid });
+
+export const tenantsRouter = Router();
+
+// Tenant and widget management is deployment-wide: tenant-bound keys are rejected
+tenantsRouter.use(requireGlobalAdmin);
+
+const listTenantsRoute = defineRoute({
+  method: 'get',
+  path: '/api/tenants',
+  summary: 'List tenants with their widget counts',
+  tag: 'Tenants',
+  access: 'globalAdmin',
+});
+tenantsRouter.get('/', listTenantsRoute.validate, async (_req: Request, res: Response) => {
+  try {
+    const tenants = await prisma.tenant.findMany({
+      orderBy: { created_at: 'desc' },
+      include: { _count: { select: { widget: true } } },
+    });
+    res.json(tenants);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to fetch tenants: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to fetch tenants' });
+  }
+});
+
+const createTenantRoute = defineRoute({
+  method: 'post',
+  path: '/api/tenants',
+  summary: 'Create a tenant',
+  tag: 'Tenants',
+  access: 'globalAdmin',
+  body: z.object({ name: z.string().trim().min(1).max(MAX_NAME_LENGTH) }),
+  responses: { 201: 'Tenant created' },
+});
+tenantsRouter.post('/', createTenantRoute.validate, async (_req: Request, res: Response) => {
+  const { name } = createTenantRoute.input(res).body;
+
+  try {
+    const tenant = await prisma.tenant.create({ data: { name } });
+    logger.info(`🏢 Tenant created: ${tenant.id} (${tenant.name})`);
+    res.status(201).json(tenant);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to create tenant: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to create tenant' });
+  }
+});
+
+const listWidgetsRoute = defineRoute({
+  method: 'get',
+  path: '/api/tenants/:id/widgets',
+  summary: "List a tenant's widgets",
+  tag: 'Tenants',
+  access: 'globalAdmin',
+  params: tenantParams,
+});
+tenantsRouter.get('/:id/widgets', listWidgetsRoute.validate, async (req: Request, res: Response) => {
+  try {
+    const widgets = await prisma.widget.findMany({
+      where: { tenant_id: req.params.id },
+      orderBy: { created_at: 'desc' },
+    });
+    res.json(widgets);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to fetch widgets: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to fetch widgets' });
+  }
+});
+
+// Create a widget - its public key goes into the embed snippet as CHAT_WIDGET_KEY
+const createWidgetRoute = defineRoute({
+  method: 'post',
+  path: '/api/tenants/:id/widgets',
+  summary: 'Create a widget',
+  tag: 'Tenants',
+  access: 'globalAdmin',
+  params: tenantParams,
+  body: widgetFields.required({ name: true }).transform(toWidgetInput),
+  responses: { 201: 'Widget created', 404: 'Tenant not found' },
+});
+tenantsRouter.post('/:id/widgets', createWidgetRoute.validate, async (req: Request, res: Response) => {
+  const input = createWidgetRoute.input(res).body;
+
+  try {
+    const tenant = await prisma.tenant.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!tenant) {
+      return res.status(404).json({ error: 'Tenant not found' });
+    }
+
+    const widget = await prisma.widget.create({
+      data: {
+        ...(input as Prisma.WidgetUncheckedCreateInput),
+        tenant_id: tenant.id,
+        public_key: generateWidgetKey(),
+      },
+    });
+    invalidateWidgetCache();
+    logger.info(`🧩 Widget created: ${widget.id} (${widget.name}) for tenant ${tenant.id}`);
+    res.status(201).json(widget);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to create widget: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to create widget' });
+  }
+});
+
+// Update widget settings (origins, webhook, timeouts, branding) or deactivate it
+const updateWidgetRoute = defineRoute({
+  method: 'patch',
+  path: '/api/tenants/:id/widgets/:widgetId',
+  summary: 'Update widget settings or deactivate it',
+  tag: 'Tenants',
+  access: 'globalAdmin',
+  params: tenantParams.extend({ widgetId: uuid }),
+  body: widgetFields.transform(toWidgetInput),
+  responses: { 200: 'The updated widget', 404: 'Widget not found' },
+});
+tenantsRouter.patch('/:id/widgets/:widgetId', updateWidgetRoute.validate, async (req: Request, res: Response) => {
+  const input = updateWidgetRoute.input(res).body;
+
+  try {
+    const existing = await prisma.widget.findFirst({
+      where: { id: req.params.widgetId, tenant_id: req.params.id },
+      select: { id: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Widget not found' });
+    }
+
+    const widget = await prisma.widget.update({ where: { id: existing.id }, data: input });
+    invalidateWidgetCache();
+    logger.info(`🧩 Widget updated: ${widget.id}`);
+    res.json(widget);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to update widget: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to update widget' });
+  }
+});
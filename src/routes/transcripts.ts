@@ -0,0 +1,138 @@
+import { once } from 'events';
+import { Router, type Request, type Response } from 'express';
+import archiver from 'archiver';
+import { z } from 'zod';
+import { getAuth, requireAdmin, requireSessionAccess } from '../middleware/auth';
+import { defineRoute, sendValidationError } from '../middleware/validate';
+import {
+  TRANSCRIPT_FORMATS,
+  buildTranscript,
+  iterateSessions,
+  loadTranscript,
+  renderTranscript,
+  transcriptContentType,
+} from '../services/transcriptService';
+import { tenantScope } from '../services/tenantService';
+import logger from '../utils/logger';
+import { dateQuery, idParams, timeZoneQuery } from '../utils/validation';
+
+const EXPORT_CONTAINERS = ['ndjson', 'zip'] as const;
+
+const DEFAULT_EXPORT_DAYS = 7;
+
+const transcriptFormat = z.enum(TRANSCRIPT_FORMATS).default('json');
+
+export const transcriptsRouter = Router();
+
+// Single-session transcript, downloadable in the requested format
+const transcriptRoute = defineRoute({
+  method: 'get',
+  path: '/api/sessions/:id/transcript',
+  summary: 'Download a session transcript',
+  tag: 'Transcripts',
+  access: 'session',
+  params: idParams,
+  query: z.object({ format: transcriptFormat, tz: timeZoneQuery }),
+  responses: { 200: 'The transcript file', 404: 'Session not found' },
+});
+transcriptsRouter.get(
+  '/sessions/:id/transcript',
+  requireSessionAccess(),
+  transcriptRoute.validate,
+  async (req: Request, res: Response) => {
+    const { format, tz: timezone } = transcriptRoute.input(res).query;
+
+    try {
+      const transcript = await loadTranscript(req.params.id, timezone);
+      if (!transcript) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      res.setHeader('Content-Type', transcriptContentType(format));
+      res.setHeader('Content-Disposition', `attachment; filename="transcript-${transcript.session.id}.${format}"`);
+      res.send(renderTranscript(transcript, format));
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to export transcript: ${errMsg}`);
+      res.status(500).json({ error: 'Failed to export transcript' });
+    }
+  }
+);
+
+// Bulk export of every session created in [from, to), streamed as NDJSON or a zip
+const exportRoute = defineRoute({
+  method: 'get',
+  path: '/api/transcripts/export',
+  summary: 'Stream every session created in [from, to) as NDJSON or a zip of transcript files',
+  tag: 'Transcripts',
+  access: 'admin',
+  query: z.object({
+    format: z.enum(EXPORT_CONTAINERS).default('ndjson'),
+    fileFormat: transcriptFormat,
+    tz: timeZoneQuery,
+    from: dateQuery,
+    to: dateQuery,
+  }),
+});
+transcriptsRouter.get('/transcripts/export', requireAdmin, exportRoute.validate, async (req: Request, res: Response) => {
+  const { format: container, fileFormat, tz: timezone, from, to } = exportRoute.input(res).query;
+  const rangeTo = to ?? new Date();
+  const rangeFrom = from ?? new Date(rangeTo.getTime() - DEFAULT_EXPORT_DAYS * 24 * 60 * 60 * 1000);
+  if (rangeFrom >= rangeTo) {
+    return sendValidationError(res, [{ location: 'query', path: 'from', message: 'from must be before to' }]);
+  }
+
+  // Stop reading from the database as soon as the client goes away
+  let aborted = false;
+  req.on('close', () => {
+    aborted = true;
+  });
+
+  const scope = tenantScope(getAuth(res));
+  const stamp = rangeTo.toISOString().slice(0, 10);
+  let exported = 0;
+
+  try {
+    if (container === 'ndjson') {
+      res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="transcripts-${stamp}.ndjson"`);
+
+      for await (const session of iterateSessions(rangeFrom, rangeTo, scope)) {
+        if (aborted) break;
+        if (!res.write(`${JSON.stringify(buildTranscript(session, timezone))}\n`)) {
+          await once(res, 'drain');
+        }
+        exported++;
+      }
+      res.end();
+    } else {
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="transcripts-${stamp}.zip"`);
+
+      const archive = archiver('zip', { zlib: { level: 6 } });
+      archive.on('warning', (err) => logger.warn(`⚠️ Transcript archive warning: ${err.message}`));
+      archive.pipe(res);
+
+      for await (const session of iterateSessions(rangeFrom, rangeTo, scope)) {
+        if (aborted) break;
+        const transcript = buildTranscript(session, timezone);
+        archive.append(renderTranscript(transcript, fileFormat), {
+          name: `transcript-${session.id}.${fileFormat}`,
+          date: session.created_at,
+        });
+        exported++;
+      }
+      await archive.finalize();
+    }
+
+    logger.info(`📦 Exported ${exported} transcript(s) as ${container}${aborted ? ' (client aborted)' : ''}`);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to export transcripts: ${errMsg}`);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to export transcripts' });
+    } else {
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  }
+});
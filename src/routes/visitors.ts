@@ -0,0 +1,70 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { getAuth, requireAdmin } from '../middleware/auth';
+import { defineRoute } from '../middleware/validate';
+import { eraseVisitor, exportVisitorData, type DataRequestScope } from '../services/retentionService';
+import { getTenantId } from '../services/tenantService';
+import logger from '../utils/logger';
+
+const MAX_VISITOR_ID_LENGTH = 200;
+
+export const visitorsRouter = Router();
+
+visitorsRouter.use(requireAdmin);
+
+// Tenant-bound keys only reach their own tenant's sessions of the visitor
+function requestScope(res: Response): DataRequestScope {
+  const auth = getAuth(res);
+  return { actor: auth.kind === 'widget' ? 'widget' : auth.keyName, tenantId: getTenantId(auth) };
+}
+
+const visitorParams = z.object({ visitorId: z.string().trim().min(1).max(MAX_VISITOR_ID_LENGTH) });
+
+// Data-access request: everything stored about the visitor as one JSON document
+const exportRoute = defineRoute({
+  method: 'get',
+  path: '/api/visitors/:visitorId/export',
+  summary: 'Export everything stored about a visitor',
+  tag: 'Visitors',
+  access: 'admin',
+  params: visitorParams,
+  responses: { 200: 'The export document', 404: 'Visitor not found' },
+});
+visitorsRouter.get('/:visitorId/export', exportRoute.validate, async (req: Request, res: Response) => {
+  try {
+    const data = await exportVisitorData(req.params.visitorId, requestScope(res));
+    if (!data) {
+      return res.status(404).json({ error: 'Visitor not found' });
+    }
+    res.setHeader('Content-Disposition', `attachment; filename="visitor-export.json"`);
+    res.json(data);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to export visitor data: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to export visitor data' });
+  }
+});
+
+// Erasure request: deletes the visitor's sessions, messages, attachments and contacts
+const eraseRoute = defineRoute({
+  method: 'delete',
+  path: '/api/visitors/:visitorId',
+  summary: "Erase a visitor's sessions, messages, attachments and contacts",
+  tag: 'Visitors',
+  access: 'admin',
+  params: visitorParams,
+  responses: { 200: 'Counts of erased records', 404: 'Visitor not found' },
+});
+visitorsRouter.delete('/:visitorId', eraseRoute.validate, async (req: Request, res: Response) => {
+  try {
+    const erased = await eraseVisitor(req.params.visitorId, requestScope(res));
+    if (!erased) {
+      return res.status(404).json({ error: 'Visitor not found' });
+    }
+    res.json({ visitorId: req.params.visitorId, erased });
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to erase visitor: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to erase visitor' });
+  }
+});
@@ -0,0 +1,243 @@
+import { Router, type Request, type Response } from 'express';
+import { outbound_job_status, type Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { z } from 'zod';
+import { getAuth, requireAdmin } from '../middleware/auth';
+import { defineRoute, sendValidationError } from '../middleware/validate';
+import { getTenantId } from '../services/tenantService';
+import { generateWebhookSecret, redeliver, WEBHOOK_EVENTS } from '../services/webhookService';
+import logger from '../utils/logger';
+import { isPrivateUrl } from '../utils/network';
+import { isHttpUrl } from '../utils/query';
+import { limitQuery, uuid } from '../utils/validation';
+
+// Secrets are only returned when a subscription is created
+const subscriptionSelect = {
+  id: true,
+  tenant_id: true,
+  url: true,
+  events: true,
+  description: true,
+  active: true,
+  created_at: true,
+  updated_at: true,
+} as const;
+
+const subscriptionFields = z.object({
+  url: z.string().max(2000).refine(isHttpUrl, 'Must be an http(s) URL').optional(),
+  events: z
+    .array(z.enum(WEBHOOK_EVENTS))
+    .min(1)
+    .transform((events) => [...new Set(events)])
+    .optional(),
+  description: z.string().max(500).nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+const subscriptionParams = z.object({ id: uuid });
+
+// Subscriptions of the caller's tenant; deployment-wide admins see all of them
+function ownedBy(res: Response): Prisma.WebhookSubscriptionWhereInput {
+  const tenantId = getTenantId(getAuth(res));
+  return tenantId ? { tenant_id: tenantId } : {};
+}
+
+// Tenant subscriptions must not reach loopback, link-local or private hosts (SSRF); deployment-wide ones may
+async function rejectPrivateUrl(res: Response, tenantId: string | null | undefined, url: string | undefined) {
+  if (!tenantId || !url || !(await isPrivateUrl(url))) return false;
+  sendValidationError(res, [
+    { location: 'body', path: 'url', message: 'Tenant webhooks cannot target private, loopback or link-local addresses' },
+  ]);
+  return true;
+}
+
+export const webhooksRouter = Router();
+
+webhooksRouter.use(requireAdmin);
+
+const listSubscriptionsRoute = defineRoute({
+  method: 'get',
+  path: '/api/webhooks',
+  summary: 'List webhook subscriptions',
+  tag: 'Webhooks',
+  access: 'admin',
+});
+webhooksRouter.get('/', listSubscriptionsRoute.validate, async (_req: Request, res: Response) => {
+  try {
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: ownedBy(res),
+      select: subscriptionSelect,
+      orderBy: { created_at: 'desc' },
+    });
+    res.json(subscriptions);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to fetch webhook subscriptions: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to fetch webhook subscriptions' });
+  }
+});
+
+// Create a subscription - the signing secret is only returned once. Tenant-bound admins
+// subscribe to their own tenant; deployment-wide admins may pass `tenantId` (omit for all tenants).
+const createSubscriptionRoute = defineRoute({
+  method: 'post',
+  path: '/api/webhooks',
+  summary: 'Create a webhook subscription; the signing secret is only returned once',
+  tag: 'Webhooks',
+  access: 'admin',
+  body: subscriptionFields.required({ url: true, events: true }).extend({ tenantId: uuid.optional() }),
+  responses: { 201: 'Subscription created' },
+});
+webhooksRouter.post('/', createSubscriptionRoute.validate, async (_req: Request, res: Response) => {
+  const { tenantId: requestedTenantId, ...input } = createSubscriptionRoute.input(res).body;
+
+  try {
+    const tenantId = getTenantId(getAuth(res)) ?? requestedTenantId;
+    if (tenantId && !(await prisma.tenant.findUnique({ where: { id: tenantId }, select: { id: true } }))) {
+      return res.status(400).json({ error: 'Unknown tenantId' });
+    }
+    if (await rejectPrivateUrl(res, tenantId, input.url)) return;
+
+    const secret = generateWebhookSecret();
+    const subscription = await prisma.webhookSubscription.create({
+      data: { ...input, tenant_id: tenantId, secret },
+      select: subscriptionSelect,
+    });
+    logger.info(`🪝 Webhook subscription created: ${subscription.id} (${subscription.events.join(', ')})`);
+    res.status(201).json({ ...subscription, secret });
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to create webhook subscription: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to create webhook subscription' });
+  }
+});
+
+const updateSubscriptionRoute = defineRoute({
+  method: 'patch',
+  path: '/api/webhooks/:id',
+  summary: 'Update a webhook subscription',
+  tag: 'Webhooks',
+  access: 'admin',
+  params: subscriptionParams,
+  body: subscriptionFields,
+  responses: { 200: 'The updated subscription', 404: 'Webhook subscription not found' },
+});
+webhooksRouter.patch('/:id', updateSubscriptionRoute.validate, async (req: Request, res: Response) => {
+  const input = updateSubscriptionRoute.input(res).body;
+
+  try {
+    const existing = await prisma.webhookSubscription.findFirst({
+      where: { id: req.params.id, ...ownedBy(res) },
+      select: { id: true, tenant_id: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook subscription not found' });
+    }
+    if (await rejectPrivateUrl(res, existing.tenant_id, input.url)) return;
+
+    const subscription = await prisma.webhookSubscription.update({
+      where: { id: existing.id },
+      data: input,
+      select: subscriptionSelect,
+    });
+    res.json(subscription);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to update webhook subscription: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to update webhook subscription' });
+  }
+});
+
+const deleteSubscriptionRoute = defineRoute({
+  method: 'delete',
+  path: '/api/webhooks/:id',
+  summary: 'Delete a webhook subscription',
+  tag: 'Webhooks',
+  access: 'admin',
+  params: subscriptionParams,
+  responses: { 204: 'Deleted', 404: 'Webhook subscription not found' },
+});
+webhooksRouter.delete('/:id', deleteSubscriptionRoute.validate, async (req: Request, res: Response) => {
+
+  try {
+    const result = await prisma.webhookSubscription.deleteMany({ where: { id: req.params.id, ...ownedBy(res) } });
+    if (!result.count) {
+      return res.status(404).json({ error: 'Webhook subscription not found' });
+    }
+    logger.info(`Webhook subscription deleted: ${req.params.id}`);
+    res.status(204).end();
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to delete webhook subscription: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to delete webhook subscription' });
+  }
+});
+
+// Delivery log, newest first - filter by status (PENDING, PROCESSING, SUCCEEDED, DEAD) and event
+const listDeliveriesRoute = defineRoute({
+  method: 'get',
+  path: '/api/webhooks/:id/deliveries',
+  summary: 'Delivery log of a subscription, newest first',
+  tag: 'Webhooks',
+  access: 'admin',
+  params: subscriptionParams,
+  query: z.object({
+    status: z.nativeEnum(outbound_job_status).optional(),
+    event: z.enum(WEBHOOK_EVENTS).optional(),
+    limit: limitQuery(50, 200),
+  }),
+  responses: { 200: 'The deliveries', 404: 'Webhook subscription not found' },
+});
+webhooksRouter.get('/:id/deliveries', listDeliveriesRoute.validate, async (req: Request, res: Response) => {
+  const { status, event, limit } = listDeliveriesRoute.input(res).query;
+
+  try {
+    const subscription = await prisma.webhookSubscription.findFirst({
+      where: { id: req.params.id, ...ownedBy(res) },
+      select: { id: true },
+    });
+    if (!subscription) {
+      return res.status(404).json({ error: 'Webhook subscription not found' });
+    }
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: {
+        subscription_id: subscription.id,
+        ...(status ? { status } : {}),
+        ...(event ? { event } : {}),
+      },
+      orderBy: { created_at: 'desc' },
+      take: limit,
+    });
+    res.json(deliveries);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to fetch webhook deliveries: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+  }
+});
+
+// Send a past delivery again (e.g. after fixing the receiver)
+const redeliverRoute = defineRoute({
+  method: 'post',
+  path: '/api/webhooks/deliveries/:deliveryId/redeliver',
+  summary: 'Send a past delivery again',
+  tag: 'Webhooks',
+  access: 'admin',
+  params: z.object({ deliveryId: uuid }),
+  responses: { 202: 'Delivery queued', 404: 'Webhook delivery not found' },
+});
+webhooksRouter.post('/deliveries/:deliveryId/redeliver', redeliverRoute.validate, async (req: Request, res: Response) => {
+
+  try {
+    const delivery = await redeliver(req.params.deliveryId, getTenantId(getAuth(res)));
+    if (!delivery) {
+      return res.status(404).json({ error: 'Webhook delivery not found' });
+    }
+    res.status(202).json(delivery);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to redeliver webhook: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to redeliver webhook' });
+  }
+});
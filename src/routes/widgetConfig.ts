@@ -0,0 +1,108 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { getAuth, requireAdmin } from '../middleware/auth';
+import { defineRoute } from '../middleware/validate';
+import { isGlobalAdmin } from '../services/authService';
+import { getTenantId, getWidgetByPublicKey } from '../services/tenantService';
+import {
+  getWidgetConfig,
+  parseWidgetConfig,
+  saveWidgetConfig,
+  widgetConfigEtag,
+  type ResolvedWidgetConfig,
+} from '../services/widgetConfigService';
+import logger from '../utils/logger';
+import { jsonObject, parsedBy } from '../utils/validation';
+
+const widgetKeyQuery = z.object({
+  widgetKey: z.string().max(100).optional().describe('Widget public key; also accepted as the X-Widget-Key header'),
+});
+
+function widgetKeyOf(req: Request, query: z.output<typeof widgetKeyQuery>): string | undefined {
+  return query.widgetKey || req.get('X-Widget-Key') || undefined;
+}
+
+// Compared by hand: fetch() sends `Cache-Control: no-cache` along with a manual
+// If-None-Match (chat-widget.js uses `cache: 'no-store'`), and `req.fresh` gives up on that
+function matchesEtag(req: Request, etag: string): boolean {
+  const header = req.get('If-None-Match');
+  if (!header) return false;
+  return header.split(',').some((tag) => {
+    const candidate = tag.trim();
+    return candidate === '*' || candidate.replace(/^W\//, '') === etag;
+  });
+}
+
+// Clients revalidate on every load; unchanged configs cost a 304
+function sendConfig(req: Request, res: Response, config: ResolvedWidgetConfig) {
+  const etag = widgetConfigEtag(config);
+  res.setHeader('ETag', etag);
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Access-Control-Expose-Headers', 'ETag');
+  if (req.method === 'GET' && matchesEtag(req, etag)) {
+    return res.status(304).end();
+  }
+  res.json(config);
+}
+
+export const widgetConfigRouter = Router();
+
+// Public: chat-widget.js fetches its UI configuration at boot
+const getConfigRoute = defineRoute({
+  method: 'get',
+  path: '/api/widget/config',
+  summary: 'Resolved widget UI configuration (ETag-revalidated)',
+  tag: 'Widget',
+  access: 'public',
+  query: widgetKeyQuery,
+  responses: { 200: 'The resolved config', 304: 'Unchanged since If-None-Match', 404: 'Unknown widget key' },
+});
+widgetConfigRouter.get('/config', getConfigRoute.validate, async (req: Request, res: Response) => {
+  try {
+    const widgetKey = widgetKeyOf(req, getConfigRoute.input(res).query);
+    const widget = widgetKey ? await getWidgetByPublicKey(widgetKey) : null;
+    if (widgetKey && !widget) {
+      return res.status(404).json({ error: 'Unknown widget key' });
+    }
+    sendConfig(req, res, await getWidgetConfig(widget));
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to fetch widget config: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to fetch widget config' });
+  }
+});
+
+// Replace the stored config of a tenant widget (`?widgetKey=`) or the deployment default
+const putConfigRoute = defineRoute({
+  method: 'put',
+  path: '/api/widget/config',
+  summary: 'Replace the stored config of a widget or the deployment default',
+  tag: 'Widget',
+  access: 'admin',
+  query: widgetKeyQuery,
+  body: parsedBy(jsonObject, parseWidgetConfig),
+  responses: { 200: 'The resolved config', 404: 'Unknown widget key' },
+});
+widgetConfigRouter.put('/config', requireAdmin, putConfigRoute.validate, async (req: Request, res: Response) => {
+  const { query, body: config } = putConfigRoute.input(res);
+
+  try {
+    const auth = getAuth(res);
+    const widgetKey = widgetKeyOf(req, query);
+    const widget = widgetKey ? await getWidgetByPublicKey(widgetKey) : null;
+    if (widgetKey && !widget) {
+      return res.status(404).json({ error: 'Unknown widget key' });
+    }
+    // Tenant-bound admins manage their own widgets only; the deployment default is global
+    if (widget ? getTenantId(auth) && widget.tenant_id !== getTenantId(auth) : !isGlobalAdmin(auth)) {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+
+    await saveWidgetConfig(widget?.id ?? null, config, auth.kind === 'widget' ? 'widget' : auth.keyName);
+    sendConfig(req, res, await getWidgetConfig(widget));
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to update widget config: ${errMsg}`);
+    res.status(500).json({ error: 'Failed to update widget config' });
+  }
+});
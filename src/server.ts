@@ -1,13 +1,44 @@
 import express, { Request, Response } from 'express';
+import { chat_session_status, Prisma } from '@prisma/client';
 import { createServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
 import cors from 'cors';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
 import { env } from './config/env';
 import { prisma } from './lib/prisma';
+import { metricsRegistry } from './lib/metrics';
 import { createSocketManager } from './services/socketManager';
 import { startCleanupJob } from './services/cleanupJob';
+import { startOutboundWorker } from './services/outboundQueue';
+import { issueWidgetToken } from './services/authService';
+import { queueSessionCloseout } from './services/closeoutService';
+import { listSessions } from './services/sessionService';
+import { publishEvent, sessionEventData, startWebhookWorker } from './services/webhookService';
+import { startRetentionJob } from './services/retentionService';
+import { corsOrigin, getWidgetByPublicKey, tenantScope, widgetAllowsOrigin } from './services/tenantService';
+import { getAuth, requireAdmin, requireMetricsAccess, requireSessionAccess } from './middleware/auth';
+import { assignCorrelationId, recordHttpMetrics } from './middleware/observability';
+import { defineRoute, MAX_BODY_SIZE, rejectInvalidBody } from './middleware/validate';
+import { apiKeysRouter } from './routes/apiKeys';
+import { contactsRouter } from './routes/contacts';
+import { jobsRouter } from './routes/jobs';
+import { analyticsRouter } from './routes/analytics';
+import { createBotMessagesRouter } from './routes/botMessages';
+import { createMessagesRouter } from './routes/messages';
+import { transcriptsRouter } from './routes/transcripts';
+import { tenantsRouter } from './routes/tenants';
+import { widgetConfigRouter } from './routes/widgetConfig';
+import { searchRouter } from './routes/search';
+import { webhooksRouter } from './routes/webhooks';
+import { attachmentsRouter } from './routes/attachments';
+import { visitorsRouter } from './routes/visitors';
+import { docsRouter } from './routes/docs';
+import { captureRawBody } from './middleware/signature';
+import { rateLimit } from './middleware/rateLimit';
+import { attachSocketAdapter } from './lib/socketAdapter';
+import { dateQuery, enumListQuery, idParams, jsonObject, limitQuery, uuid } from './utils/validation';
 import logger from './utils/logger';
 
 // ===================
@@ -33,23 +64,37 @@ process.on('unhandledRejection', (reason) => {
 const app = express();
 const httpServer = createServer(app);
 
+// Render (and most hosts) sit behind a proxy: derive req.ip from X-Forwarded-For
+app.set('trust proxy', env.trustProxy);
+
 // ===================
 // MIDDLEWARE
 // ===================
+// CORS_ORIGIN plus every active tenant widget's allowed origins
 app.use(cors({ 
-    origin: env.corsOrigins.length ? env.corsOrigins : '*', 
+    origin: corsOrigin, 
     credentials: true 
 }));
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
+app.use(express.json({ limit: MAX_BODY_SIZE, verify: captureRawBody }));
+app.use(express.urlencoded({ extended: true, limit: MAX_BODY_SIZE }));
+app.use(rejectInvalidBody);
 app.use(express.static(path.join(__dirname, '../public')));
+// After the body parser, which would otherwise drop the request's correlation context
+app.use(assignCorrelationId);
+app.use(recordHttpMetrics);
+
+// ===================
+// SOCKET.IO SETUP
+// ===================
+const io = createSocketManager(httpServer);
 
 // ===================
 // REST API ENDPOINTS
 // ===================
 
 // Health check
-app.get('/health', (_req: Request, res: Response) => {
+const healthRoute = defineRoute({ method: 'get', path: '/health', summary: 'Health check', tag: 'Operations', access: 'public' });
+app.get('/health', healthRoute.validate, (_req: Request, res: Response) => {
     res.json({ 
         status: 'ok', 
         timestamp: new Date().toISOString(),
@@ -57,14 +102,69 @@ app.get('/health', (_req: Request, res: Response) => {
     });
 });
 
-// Get all sessions
-app.get('/api/sessions', async (_req: Request, res: Response) => {
+// Prometheus scrape endpoint
+const metricsRoute = defineRoute({
+    method: 'get',
+    path: '/metrics',
+    summary: 'Prometheus metrics',
+    tag: 'Operations',
+    access: 'metrics',
+});
+app.get('/metrics', requireMetricsAccess, metricsRoute.validate, async (_req: Request, res: Response) => {
     try {
-        const sessions = await prisma.chatSession.findMany({
-            orderBy: { created_at: 'desc' },
-            take: 50,
+        res.setHeader('Content-Type', metricsRegistry.contentType);
+        res.send(await metricsRegistry.metrics());
+    } catch (error) {
+        const errMsg = error instanceof Error ? error.message : String(error);
+        logger.error(`Failed to collect metrics: ${errMsg}`);
+        res.status(500).json({ error: 'Failed to collect metrics' });
+    }
+});
+
+const METADATA_KEY_PATTERN = /^[\w-]+(\.[\w-]+)*$/;
+const MAX_METADATA_FILTERS = 5;
+const MAX_VISITOR_ID_LENGTH = 200;
+
+// List sessions, newest first (of the caller's tenant, for tenant-bound keys)
+const listSessionsRoute = defineRoute({
+    method: 'get',
+    path: '/api/sessions',
+    summary: 'List sessions, newest first (cursor-paginated)',
+    tag: 'Sessions',
+    access: 'admin',
+    query: z.object({
+        status: enumListQuery(chat_session_status),
+        visitorId: z.string().max(MAX_VISITOR_ID_LENGTH).optional(),
+        createdFrom: dateQuery,
+        createdTo: dateQuery,
+        lastActiveFrom: dateQuery,
+        lastActiveTo: dateQuery,
+        // `metadata[key]=value` query params (qs syntax), as exact-match filters
+        metadata: z
+            .record(z.string().regex(METADATA_KEY_PATTERN), z.string())
+            .refine((filters) => Object.keys(filters).length <= MAX_METADATA_FILTERS, `At most ${MAX_METADATA_FILTERS} filters`)
+            .optional(),
+        cursor: uuid.optional(),
+        limit: limitQuery(50, 200),
+    }),
+});
+app.get('/api/sessions', requireAdmin, listSessionsRoute.validate, async (_req: Request, res: Response) => {
+    const { query } = listSessionsRoute.input(res);
+
+    try {
+        const page = await listSessions({
+            statuses: query.status,
+            visitorId: query.visitorId || undefined,
+            createdFrom: query.createdFrom,
+            createdTo: query.createdTo,
+            lastActiveFrom: query.lastActiveFrom,
+            lastActiveTo: query.lastActiveTo,
+            metadata: query.metadata,
+            scope: tenantScope(getAuth(res)),
+            cursor: query.cursor,
+            limit: query.limit,
         });
-        res.json(sessions);
+        res.json(page);
     } catch (error) {
         const errMsg = error instanceof Error ? error.message : String(error);
         logger.error(`Failed to fetch sessions: ${errMsg}`);
@@ -73,29 +173,66 @@ app.get('/api/sessions', async (_req: Request, res: Response) => {
 });
 
 // Create new session
-app.post('/api/sessions', async (req: Request, res: Response) => {
+const createSessionRoute = defineRoute({
+    method: 'post',
+    path: '/api/sessions',
+    summary: 'Create a session and its widget token',
+    tag: 'Sessions',
+    access: 'public',
+    body: z.object({
+        visitorId: z.string().trim().min(1).max(MAX_VISITOR_ID_LENGTH).optional(),
+        widgetKey: z.string().max(100).optional(),
+        metadata: jsonObject.optional(),
+    }),
+    responses: { 201: 'Session created; `token` authenticates the widget' },
+});
+app.post('/api/sessions', createSessionRoute.validate, rateLimit((req) => [
+    { rule: 'sessionsPerIp', key: req.ip ?? '' },
+    { rule: 'sessionsPerVisitor', key: req.body?.visitorId ?? '' },
+]), async (req: Request, res: Response) => {
     try {
-        const { metadata, visitorId } = req.body || {};
+        const { metadata, visitorId, widgetKey } = createSessionRoute.input(res).body;
+
+        // Tenant widgets identify themselves by their public key
+        const widget = widgetKey ? await getWidgetByPublicKey(widgetKey) : null;
+        if (widgetKey && !widget) {
+            return res.status(400).json({ error: 'Unknown widget key' });
+        }
+        if (widget && !widgetAllowsOrigin(widget, req.headers.origin)) {
+            return res.status(403).json({ error: 'Origin not allowed' });
+        }
+
         const session = await prisma.chatSession.create({
             data: {
                 visitor_id: visitorId || uuidv4(), // Generate if not provided
-                metadata: metadata || {},
+                metadata: (metadata ?? {}) as Prisma.InputJsonObject,
                 status: 'ACTIVE',
                 last_active_at: new Date(),
+                tenant_id: widget?.tenant_id,
+                widget_id: widget?.id,
             },
         });
         logger.info(`New session created: ${session.id}`);
-        res.status(201).json(session);
+        publishEvent('session.created', sessionEventData(session), { tenantId: session.tenant_id });
+        res.status(201).json({ ...session, token: issueWidgetToken(session.id, session.visitor_id) });
     } catch (error) {
         const errMsg = error instanceof Error ? error.message : String(error);
-        const stack = error instanceof Error ? error.stack : undefined;
         logger.error(`Failed to create session: ${errMsg}`);
-        res.status(500).json({ error: 'Failed to create session', details: errMsg, stack });
+        res.status(500).json({ error: 'Failed to create session' });
     }
 });
 
 // Get single session by ID
-app.get('/api/sessions/:id', async (req: Request, res: Response) => {
+const getSessionRoute = defineRoute({
+    method: 'get',
+    path: '/api/sessions/:id',
+    summary: 'Get a session with its messages',
+    tag: 'Sessions',
+    access: 'session',
+    params: idParams,
+    responses: { 200: 'The session', 404: 'Session not found' },
+});
+app.get('/api/sessions/:id', requireSessionAccess(), getSessionRoute.validate, async (req: Request, res: Response) => {
     try {
         const session = await prisma.chatSession.findUnique({
             where: { id: req.params.id },
@@ -112,63 +249,19 @@ app.get('/api/sessions/:id', async (req: Request, res: Response) => {
     }
 });
 
-// Get messages for a session
-app.get('/api/sessions/:id/messages', async (req: Request, res: Response) => {
-    try {
-        const messages = await prisma.chatMessage.findMany({
-            where: { session_id: req.params.id },
-            orderBy: { created_at: 'asc' },
-        });
-        res.json(messages);
-    } catch (error) {
-        const errMsg = error instanceof Error ? error.message : String(error);
-        logger.error(`Failed to fetch messages: ${errMsg}`);
-        res.status(500).json({ error: 'Failed to fetch messages' });
-    }
-});
-
-// Send message to session (REST alternative to WebSocket)
-app.post('/api/sessions/:id/messages', async (req: Request, res: Response) => {
-    try {
-        const { content } = req.body || {};
-        if (!content) {
-            return res.status(400).json({ error: 'Message content is required' });
-        }
-
-        // Check session exists
-        const session = await prisma.chatSession.findUnique({
-            where: { id: req.params.id },
-        });
-        if (!session) {
-            return res.status(404).json({ error: 'Session not found' });
-        }
-
-        // Save user message
-        const message = await prisma.chatMessage.create({
-            data: {
-                session_id: req.params.id,
-                role: 'USER',
-                content,
-            },
-        });
-
-        // Update session activity
-        await prisma.chatSession.update({
-            where: { id: req.params.id },
-            data: { last_active_at: new Date() },
-        });
-
-        logger.info(`Message saved for session ${req.params.id}`);
-        res.status(201).json(message);
-    } catch (error) {
-        const errMsg = error instanceof Error ? error.message : String(error);
-        logger.error(`Failed to save message: ${errMsg}`);
-        res.status(500).json({ error: 'Failed to save message' });
-    }
-});
+// Page through and send session messages (REST alternative to WebSocket)
+app.use('/api/sessions', createMessagesRouter(io));
 
 // Heartbeat endpoint
-app.patch('/api/sessions/:id/heartbeat', async (req: Request, res: Response) => {
+const heartbeatRoute = defineRoute({
+    method: 'patch',
+    path: '/api/sessions/:id/heartbeat',
+    summary: 'Keep a session alive',
+    tag: 'Sessions',
+    access: 'session',
+    params: idParams,
+});
+app.patch('/api/sessions/:id/heartbeat', requireSessionAccess(), heartbeatRoute.validate, async (req: Request, res: Response) => {
     try {
         const session = await prisma.chatSession.update({
             where: { id: req.params.id },
@@ -187,13 +280,38 @@ app.patch('/api/sessions/:id/heartbeat', async (req: Request, res: Response) =>
 });
 
 // Close session manually
-app.patch('/api/sessions/:id/close', async (req: Request, res: Response) => {
+const closeSessionRoute = defineRoute({
+    method: 'patch',
+    path: '/api/sessions/:id/close',
+    summary: 'Close a session',
+    tag: 'Sessions',
+    access: 'session',
+    params: idParams,
+    responses: { 200: 'The closed session', 404: 'Session not found' },
+});
+app.patch('/api/sessions/:id/close', requireSessionAccess(), closeSessionRoute.validate, async (req: Request, res: Response) => {
     try {
-        const session = await prisma.chatSession.update({
-            where: { id: req.params.id },
-            data: { status: 'CLOSED' },
+        // Closing twice keeps the first closed_reason and doesn't repeat the session.closed webhook
+        const closed = await prisma.chatSession.updateMany({
+            where: { id: req.params.id, status: { not: 'CLOSED' } },
+            // Releasing the agent keeps their later disconnect from handing a closed chat back to the bot
+            data: {
+                status: 'CLOSED',
+                closed_reason: getAuth(res).kind === 'admin' ? 'ADMIN' : 'USER',
+                agent_id: null,
+                agent_name: null,
+                agent_since: null,
+            },
         });
-        logger.info(`Session ${req.params.id} closed manually`);
+        const session = await prisma.chatSession.findUnique({ where: { id: req.params.id } });
+        if (!session) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
+        if (closed.count) {
+            logger.info(`Session ${req.params.id} closed manually`);
+            publishEvent('session.closed', sessionEventData(session), { tenantId: session.tenant_id });
+            queueSessionCloseout(session.id);
+        }
         res.json(session);
     } catch (error) {
         const errMsg = error instanceof Error ? error.message : String(error);
@@ -202,8 +320,54 @@ app.patch('/api/sessions/:id/close', async (req: Request, res: Response) => {
     }
 });
 
+// API key management (admin only)
+app.use('/api/keys', apiKeysRouter);
+
+// Tenants and their widgets (deployment-wide admin only)
+app.use('/api/tenants', tenantsRouter);
+
+// Remote configuration for chat-widget.js
+app.use('/api/widget', widgetConfigRouter);
+
+// Lead capture / contacts
+app.use('/api/contacts', contactsRouter);
+
+// Out-of-band bot messages from n8n (HMAC signed)
+app.use('/api/sessions', createBotMessagesRouter(io));
+
+// Outbound n8n job queue / dead-letter (admin only)
+app.use('/api/jobs', jobsRouter);
+
+// Conversation analytics (admin only)
+app.use('/api/analytics', analyticsRouter);
+
+// Transcript downloads and bulk export
+app.use('/api', transcriptsRouter);
+
+// Attachment uploads and signed downloads
+app.use('/api', attachmentsRouter);
+
+// Full-text message search (admin only)
+app.use('/api/search', searchRouter);
+
+// Outbound event webhook subscriptions and delivery log (admin only)
+app.use('/api/webhooks', webhooksRouter);
+
+// Visitor data export and erasure (admin only)
+app.use('/api/visitors', visitorsRouter);
+
+// OpenAPI (REST) and AsyncAPI (Socket.IO) documents
+app.use('/api/docs', docsRouter);
+
 // Debug: List all routes
-app.get('/api/debug/routes', (_req: Request, res: Response) => {
+const debugRoutesRoute = defineRoute({
+    method: 'get',
+    path: '/api/debug/routes',
+    summary: 'List registered routes',
+    tag: 'Operations',
+    access: 'admin',
+});
+app.get('/api/debug/routes', requireAdmin, debugRoutesRoute.validate, (_req: Request, res: Response) => {
     const routes: string[] = [];
     app._router.stack.forEach((middleware: any) => {
         if (middleware.route) {
@@ -214,15 +378,13 @@ app.get('/api/debug/routes', (_req: Request, res: Response) => {
     res.json({ routes });
 });
 
-// ===================
-// SOCKET.IO SETUP
-// ===================
-const io = createSocketManager(httpServer);
-
 // ===================
 // START SERVER
 // ===================
 startCleanupJob();
+startOutboundWorker(io);
+startWebhookWorker();
+startRetentionJob();
 
 // Test database connection at startup
 async function testDbConnection() {
@@ -238,19 +400,55 @@ testDbConnection();
 // Cloud Run requires explicit process.env.PORT priority
 const PORT = Number(process.env.PORT) || env.port || 3001;
 
-httpServer.listen(PORT, () => {
-    console.log(`🚀 Server listening on port ${PORT}`);
-    logger.info(`🚀 Middleware Backend running on http://localhost:${PORT}`);
-    logger.info(`📡 WebSocket ready for connections`);
-    logger.info(`🔗 REST API endpoints:`);
-    logger.info(`   GET    /health`);
-    logger.info(`   GET    /api/sessions`);
-    logger.info(`   POST   /api/sessions`);
-    logger.info(`   GET    /api/sessions/:id`);
-    logger.info(`   GET    /api/sessions/:id/messages`);
-    logger.info(`   POST   /api/sessions/:id/messages`);
-    logger.info(`   PATCH  /api/sessions/:id/heartbeat`);
-    logger.info(`   PATCH  /api/sessions/:id/close`);
+// Cross-instance Socket.IO adapter must be attached before the first socket connects
+void attachSocketAdapter(io).then(() => {
+    httpServer.listen(PORT, () => {
+        console.log(`🚀 Server listening on port ${PORT}`);
+        logger.info(`🚀 Middleware Backend running on http://localhost:${PORT}`);
+        logger.info(`📡 WebSocket ready for connections`);
+        logger.info(`🔗 REST API endpoints:`);
+        logger.info(`   GET    /health`);
+        logger.info(`   GET    /metrics`);
+        logger.info(`   GET    /api/sessions`);
+        logger.info(`   POST   /api/sessions`);
+        logger.info(`   GET    /api/sessions/:id`);
+        logger.info(`   GET    /api/sessions/:id/messages`);
+        logger.info(`   POST   /api/sessions/:id/messages`);
+        logger.info(`   PATCH  /api/sessions/:id/heartbeat`);
+        logger.info(`   PATCH  /api/sessions/:id/close`);
+        logger.info(`   POST   /api/sessions/:id/bot-messages`);
+        logger.info(`   GET    /api/sessions/:id/transcript`);
+        logger.info(`   POST   /api/sessions/:id/attachments`);
+        logger.info(`   GET    /api/attachments/:id`);
+        logger.info(`   GET    /api/keys`);
+        logger.info(`   POST   /api/keys`);
+        logger.info(`   DELETE /api/keys/:id`);
+        logger.info(`   GET    /api/tenants`);
+        logger.info(`   POST   /api/tenants`);
+        logger.info(`   GET    /api/tenants/:id/widgets`);
+        logger.info(`   POST   /api/tenants/:id/widgets`);
+        logger.info(`   PATCH  /api/tenants/:id/widgets/:widgetId`);
+        logger.info(`   GET    /api/widget/config`);
+        logger.info(`   PUT    /api/widget/config`);
+        logger.info(`   GET    /api/contacts`);
+        logger.info(`   POST   /api/contacts`);
+        logger.info(`   PATCH  /api/contacts/:id`);
+        logger.info(`   GET    /api/jobs`);
+        logger.info(`   GET    /api/jobs/dead-letter`);
+        logger.info(`   POST   /api/jobs/:id/replay`);
+        logger.info(`   GET    /api/analytics[/sessions|/messages|/latency|/abandonment|/landing-pages]`);
+        logger.info(`   GET    /api/transcripts/export`);
+        logger.info(`   GET    /api/search`);
+        logger.info(`   GET    /api/webhooks`);
+        logger.info(`   POST   /api/webhooks`);
+        logger.info(`   PATCH  /api/webhooks/:id`);
+        logger.info(`   DELETE /api/webhooks/:id`);
+        logger.info(`   GET    /api/webhooks/:id/deliveries`);
+        logger.info(`   POST   /api/webhooks/deliveries/:deliveryId/redeliver`);
+        logger.info(`   GET    /api/visitors/:visitorId/export`);
+        logger.info(`   DELETE /api/visitors/:visitorId`);
+        logger.info(`   GET    /api/docs[/socket]`);
+    });
 });
 
 export { app, httpServer, io };
@@ -0,0 +1,176 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export const ANALYTICS_GROUPINGS = ['hour', 'day', 'week', 'month'] as const;
+export type AnalyticsGrouping = (typeof ANALYTICS_GROUPINGS)[number];
+
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+  groupBy: AnalyticsGrouping;
+  /** IANA time zone used to bucket periods (e.g. "Europe/Berlin") */
+  timezone: string;
+  /** Restricts every aggregation to one tenant's sessions */
+  tenantId?: string;
+}
+
+// Sessions the cleanup job moved to INACTIVE/CLOSED (closed_reason INACTIVITY, or unknown for
+// sessions closed before reasons were recorded) that never received a bot reply. Expects alias `s`.
+const ABANDONED = Prisma.sql`(s.status = 'INACTIVE'
+    OR (s.status = 'CLOSED' AND (s.closed_reason IS NULL OR s.closed_reason = 'INACTIVITY')))
+  AND NOT EXISTS (SELECT 1 FROM chat_message b WHERE b.session_id = s.id AND b.role = 'BOT')`;
+
+// Extra WHERE condition keeping a session id column inside the range's tenant
+function inTenant(sessionId: Prisma.Sql, range: Pick<AnalyticsRange, 'tenantId'>): Prisma.Sql {
+  if (!range.tenantId) return Prisma.empty;
+  return Prisma.sql`AND ${sessionId} IN (SELECT t.id FROM chat_session t WHERE t.tenant_id = ${range.tenantId}::uuid)`;
+}
+
+// Buckets a timestamptz column into the requested period, in the requested time zone
+function period(column: Prisma.Sql, range: AnalyticsRange): Prisma.Sql {
+  return Prisma.sql`(date_trunc(${range.groupBy}, ${column} AT TIME ZONE ${range.timezone}) AT TIME ZONE ${range.timezone})`;
+}
+
+export async function getSessionsPerPeriod(range: AnalyticsRange) {
+  return prisma.$queryRaw<{ period: Date; sessions: number; visitors: number }[]>`
+    SELECT ${period(Prisma.sql`s.created_at`, range)} AS period,
+           count(*)::int AS sessions,
+           count(DISTINCT s.visitor_id)::int AS visitors
+    FROM chat_session s
+    WHERE s.created_at >= ${range.from} AND s.created_at < ${range.to}
+      ${inTenant(Prisma.sql`s.id`, range)}
+    GROUP BY 1
+    ORDER BY 1`;
+}
+
+export async function getMessagesPerSession(range: AnalyticsRange) {
+  return prisma.$queryRaw<
+    {
+      period: Date;
+      sessions: number;
+      messages: number;
+      user_messages: number;
+      bot_messages: number;
+      avg_messages_per_session: number | null;
+      median_messages_per_session: number | null;
+    }[]
+  >`
+    WITH per_session AS (
+      SELECT s.id,
+             ${period(Prisma.sql`s.created_at`, range)} AS period,
+             count(m.id) AS messages,
+             count(m.id) FILTER (WHERE m.role = 'USER') AS user_messages,
+             count(m.id) FILTER (WHERE m.role = 'BOT') AS bot_messages
+      FROM chat_session s
+      LEFT JOIN chat_message m ON m.session_id = s.id
+      WHERE s.created_at >= ${range.from} AND s.created_at < ${range.to}
+        ${inTenant(Prisma.sql`s.id`, range)}
+      GROUP BY s.id, 2
+    )
+    SELECT period,
+           count(*)::int AS sessions,
+           sum(messages)::int AS messages,
+           sum(user_messages)::int AS user_messages,
+           sum(bot_messages)::int AS bot_messages,
+           round(avg(messages), 2)::float AS avg_messages_per_session,
+           percentile_cont(0.5) WITHIN GROUP (ORDER BY messages)::float AS median_messages_per_session
+    FROM per_session
+    GROUP BY period
+    ORDER BY period`;
+}
+
+/** Latency between each USER message and the first BOT message that follows it */
+export async function getBotResponseLatency(range: AnalyticsRange) {
+  return prisma.$queryRaw<
+    { period: Date; replies: number; median_seconds: number | null; p90_seconds: number | null }[]
+  >`
+    WITH pairs AS (
+      SELECT u.created_at AS asked_at,
+             (
+               SELECT min(b.created_at)
+               FROM chat_message b
+               WHERE b.session_id = u.session_id AND b.role = 'BOT' AND b.created_at > u.created_at
+             ) AS answered_at
+      FROM chat_message u
+      WHERE u.role = 'USER' AND u.created_at >= ${range.from} AND u.created_at < ${range.to}
+        ${inTenant(Prisma.sql`u.session_id`, range)}
+    )
+    SELECT ${period(Prisma.sql`asked_at`, range)} AS period,
+           count(*)::int AS replies,
+           percentile_cont(0.5) WITHIN GROUP (ORDER BY extract(epoch FROM answered_at - asked_at))::float AS median_seconds,
+           percentile_cont(0.9) WITHIN GROUP (ORDER BY extract(epoch FROM answered_at - asked_at))::float AS p90_seconds
+    FROM pairs
+    WHERE answered_at IS NOT NULL
+    GROUP BY 1
+    ORDER BY 1`;
+}
+
+/** Share of sessions per period that were abandoned (see ABANDONED) */
+export async function getAbandonment(range: AnalyticsRange) {
+  return prisma.$queryRaw<{ period: Date; sessions: number; abandoned: number; abandonment_rate: number | null }[]>`
+    WITH per_period AS (
+      SELECT ${period(Prisma.sql`s.created_at`, range)} AS period,
+             count(*) AS sessions,
+             count(*) FILTER (WHERE ${ABANDONED}) AS abandoned
+      FROM chat_session s
+      WHERE s.created_at >= ${range.from} AND s.created_at < ${range.to}
+        ${inTenant(Prisma.sql`s.id`, range)}
+      GROUP BY 1
+    )
+    SELECT period,
+           sessions::int,
+           abandoned::int,
+           round(abandoned::numeric / nullif(sessions, 0), 4)::float AS abandonment_rate
+    FROM per_period
+    ORDER BY period`;
+}
+
+export async function getTopLandingPages(range: Omit<AnalyticsRange, 'groupBy' | 'timezone'>, limit: number) {
+  return prisma.$queryRaw<{ page: string; sessions: number }[]>`
+    SELECT coalesce(s.metadata->>'landingPage', s.metadata->>'page', s.metadata->>'url') AS page,
+           count(*)::int AS sessions
+    FROM chat_session s
+    WHERE s.created_at >= ${range.from} AND s.created_at < ${range.to}
+      AND coalesce(s.metadata->>'landingPage', s.metadata->>'page', s.metadata->>'url') IS NOT NULL
+      ${inTenant(Prisma.sql`s.id`, range)}
+    GROUP BY 1
+    ORDER BY sessions DESC, page
+    LIMIT ${limit}`;
+}
+
+export async function getSummary(range: Omit<AnalyticsRange, 'groupBy' | 'timezone'>) {
+  const [summary] = await prisma.$queryRaw<
+    {
+      sessions: number;
+      visitors: number;
+      messages: number;
+      median_response_seconds: number | null;
+      abandoned: number;
+    }[]
+  >`
+    WITH scoped AS (
+      SELECT s.* FROM chat_session s
+      WHERE s.created_at >= ${range.from} AND s.created_at < ${range.to}
+        ${inTenant(Prisma.sql`s.id`, range)}
+    ),
+    latency AS (
+      SELECT extract(epoch FROM (
+               SELECT min(b.created_at) FROM chat_message b
+               WHERE b.session_id = u.session_id AND b.role = 'BOT' AND b.created_at > u.created_at
+             ) - u.created_at) AS seconds
+      FROM chat_message u
+      WHERE u.role = 'USER' AND u.created_at >= ${range.from} AND u.created_at < ${range.to}
+        ${inTenant(Prisma.sql`u.session_id`, range)}
+    )
+    SELECT (SELECT count(*) FROM scoped)::int AS sessions,
+           (SELECT count(DISTINCT visitor_id) FROM scoped)::int AS visitors,
+           (SELECT count(*) FROM chat_message m JOIN scoped s ON s.id = m.session_id)::int AS messages,
+           (SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY seconds) FROM latency WHERE seconds IS NOT NULL)::float
+             AS median_response_seconds,
+           (SELECT count(*) FROM scoped s WHERE ${ABANDONED})::int AS abandoned`;
+
+  return {
+    ...summary,
+    abandonment_rate: summary.sessions ? Number((summary.abandoned / summary.sessions).toFixed(4)) : null,
+  };
+}
@@ -0,0 +1,108 @@
+import { v4 as uuid } from 'uuid';
+import type { Attachment, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { env } from '../config/env';
+import { getAttachmentStorage } from '../lib/attachmentStorage';
+import logger from '../utils/logger';
+import { signAttachmentLink } from './authService';
+import type { AttachmentDto } from '../types/socket';
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+const MAX_FILE_NAME_LENGTH = 200;
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export function isAllowedMimeType(mimeType: string): boolean {
+  return env.attachmentMimeTypes.includes(mimeType.toLowerCase());
+}
+
+// Keeps the name displayable: no path segments or control characters
+function sanitizeFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? '';
+  const cleaned = base.replace(/[\u0000-\u001f\u007f"]/g, '').trim().slice(0, MAX_FILE_NAME_LENGTH);
+  return cleaned || 'attachment';
+}
+
+/** Signed download link; absolute when PUBLIC_BASE_URL is set */
+export function attachmentUrl(attachmentId: string): string {
+  const expires = Math.floor(Date.now() / 1000) + env.attachmentUrlTtlHours * 3600;
+  const query = new URLSearchParams({ expires: String(expires), signature: signAttachmentLink(attachmentId, expires) });
+  return `${env.publicBaseUrl ?? ''}/api/attachments/${attachmentId}?${query}`;
+}
+
+export function mapAttachment(attachment: Attachment): AttachmentDto {
+  return {
+    id: attachment.id,
+    fileName: attachment.file_name,
+    mimeType: attachment.mime_type,
+    size: attachment.size_bytes,
+    url: attachmentUrl(attachment.id),
+  };
+}
+
+export async function createAttachment(sessionId: string, file: UploadedFile): Promise<Attachment> {
+  const id = uuid();
+  const key = `${sessionId}/${id}`;
+  const storage = getAttachmentStorage();
+  await storage.put(key, file.buffer, file.mimetype);
+
+  const attachment = await prisma.attachment.create({
+    data: {
+      id,
+      session_id: sessionId,
+      file_name: sanitizeFileName(file.originalname),
+      mime_type: file.mimetype.toLowerCase(),
+      size_bytes: file.size,
+      storage: storage.kind,
+      storage_key: key,
+    },
+  });
+  logger.info(`📎 Attachment ${id} uploaded to session ${sessionId} (${file.mimetype}, ${file.size} bytes)`);
+  return attachment;
+}
+
+/**
+ * Validates attachment ids sent with a message: they must be uploads of the
+ * same session that no other message uses yet. Returns null when any is not.
+ */
+export async function findUnsentAttachments(sessionId: string, ids: string[]): Promise<Attachment[] | null> {
+  const unique = [...new Set(ids)];
+  if (!unique.length) return [];
+  const attachments = await prisma.attachment.findMany({
+    where: { id: { in: unique }, session_id: sessionId, message_id: null },
+    orderBy: { created_at: 'asc' },
+  });
+  return attachments.length === unique.length ? attachments : null;
+}
+
+/**
+ * Links unsent uploads to `messageId` inside the message's transaction.
+ * Returns false when another message claimed one of them in the meantime;
+ * the caller then rolls the message back.
+ */
+export async function claimAttachments(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  messageId: string,
+  attachments: Attachment[]
+): Promise<boolean> {
+  if (!attachments.length) return true;
+  const claimed = await tx.attachment.updateMany({
+    where: { id: { in: attachments.map((attachment) => attachment.id) }, session_id: sessionId, message_id: null },
+    data: { message_id: messageId },
+  });
+  return claimed.count === attachments.length;
+}
+
+export async function getAttachment(id: string): Promise<Attachment | null> {
+  return prisma.attachment.findUnique({ where: { id } });
+}
+
+export async function openAttachment(attachment: Attachment) {
+  return getAttachmentStorage().get(attachment.storage_key);
+}
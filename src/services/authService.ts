@@ -0,0 +1,141 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { api_key_scope } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { env } from '../config/env';
+import logger from '../utils/logger';
+import { isUuid } from '../utils/query';
+
+// Admin and agent keys bound to a tenant only reach that tenant's sessions
+export type AuthContext =
+  | { kind: 'admin'; keyId?: string; keyName: string; tenantId?: string }
+  | { kind: 'agent'; keyId: string; keyName: string; tenantId?: string }
+  | { kind: 'widget'; sessionId: string; visitorId: string };
+
+export interface WidgetTokenClaims {
+  sid: string;
+  vid: string;
+  exp: number;
+}
+
+const API_KEY_PREFIX = 'ck_';
+
+// Without a configured secret tokens only survive until the process restarts
+const tokenSecret =
+  env.widgetTokenSecret ??
+  env.apiSecret ??
+  (() => {
+    logger.warn('⚠️ Neither WIDGET_TOKEN_SECRET nor API_SECRET is set, using an ephemeral widget token secret');
+    return randomBytes(32).toString('hex');
+  })();
+
+function sign(value: string): string {
+  return createHmac('sha256', tokenSecret).update(value).digest('base64url');
+}
+
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function issueWidgetToken(sessionId: string, visitorId: string): string {
+  const claims: WidgetTokenClaims = {
+    sid: sessionId,
+    vid: visitorId,
+    exp: Math.floor(Date.now() / 1000) + env.widgetTokenTtlHours * 3600,
+  };
+  const body = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${body}.${sign(body)}`;
+}
+
+export function verifyWidgetToken(token: string): WidgetTokenClaims | null {
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length || !safeEqual(signature, sign(body))) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as WidgetTokenClaims;
+    if (!claims.sid || !claims.vid || claims.exp * 1000 < Date.now()) {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+/** Signature for a time-limited download link, so `<img src>` and n8n can fetch without credentials */
+export function signAttachmentLink(attachmentId: string, expires: number): string {
+  return sign(`attachment:${attachmentId}:${expires}`);
+}
+
+export function verifyAttachmentLink(attachmentId: string, expires: unknown, signature: unknown): boolean {
+  const expiresAt = Number(expires);
+  if (typeof signature !== 'string' || !Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) {
+    return false;
+  }
+  return safeEqual(signature, signAttachmentLink(attachmentId, expiresAt));
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(24).toString('hex')}`;
+}
+
+async function resolveApiKey(key: string): Promise<AuthContext | null> {
+  const apiKey = await prisma.apiKey.findUnique({ where: { key_hash: hashApiKey(key) } });
+  if (!apiKey || apiKey.revoked_at) {
+    return null;
+  }
+
+  void prisma.apiKey
+    .update({ where: { id: apiKey.id }, data: { last_used_at: new Date() } })
+    .catch((error) => logger.warn('Failed to record API key usage', error as Error));
+
+  const tenantId = apiKey.tenant_id ?? undefined;
+  return apiKey.scope === api_key_scope.ADMIN
+    ? { kind: 'admin', keyId: apiKey.id, keyName: apiKey.name, tenantId }
+    : { kind: 'agent', keyId: apiKey.id, keyName: apiKey.name, tenantId };
+}
+
+/**
+ * Resolves a raw credential (admin secret, stored API key or widget token)
+ * into an auth context. Returns null when the credential is not recognised.
+ */
+export async function resolveCredential(credential: string | undefined): Promise<AuthContext | null> {
+  const value = credential?.trim();
+  if (!value) return null;
+
+  if (env.apiSecret && safeEqual(value, env.apiSecret)) {
+    return { kind: 'admin', keyName: 'API_SECRET' };
+  }
+
+  if (value.startsWith(API_KEY_PREFIX)) {
+    return resolveApiKey(value);
+  }
+
+  const claims = verifyWidgetToken(value);
+  return claims ? { kind: 'widget', sessionId: claims.sid, visitorId: claims.vid } : null;
+}
+
+export function isAdmin(auth: AuthContext | null | undefined): boolean {
+  return auth?.kind === 'admin';
+}
+
+/** Admin keys that are not bound to a tenant (API_SECRET or a deployment-wide ADMIN key) */
+export function isGlobalAdmin(auth: AuthContext | null | undefined): boolean {
+  return auth?.kind === 'admin' && !auth.tenantId;
+}
+
+export async function canAccessSession(auth: AuthContext | null | undefined, sessionId: string): Promise<boolean> {
+  if (!auth || auth.kind === 'agent' || !isUuid(sessionId)) return false;
+  if (auth.kind === 'widget') return auth.sessionId === sessionId;
+  if (!auth.tenantId) return true;
+
+  const session = await prisma.chatSession.findUnique({ where: { id: sessionId }, select: { tenant_id: true } });
+  return session?.tenant_id === auth.tenantId;
+}
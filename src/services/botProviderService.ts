@@ -0,0 +1,167 @@
+import type { Widget } from '@prisma/client';
+import { env, type BotProviderKind } from '../config/env';
+import logger from '../utils/logger';
+import { isHttpUrl } from '../utils/query';
+import { recordBotRequest } from '../lib/metrics';
+import { CircuitOpenError } from '../utils/circuitBreaker';
+import { createHttpBotProvider, parseHttpBotOverrides, type HttpBotOverrides } from './httpBotProvider';
+import { createN8nProvider, type N8nPayload, type N8nReply } from './n8nService';
+import { createOpenAiProvider, parseOpenAiOverrides, type OpenAiOverrides } from './openaiProvider';
+import { createRulesProvider, parseRulesOverrides, type RulesOverrides } from './rulesProvider';
+import { getWidget, n8nTargetFor } from './tenantService';
+
+export const BOT_PROVIDER_TYPES: readonly BotProviderKind[] = ['n8n', 'http', 'openai', 'rules'];
+
+/** A chat turn as sent to every provider (the n8n webhook payload) */
+export type BotRequest = N8nPayload;
+export type BotReply = N8nReply;
+
+export interface BotReplyOptions {
+  /** Called with each partial chunk of text when the provider streams its reply */
+  onDelta?: (delta: string) => void;
+  /** Called when a provider fails after streaming text, so clients can drop the partial reply */
+  onReset?: () => void;
+}
+
+export interface BotProvider {
+  /** Shown in logs, e.g. `n8n` or `openai:gpt-4o-mini` */
+  name: string;
+  /** False while the provider is known to be down (its circuit is open) */
+  isAvailable(): boolean;
+  /** Throws when the provider cannot answer; the next provider in line is tried then */
+  reply(request: BotRequest, options?: BotReplyOptions): Promise<BotReply>;
+}
+
+/**
+ * One entry of a widget's `bot_providers` list. Fields left out fall back to
+ * the deployment settings of that provider type (N8N_*, HTTP_BOT_*, OPENAI_*, BOT_RULES_FILE).
+ */
+export type BotProviderConfig =
+  | { type: 'n8n'; webhookUrl?: string; timeoutMs?: number }
+  | ({ type: 'http' } & HttpBotOverrides)
+  | ({ type: 'openai' } & OpenAiOverrides)
+  | ({ type: 'rules' } & RulesOverrides);
+
+const MAX_PROVIDERS = 5;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseN8nOverrides(value: Record<string, unknown>): BotProviderConfig | string {
+  const { webhookUrl, timeoutMs } = value;
+  if (webhookUrl !== undefined && !isHttpUrl(webhookUrl)) return 'webhookUrl must be an http(s) URL';
+  if (timeoutMs !== undefined && (typeof timeoutMs !== 'number' || !Number.isInteger(timeoutMs) || timeoutMs <= 0)) {
+    return 'timeoutMs must be a positive integer';
+  }
+  return { type: 'n8n', webhookUrl: webhookUrl as string | undefined, timeoutMs: timeoutMs as number | undefined };
+}
+
+/** Validates a widget's provider list (failover order); returns a human readable error when invalid */
+export function parseBotProviders(value: unknown): BotProviderConfig[] | string {
+  if (!Array.isArray(value) || !value.length || value.length > MAX_PROVIDERS) {
+    return `botProviders must be an array of 1 to ${MAX_PROVIDERS} providers`;
+  }
+  const providers: BotProviderConfig[] = [];
+  for (const [index, entry] of value.entries()) {
+    if (!isPlainObject(entry) || !BOT_PROVIDER_TYPES.includes(entry.type as BotProviderKind)) {
+      return `botProviders[${index}].type must be one of ${BOT_PROVIDER_TYPES.join(', ')}`;
+    }
+    let parsed: BotProviderConfig | string;
+    switch (entry.type as BotProviderKind) {
+      case 'n8n':
+        parsed = parseN8nOverrides(entry);
+        break;
+      case 'http':
+        parsed = parseHttpBotOverrides(entry);
+        break;
+      case 'openai':
+        parsed = parseOpenAiOverrides(entry);
+        break;
+      case 'rules':
+        parsed = parseRulesOverrides(entry);
+        break;
+    }
+    if (typeof parsed === 'string') return `botProviders[${index}].${parsed}`;
+    providers.push(parsed);
+  }
+  return providers;
+}
+
+function createProvider(config: BotProviderConfig, widget: Widget | null): BotProvider {
+  switch (config.type) {
+    case 'n8n': {
+      const target = n8nTargetFor(widget);
+      return createN8nProvider({
+        webhookUrl: config.webhookUrl ?? target.webhookUrl,
+        timeoutMs: config.timeoutMs ?? target.timeoutMs,
+      });
+    }
+    case 'http':
+      return createHttpBotProvider(config);
+    case 'openai':
+      return createOpenAiProvider(config);
+    case 'rules':
+      return createRulesProvider(config);
+  }
+}
+
+/** The widget's own provider list, or BOT_PROVIDERS for the default deployment and widgets without one */
+export function botProvidersFor(widget: Widget | null): BotProvider[] {
+  const configs =
+    (widget?.bot_providers as BotProviderConfig[] | null | undefined) ??
+    env.botProviders.map((type) => ({ type }) as BotProviderConfig);
+  return configs.map((config) => createProvider(config, widget));
+}
+
+export async function getBotProviders(widgetId: string | null | undefined): Promise<BotProvider[]> {
+  return botProvidersFor(await getWidget(widgetId));
+}
+
+/**
+ * Asks each provider in order until one answers. Providers whose circuit is
+ * open are skipped; when all of them fail the last error is thrown so the
+ * caller can queue the turn for retry. Every provider streams under the same
+ * message id, so `onReset` fires before the next one when a failed provider
+ * already sent deltas.
+ */
+export async function replyWithFailover(
+  providers: BotProvider[],
+  request: BotRequest,
+  options: BotReplyOptions = {}
+): Promise<BotReply> {
+  let lastError: unknown = new Error('No bot provider is configured');
+
+  for (const [index, provider] of providers.entries()) {
+    if (!provider.isAvailable()) {
+      lastError = new CircuitOpenError(provider.name);
+      continue;
+    }
+    const startedAt = process.hrtime.bigint();
+    let streamed = false;
+    const { onDelta } = options;
+    try {
+      const reply = await provider.reply(request, {
+        ...options,
+        onDelta: onDelta
+          ? (delta) => {
+              streamed = true;
+              onDelta(delta);
+            }
+          : undefined,
+      });
+      recordBotRequest(provider.name, startedAt, false);
+      if (index > 0) {
+        logger.warn(`🔀 Bot provider ${provider.name} answered session ${request.sessionId} (failover)`);
+      }
+      return reply;
+    } catch (error) {
+      recordBotRequest(provider.name, startedAt, true);
+      lastError = error;
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.warn(`⚠️ Bot provider ${provider.name} failed for session ${request.sessionId}: ${errMsg}`);
+      if (streamed) options.onReset?.();
+    }
+  }
+  throw lastError;
+}
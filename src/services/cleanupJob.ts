@@ -1,8 +1,13 @@
 import { schedule, ScheduledTask } from 'node-cron';
-import { chat_session_status } from '@prisma/client';
-import { prisma } from '../lib/prisma';
+import { chat_session_status, type ChatSession } from '@prisma/client';
+import { withAdvisoryLock } from '../lib/advisoryLock';
+import { recordCleanupTransitions } from '../lib/metrics';
 import { env } from '../config/env';
 import logger from '../utils/logger';
+import { queueSessionCloseout } from './closeoutService';
+import { publishEvent, sessionEventData } from './webhookService';
+
+const CLEANUP_LOCK = 'chat_middleware:cleanup_job';
 
 export function startCleanupJob(): ScheduledTask {
 	const heartbeatTimeoutSec = Number(env.heartbeatTimeoutSeconds);
@@ -19,31 +24,48 @@ export function startCleanupJob(): ScheduledTask {
 	}
 
 	return schedule('* * * * *', async () => {
-		const now = Date.now();
-		const inactiveThreshold = new Date(now - heartbeatTimeoutSec * 1000);
-		const closeThreshold = new Date(now - sessionCloseMin * 60 * 1000);
-
 		try {
-			const inactiveResult = await prisma.chatSession.updateMany({
-				where: {
-					status: chat_session_status.ACTIVE,
-					last_active_at: { lt: inactiveThreshold },
-				},
-				data: { status: chat_session_status.INACTIVE },
-			});
+			// Only one instance sweeps per tick; the others skip while the lock is held.
+			// Tenant widgets may override both timeouts; other sessions use the env defaults.
+			const { acquired, result } = await withAdvisoryLock(CLEANUP_LOCK, async (tx) => {
+				const inactive = await tx.$queryRaw<ChatSession[]>`
+					UPDATE chat_session s
+					SET status = 'INACTIVE'
+					WHERE s.status = 'ACTIVE'
+					  AND s.last_active_at < now() - make_interval(secs => coalesce(
+					    (SELECT w.heartbeat_timeout_seconds FROM widget w WHERE w.id = s.widget_id),
+					    ${heartbeatTimeoutSec}::float8
+					  ))
+					RETURNING s.*`;
 
-			const closedResult = await prisma.chatSession.updateMany({
-				where: {
-					status: { in: [chat_session_status.ACTIVE, chat_session_status.INACTIVE] },
-					last_active_at: { lt: closeThreshold },
-				},
-				data: { status: chat_session_status.CLOSED },
+				const closed = await tx.$queryRaw<ChatSession[]>`
+					UPDATE chat_session s
+					SET status = 'CLOSED', closed_reason = 'INACTIVITY',
+					    agent_id = NULL, agent_name = NULL, agent_since = NULL
+					WHERE s.status IN ('ACTIVE', 'INACTIVE')
+					  AND s.last_active_at < now() - make_interval(secs => 60 * coalesce(
+					    (SELECT w.session_close_minutes FROM widget w WHERE w.id = s.widget_id),
+					    ${sessionCloseMin}::float8
+					  ))
+					RETURNING s.*`;
+
+				return { inactive, closed };
 			});
+			if (!acquired || !result) return;
 
-			if (inactiveResult.count || closedResult.count) {
-				logger.info(
-					`Cleanup job: ${inactiveResult.count} inactive, ${closedResult.count} closed sessions`
-				);
+			// Webhooks fire once the transitions are committed
+			const { inactive, closed } = result;
+			recordCleanupTransitions(chat_session_status.INACTIVE, inactive.length);
+			recordCleanupTransitions(chat_session_status.CLOSED, closed.length);
+			for (const session of inactive) {
+				publishEvent('session.inactive', sessionEventData(session), { tenantId: session.tenant_id });
+			}
+			for (const session of closed) {
+				publishEvent('session.closed', sessionEventData(session), { tenantId: session.tenant_id });
+				queueSessionCloseout(session.id);
+			}
+			if (inactive.length || closed.length) {
+				logger.info(`Cleanup job: ${inactive.length} inactive, ${closed.length} closed sessions`);
 			}
 		} catch (error) {
 			const errMsg = error instanceof Error ? error.stack || error.message : String(error);
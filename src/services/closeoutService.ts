@@ -0,0 +1,205 @@
+import axios from 'axios';
+import { message_role, outbound_job_type } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { isMailConfigured, sendMail } from '../lib/mailer';
+import { env } from '../config/env';
+import { correlationHeaders, getCorrelationId } from '../utils/correlation';
+import logger from '../utils/logger';
+import { redact } from '../utils/redaction';
+import { extractLead, upsertSessionContact, VISITOR_CONTACT_SOURCES, type LeadData } from './contactService';
+import { getWidget } from './tenantService';
+import { buildTranscript, renderTranscript, type Transcript } from './transcriptService';
+import { publishEvent, sessionEventData } from './webhookService';
+import { getWidgetConfig } from './widgetConfigService';
+
+export interface SessionSummary {
+  summary: string;
+  /** Short snake_case outcome labels, e.g. `resolved`, `sales_lead`, `complaint` */
+  tags: string[];
+  lead?: LeadData;
+}
+
+const MAX_SUMMARY_LENGTH = 4000;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 40;
+const SUMMARY_PROMPT = [
+  'You summarize customer support chats between a website visitor and an assistant or agent.',
+  'Reply with a JSON object: {"summary": "2-4 sentences on what the visitor wanted and how it ended",',
+  '"tags": ["outcome tags in snake_case, e.g. resolved, unresolved, sales_lead, support_request, complaint"],',
+  '"lead": {"name": "...", "email": "..."}} and leave out lead fields the visitor did not give.',
+].join(' ');
+
+function parseTags(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const tags = value
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map((tag) => tag.trim().toLowerCase().replace(/\s+/g, '_').slice(0, MAX_TAG_LENGTH))
+    .filter(Boolean);
+  return [...new Set(tags)].slice(0, MAX_TAGS);
+}
+
+/** Reads `{ summary | output, tags | outcomeTags, lead }` from a summarizer response */
+function toSummary(data: unknown): SessionSummary {
+  if (!data || typeof data !== 'object') throw new Error('Summary response is not a JSON object');
+  const source = data as Record<string, unknown>;
+  const summary = source.summary ?? source.output ?? source.text;
+  if (typeof summary !== 'string' || !summary.trim()) throw new Error('Summary response has no summary text');
+  return {
+    summary: summary.trim().slice(0, MAX_SUMMARY_LENGTH),
+    tags: parseTags(source.tags ?? source.outcomeTags),
+    lead: extractLead(data),
+  };
+}
+
+function conversationText(transcript: Transcript): string {
+  return transcript.messages
+    .filter((message) => message.role !== message_role.SYSTEM)
+    .map((message) => `${message.label}: ${redact(message.content, 'bot')}`)
+    .join('\n');
+}
+
+async function summarizeWithN8n(transcript: Transcript): Promise<SessionSummary> {
+  if (!env.summaryWebhookUrl) throw new Error('N8N_SUMMARY_WEBHOOK_URL is not set');
+  const response = await axios.post(
+    env.summaryWebhookUrl,
+    {
+      action: 'summarize',
+      sessionId: transcript.session.id,
+      metadata: transcript.session.metadata,
+      messages: transcript.messages.map(({ role, content, createdAt }) => ({
+        sender: role,
+        content: redact(content, 'bot'),
+        createdAt,
+      })),
+      transcript: conversationText(transcript),
+    },
+    { headers: correlationHeaders(), timeout: env.n8nTimeoutMs }
+  );
+  return toSummary(response.data);
+}
+
+async function summarizeWithOpenAi(transcript: Transcript): Promise<SessionSummary> {
+  const { baseUrl, apiKey, model, timeoutMs } = env.openai;
+  const response = await axios.post(
+    `${baseUrl}/chat/completions`,
+    {
+      model,
+      messages: [
+        { role: 'system', content: SUMMARY_PROMPT },
+        { role: 'user', content: conversationText(transcript) },
+      ],
+      response_format: { type: 'json_object' },
+      user: transcript.session.id,
+    },
+    { headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {}, timeout: timeoutMs }
+  );
+  const content = response.data?.choices?.[0]?.message?.content;
+  if (typeof content !== 'string') throw new Error('Chat completion response has no message content');
+  return toSummary(JSON.parse(content));
+}
+
+// Sessions where the visitor never wrote anything are closed without a summary
+async function summarize(transcript: Transcript): Promise<SessionSummary | null> {
+  if (!transcript.messages.some((message) => message.role === message_role.USER)) return null;
+  switch (env.summaryProvider) {
+    case 'n8n':
+      return summarizeWithN8n(transcript);
+    case 'openai':
+      return summarizeWithOpenAi(transcript);
+    default:
+      return null;
+  }
+}
+
+// Latest address the visitor gave as their own (widget contact form or a form's `email` field)
+async function visitorEmail(sessionId: string): Promise<string | undefined> {
+  const contact = await prisma.contacts.findFirst({
+    where: { sessionId, email: { not: null }, conversation_source: { in: VISITOR_CONTACT_SOURCES } },
+    orderBy: { created_at: 'desc' },
+    select: { email: true },
+  });
+  return contact?.email ?? undefined;
+}
+
+async function emailTranscript(sessionId: string, transcript: Transcript, title: string) {
+  const email = await visitorEmail(sessionId);
+  if (!email) return;
+
+  await sendMail({
+    to: email,
+    subject: `Your chat transcript: ${title}`,
+    text: renderTranscript(transcript, 'md'),
+    html: renderTranscript(transcript, 'html'),
+  });
+  await prisma.chatSession.update({ where: { id: sessionId }, data: { transcript_emailed_at: new Date() } });
+  logger.info(`📧 Transcript of session ${sessionId} emailed to the visitor`);
+}
+
+/**
+ * Queues the close-out job of a closed session. Only the first close queues
+ * it, so sessions closed again (by the visitor, an admin and the cleanup job)
+ * are summarized once.
+ */
+export function queueSessionCloseout(sessionId: string): void {
+  prisma
+    .$transaction(async (tx) => {
+      const claimed = await tx.chatSession.updateMany({
+        where: { id: sessionId, closeout_queued_at: null },
+        data: { closeout_queued_at: new Date() },
+      });
+      if (!claimed.count) return;
+      await tx.outboundJob.create({
+        data: {
+          type: outbound_job_type.SESSION_CLOSEOUT,
+          session_id: sessionId,
+          payload: { correlationId: getCorrelationId() },
+          max_attempts: env.n8nRetryMaxAttempts,
+        },
+      });
+    })
+    .catch((error) => {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to queue close-out for session ${sessionId}: ${errMsg}`);
+    });
+}
+
+/**
+ * Summarizes the session, upserts the visitor's contact and emails them the
+ * transcript. Runs on the outbound worker; each step is stamped on the
+ * session, so a retried job skips the steps that already succeeded.
+ */
+export async function runSessionCloseout(sessionId: string): Promise<void> {
+  const session = await prisma.chatSession.findUnique({
+    where: { id: sessionId },
+    include: { chat_message: { orderBy: { created_at: 'asc' } } },
+  });
+  if (!session) return;
+
+  const config = await getWidgetConfig(await getWidget(session.widget_id));
+  const transcript = buildTranscript(session, config.officeHours?.timezone ?? 'UTC');
+
+  if (!session.summarized_at) {
+    const result = await summarize(transcript);
+    const email = result?.lead?.email ?? (await visitorEmail(sessionId));
+    if (email) {
+      await upsertSessionContact(sessionId, { ...result?.lead, email, summary: result?.summary });
+    }
+
+    const summarized = await prisma.chatSession.update({
+      where: { id: sessionId },
+      data: { summary: result?.summary ?? null, outcome_tags: result?.tags ?? [], summarized_at: new Date() },
+    });
+    if (result) {
+      logger.info(`📝 Session ${sessionId} summarized (tags=${result.tags.join(',') || 'none'})`);
+      publishEvent('session.summarized', sessionEventData(summarized), { tenantId: summarized.tenant_id });
+    }
+  }
+
+  if (env.closeoutEmailTranscript && !session.transcript_emailed_at) {
+    if (!isMailConfigured()) {
+      logger.warn(`⚠️ CLOSEOUT_EMAIL_TRANSCRIPT is on but SMTP_URL / MAIL_FROM are not set (session ${sessionId})`);
+      return;
+    }
+    await emailTranscript(sessionId, transcript, config.strings.title);
+  }
+}
@@ -0,0 +1,195 @@
+import type { Contacts, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import logger from '../utils/logger';
+import { contactEventData, publishEvent } from './webhookService';
+
+export const CONTACT_SOURCES = {
+  widgetForm: 'widget_form',
+  /** `email` field of a bot form the visitor submitted */
+  form: 'form',
+  rest: 'rest',
+  bot: 'bot',
+  /** Email typed into a chat message (captured before redaction) */
+  chat: 'chat',
+  closeout: 'closeout',
+} as const;
+
+/**
+ * Sources where the visitor entered the address themselves, in a field that
+ * asks for it. Addresses merely mentioned in the chat, or extracted by n8n or
+ * the summarizer, may belong to someone else and are never mailed.
+ */
+export const VISITOR_CONTACT_SOURCES: string[] = [CONTACT_SOURCES.widgetForm, CONTACT_SOURCES.form];
+
+export interface ContactInput {
+  name?: string | null;
+  email?: string | null;
+  summary?: string | null;
+  message?: string | null;
+  conversationSource?: string | null;
+  sessionId?: string | null;
+  agentReply?: string | null;
+}
+
+export interface ContactFilters {
+  source?: string;
+  sessionId?: string;
+  email?: string;
+  from?: Date;
+  to?: Date;
+  /** Only contacts captured in this tenant's sessions */
+  tenantId?: string;
+  take?: number;
+  skip?: number;
+}
+
+/** Structured lead data n8n can return next to its reply */
+export interface LeadData {
+  name?: string;
+  email?: string;
+  summary?: string;
+  message?: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const STRING_FIELDS: (keyof ContactInput)[] = [
+  'name',
+  'email',
+  'summary',
+  'message',
+  'conversationSource',
+  'sessionId',
+  'agentReply',
+];
+
+/** Returns a human readable validation error, or null when the input is acceptable */
+export function validateContactInput(input: ContactInput, { requireContactInfo = true } = {}): string | null {
+  for (const field of STRING_FIELDS) {
+    const value = input[field];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      return `${field} must be a string`;
+    }
+  }
+  if (input.email && !EMAIL_PATTERN.test(input.email.trim())) {
+    return 'email must be a valid email address';
+  }
+  if (requireContactInfo && !input.email?.trim() && !input.name?.trim()) {
+    return 'name or email is required';
+  }
+  return null;
+}
+
+function toData(input: ContactInput) {
+  const data: Prisma.ContactsUncheckedUpdateInput = {};
+  if (input.name !== undefined) data.name = input.name?.trim() || null;
+  if (input.email !== undefined) data.email = input.email?.trim().toLowerCase() || null;
+  if (input.summary !== undefined) data.summary = input.summary;
+  if (input.message !== undefined) data.message = input.message;
+  if (input.conversationSource !== undefined) data.conversation_source = input.conversationSource;
+  if (input.sessionId !== undefined) data.sessionId = input.sessionId;
+  if (input.agentReply !== undefined) data.agent_reply = input.agentReply;
+  return data;
+}
+
+export async function createContact(input: ContactInput): Promise<Contacts> {
+  const contact = await prisma.contacts.create({
+    data: toData(input) as Prisma.ContactsUncheckedCreateInput,
+  });
+  logger.info(`📇 Contact captured: ${contact.id} (source=${contact.conversation_source ?? 'unknown'})`);
+  publishEvent('contact.created', contactEventData(contact), { sessionId: contact.sessionId });
+  return contact;
+}
+
+export async function updateContact(id: string, input: ContactInput, tenantId?: string): Promise<Contacts | null> {
+  const existing = await prisma.contacts.findFirst({
+    where: { id, ...(tenantId ? { chat_session: { tenant_id: tenantId } } : {}) },
+    select: { id: true },
+  });
+  if (!existing) return null;
+  return prisma.contacts.update({ where: { id }, data: toData(input) });
+}
+
+export async function listContacts(filters: ContactFilters = {}): Promise<Contacts[]> {
+  const where: Prisma.ContactsWhereInput = {};
+  if (filters.source) where.conversation_source = filters.source;
+  if (filters.sessionId) where.sessionId = filters.sessionId;
+  if (filters.email) where.email = { equals: filters.email.trim(), mode: 'insensitive' };
+  if (filters.tenantId) where.chat_session = { tenant_id: filters.tenantId };
+  if (filters.from || filters.to) {
+    where.created_at = {
+      ...(filters.from ? { gte: filters.from } : {}),
+      ...(filters.to ? { lte: filters.to } : {}),
+    };
+  }
+
+  return prisma.contacts.findMany({
+    where,
+    orderBy: { created_at: 'desc' },
+    take: Math.min(filters.take ?? 50, 200),
+    skip: filters.skip ?? 0,
+  });
+}
+
+export function extractLead(data: unknown): LeadData | undefined {
+  if (!data || typeof data !== 'object') return undefined;
+  const source = data as Record<string, unknown>;
+  const lead = source.lead ?? source.contact;
+  if (!lead || typeof lead !== 'object') return undefined;
+
+  const { name, email, summary, message } = lead as Record<string, unknown>;
+  const result: LeadData = {};
+  if (typeof name === 'string' && name.trim()) result.name = name.trim();
+  if (typeof email === 'string' && EMAIL_PATTERN.test(email.trim())) result.email = email.trim();
+  if (typeof summary === 'string') result.summary = summary;
+  if (typeof message === 'string') result.message = message;
+  return result.name || result.email ? result : undefined;
+}
+
+/**
+ * Stores lead data returned by n8n (or found in a visitor message). A session
+ * keeps a single contact per source and email, so repeated lead payloads
+ * update rather than duplicate it.
+ */
+export async function captureLead(
+  sessionId: string,
+  lead: LeadData,
+  source: string = CONTACT_SOURCES.bot
+): Promise<Contacts> {
+  const existing = await prisma.contacts.findFirst({
+    where: {
+      sessionId,
+      conversation_source: source,
+      ...(lead.email ? { email: { equals: lead.email, mode: 'insensitive' } } : {}),
+    },
+    orderBy: { created_at: 'desc' },
+  });
+
+  if (existing) {
+    return prisma.contacts.update({ where: { id: existing.id }, data: toData(lead) });
+  }
+
+  return createContact({ ...lead, sessionId, conversationSource: source });
+}
+
+/**
+ * Upserts the contact of a closed session by email, whichever source captured
+ * it first: an existing row gets the summary (and a name it was missing).
+ */
+export async function upsertSessionContact(
+  sessionId: string,
+  lead: LeadData & { email: string }
+): Promise<Contacts> {
+  const existing = await prisma.contacts.findFirst({
+    where: { sessionId, email: { equals: lead.email.trim(), mode: 'insensitive' } },
+    orderBy: { created_at: 'desc' },
+  });
+
+  if (existing) {
+    return prisma.contacts.update({
+      where: { id: existing.id },
+      data: toData({ summary: lead.summary, ...(existing.name ? {} : { name: lead.name }) }),
+    });
+  }
+
+  return createContact({ ...lead, sessionId, conversationSource: CONTACT_SOURCES.closeout });
+}
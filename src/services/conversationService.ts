@@ -0,0 +1,228 @@
+import { chat_session_status, message_role, type Prisma } from '@prisma/client';
+import { v4 as uuid } from 'uuid';
+import { prisma } from '../lib/prisma';
+import logger from '../utils/logger';
+import { findEmails, isRedacted, redact, type RedactionTarget } from '../utils/redaction';
+import { claimAttachments, findUnsentAttachments } from './attachmentService';
+import { getBotProviders, replyWithFailover, type BotReply, type BotRequest } from './botProviderService';
+import { CONTACT_SOURCES, captureLead } from './contactService';
+import { broadcastMessage, broadcastTyping, deliverBotReply, getHistory, mapMessage } from './messageService';
+import type { N8nHistoryEntry } from './n8nService';
+import { enqueueBotReply } from './outboundQueue';
+import { resolveRichResponse, type RichResponse } from './richMessageService';
+import type { ChatMessageDto, ChatServer } from '../types/socket';
+
+/** A visitor message as sent over the socket `message` event or `POST /api/sessions/:id/messages` */
+export interface UserMessageInput {
+  sessionId: string;
+  content: string;
+  attachmentIds: string[];
+  response?: RichResponse;
+  metadata?: Record<string, unknown>;
+}
+
+export type MessageRejection = {
+  ok: false;
+  reason: 'not_found' | 'closed' | 'invalid';
+  /** Safe to show to the visitor */
+  error: string;
+};
+
+export interface AcceptedMessage {
+  ok: true;
+  message: ChatMessageDto;
+  input: UserMessageInput;
+  /** Set while a human agent holds the session; the bot stays quiet then */
+  agentId: string | null;
+  widgetId: string | null;
+}
+
+/** What happened to the bot's side of a turn */
+export type BotTurn =
+  | { status: 'REPLIED'; message: ChatMessageDto }
+  | { status: 'DELAYED'; jobId: string }
+  | { status: 'AGENT' };
+
+function redactResponse(response: RichResponse, target: RedactionTarget): RichResponse {
+  if (response.type !== 'form') return response;
+  const values = Object.fromEntries(Object.entries(response.values).map(([name, value]) => [name, redact(value, target)]));
+  return { ...response, values };
+}
+
+// Addresses typed into a form's `email` fields are the visitor's own, whatever the redaction settings
+async function captureFormEmails(sessionId: string, emails: string[]) {
+  for (const email of new Set(emails)) {
+    await captureLead(sessionId, { email }, CONTACT_SOURCES.form).catch((error) =>
+      logger.error('Failed to store the email of a submitted form', error)
+    );
+  }
+}
+
+const ATTACHMENT_UNAVAILABLE: MessageRejection = {
+  ok: false,
+  reason: 'invalid',
+  error: 'One of the attachments is missing or was already sent.',
+};
+
+// Thrown inside the message transaction to roll the message back
+class AttachmentClaimError extends Error {}
+
+// Redacted addresses would never reach n8n's lead capture, so they are stored as contacts here
+async function captureRedactedEmail(
+  sessionId: string,
+  content: string,
+  response: RichResponse | undefined,
+  formEmails: string[]
+) {
+  if (!isRedacted('storage', 'email') && !isRedacted('bot', 'email')) return;
+  const values = response?.type === 'form' ? Object.values(response.values) : [];
+  const email = findEmails([content, ...values].join('\n')).find((found) => !formEmails.includes(found));
+  if (!email) return;
+  await captureLead(sessionId, { email }, CONTACT_SOURCES.chat).catch((error) =>
+    logger.error('Failed to store lead from a chat message', error)
+  );
+}
+
+/**
+ * First half of a visitor turn: checks the session is open, stores the
+ * message (redacted per REDACT_STORAGE) with its attachments and fans it
+ * out to the session's room, operators and webhooks.
+ */
+export async function acceptUserMessage(
+  io: ChatServer,
+  input: UserMessageInput
+): Promise<AcceptedMessage | MessageRejection> {
+  const { sessionId } = input;
+  const session = await prisma.chatSession.findUnique({
+    where: { id: sessionId },
+    select: { id: true, status: true, agent_id: true, widget_id: true },
+  });
+
+  if (!session) {
+    logger.warn(`❌ Session ${sessionId} not found`);
+    return { ok: false, reason: 'not_found', error: 'Session not found' };
+  }
+  if (session.status === chat_session_status.CLOSED) {
+    logger.warn(`❌ Attempt to message closed session ${sessionId}`);
+    return { ok: false, reason: 'closed', error: 'Session was closed. Please start a new chat.' };
+  }
+
+  // Quick reply clicks and form submits are checked against the message they answer
+  let { content, response } = input;
+  let formEmails: string[] = [];
+  if (response) {
+    const resolved = await resolveRichResponse(sessionId, response);
+    if (typeof resolved === 'string') return { ok: false, reason: 'invalid', error: resolved };
+    ({ content, response, emails: formEmails } = resolved);
+  }
+
+  const attachments = await findUnsentAttachments(sessionId, input.attachmentIds);
+  if (!attachments) return ATTACHMENT_UNAVAILABLE;
+
+  await captureFormEmails(sessionId, formEmails);
+  await captureRedactedEmail(sessionId, content, response, formEmails);
+  content = redact(content, 'storage');
+  response = response && redactResponse(response, 'storage');
+
+  // A concurrent message may send the same upload; only one of them keeps it
+  const userMessage = await prisma
+    .$transaction(async (tx) => {
+      const created = await tx.chatMessage.create({
+        data: {
+          session_id: sessionId,
+          role: message_role.USER,
+          content,
+          ...(response ? { rich: { response } as unknown as Prisma.InputJsonValue } : {}),
+        },
+      });
+      if (!(await claimAttachments(tx, sessionId, created.id, attachments))) throw new AttachmentClaimError();
+      return tx.chatMessage.findUniqueOrThrow({
+        where: { id: created.id },
+        include: { attachment: { orderBy: { created_at: 'asc' } } },
+      });
+    })
+    .catch((error: unknown) => {
+      if (error instanceof AttachmentClaimError) return null;
+      throw error;
+    });
+  if (!userMessage) {
+    logger.warn(`❌ Attachment of a message in session ${sessionId} was sent by another message first`);
+    return ATTACHMENT_UNAVAILABLE;
+  }
+  const message = mapMessage(userMessage);
+
+  // Echo user message to client (for multi-device sync) and to any watching operator
+  broadcastMessage(io, sessionId, message);
+  logger.info(`📤 User message echoed to client`);
+
+  // Update session activity
+  await prisma.chatSession.update({
+    where: { id: sessionId },
+    data: { last_active_at: new Date(), status: chat_session_status.ACTIVE },
+  });
+
+  return {
+    ok: true,
+    message,
+    input: { ...input, content, response },
+    agentId: session.agent_id,
+    widgetId: session.widget_id,
+  };
+}
+
+/**
+ * Second half of a visitor turn: asks the widget's bot providers for a reply
+ * (sending the stored text, further redacted per REDACT_BOT), relaying
+ * streamed text to the room, and stores it. When every provider fails the
+ * turn is queued for retry and the visitor is told it is delayed.
+ */
+export async function replyToUserMessage(io: ChatServer, accepted: AcceptedMessage): Promise<BotTurn> {
+  const { input, message } = accepted;
+  const { sessionId } = input;
+
+  if (accepted.agentId) {
+    logger.info(`🙋 Session ${sessionId} is held by agent ${accepted.agentId}, skipping the bot`);
+    return { status: 'AGENT' };
+  }
+
+  logger.info(`🤖 Requesting bot reply...`);
+  const botMessageId = uuid();
+  const historyForBrain = await getHistory(sessionId, 50);
+  const botRequest: BotRequest = {
+    sessionId,
+    message: redact(input.content, 'bot'),
+    history: historyForBrain.map<N8nHistoryEntry>((m) => ({
+      sender: m.sender,
+      content: redact(m.content, 'bot'),
+      createdAt: m.createdAt,
+    })),
+    ...(message.attachments.length ? { attachments: message.attachments } : {}),
+    ...(input.response ? { response: redactResponse(input.response, 'bot') } : {}),
+    metadata: input.metadata,
+  };
+
+  // The widget shows a typing bubble until the reply (or its first delta) arrives
+  broadcastTyping(io, sessionId, message_role.BOT, true);
+  let reply: BotReply;
+  try {
+    reply = await replyWithFailover(await getBotProviders(accepted.widgetId), botRequest, {
+      onDelta: (delta) => io.to(sessionId).emit('message_delta', { id: botMessageId, sessionId, delta }),
+      onReset: () => io.to(sessionId).emit('message_reset', { id: botMessageId, sessionId }),
+    });
+  } catch (error) {
+    // Every provider is down or short-circuited: queue the turn and tell the visitor the reply is delayed
+    const job = await enqueueBotReply(sessionId, { messageId: botMessageId, request: botRequest }, error);
+    io.to(sessionId).emit('status', {
+      status: chat_session_status.ACTIVE,
+      reply: 'DELAYED',
+      message: "Our assistant is taking longer than usual. We'll reply here as soon as possible.",
+    });
+    return { status: 'DELAYED', jobId: job.id };
+  } finally {
+    broadcastTyping(io, sessionId, message_role.BOT, false);
+  }
+
+  // Save and send AI message - only the final assembled text is persisted
+  const delivered = await deliverBotReply(io, sessionId, reply, { messageId: botMessageId });
+  return { status: 'REPLIED', message: delivered.message };
+}
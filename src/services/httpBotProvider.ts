@@ -0,0 +1,134 @@
+import axios from 'axios';
+import { env, type HttpBotEnvConfig } from '../config/env';
+import { sharedCircuitBreaker } from '../utils/circuitBreaker';
+import { correlationHeaders } from '../utils/correlation';
+import logger from '../utils/logger';
+import { isHttpUrl } from '../utils/query';
+import type { BotProvider, BotProviderConfig, BotReply, BotRequest } from './botProviderService';
+import { extractLead } from './contactService';
+import { toReply } from './n8nService';
+import { extractRichBlocks } from './richMessageService';
+
+export type HttpBotOverrides = Partial<HttpBotEnvConfig>;
+
+// Same body the n8n webhook receives
+const DEFAULT_REQUEST_TEMPLATE = {
+  sessionId: '{{sessionId}}',
+  chatInput: '{{message}}',
+  history: '{{history}}',
+  attachments: '{{attachments}}',
+  response: '{{response}}',
+  metadata: '{{metadata}}',
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*(\w+)\s*\}\}$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function templateValues(request: BotRequest): Record<string, unknown> {
+  return {
+    sessionId: request.sessionId,
+    message: request.message,
+    history: request.history,
+    attachments: request.attachments ?? [],
+    response: request.response ?? null,
+    metadata: request.metadata ?? null,
+  };
+}
+
+/** Fills `{{name}}` placeholders; a string that is only a placeholder takes the raw value (arrays, objects) */
+function renderTemplate(template: unknown, values: Record<string, unknown>): unknown {
+  if (typeof template === 'string') {
+    const whole = WHOLE_PLACEHOLDER.exec(template);
+    if (whole) return values[whole[1]] ?? null;
+    return template.replace(PLACEHOLDER, (_match, name: string) => {
+      const value = values[name];
+      if (value === undefined || value === null) return '';
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    });
+  }
+  if (Array.isArray(template)) return template.map((item) => renderTemplate(item, values));
+  if (isPlainObject(template)) {
+    return Object.fromEntries(Object.entries(template).map(([key, item]) => [key, renderTemplate(item, values)]));
+  }
+  return template;
+}
+
+// Dot path with array indexes as segments, e.g. `choices.0.message.content`
+function readPath(data: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined), data);
+}
+
+function mapResponse(data: unknown, responsePath: string | undefined): BotReply {
+  if (!responsePath) return toReply(data);
+  const output = readPath(data, responsePath);
+  if (typeof output !== 'string') throw new Error(`HTTP bot response has no text at "${responsePath}"`);
+  return { output, lead: extractLead(data), blocks: extractRichBlocks(data) };
+}
+
+/** Validates a widget's http provider entry; returns a human readable error when invalid */
+export function parseHttpBotOverrides(value: Record<string, unknown>): BotProviderConfig | string {
+  const { url, timeoutMs, headers, requestTemplate, responsePath } = value;
+  const config: { type: 'http' } & HttpBotOverrides = { type: 'http' };
+
+  if (url !== undefined) {
+    if (!isHttpUrl(url)) return 'url must be an http(s) URL';
+    config.url = url;
+  } else if (!env.httpBot) {
+    return 'url is required (HTTP_BOT_URL is not set)';
+  }
+  if (timeoutMs !== undefined) {
+    if (typeof timeoutMs !== 'number' || !Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+      return 'timeoutMs must be a positive integer';
+    }
+    config.timeoutMs = timeoutMs;
+  }
+  if (headers !== undefined) {
+    if (!isPlainObject(headers) || !Object.values(headers).every((header) => typeof header === 'string')) {
+      return 'headers must be an object of strings';
+    }
+    config.headers = headers as Record<string, string>;
+  }
+  if (requestTemplate !== undefined) {
+    if (!isPlainObject(requestTemplate)) return 'requestTemplate must be an object';
+    config.requestTemplate = requestTemplate;
+  }
+  if (responsePath !== undefined) {
+    if (typeof responsePath !== 'string' || !responsePath.trim()) return 'responsePath must be a non-empty string';
+    config.responsePath = responsePath.trim();
+  }
+  return config;
+}
+
+/** Any JSON API: the request body comes from a template, the reply text from a path in the response */
+export function createHttpBotProvider(overrides: HttpBotOverrides): BotProvider {
+  const config = { timeoutMs: 30000, headers: {}, ...env.httpBot, ...overrides };
+  const url = config.url ?? '';
+  const name = `http:${url ? new URL(url).host : 'unconfigured'}`;
+  const circuit = sharedCircuitBreaker(`http:${url}`, {
+    name,
+    failureThreshold: env.n8nCircuitFailureThreshold,
+    resetTimeoutMs: env.n8nCircuitResetSeconds * 1000,
+  });
+
+  return {
+    name,
+    isAvailable: () => !circuit.isOpen(),
+    reply: (request) =>
+      circuit.exec(async () => {
+        if (!url) throw new Error('HTTP bot provider has no URL');
+        logger.info(`Sending message to ${name} (session=${request.sessionId})`);
+        const response = await axios.post(
+          url,
+          renderTemplate(config.requestTemplate ?? DEFAULT_REQUEST_TEMPLATE, templateValues(request)),
+          { headers: { ...correlationHeaders(), ...config.headers }, timeout: config.timeoutMs }
+        );
+        return mapResponse(response.data, config.responsePath);
+      }),
+  };
+}
@@ -0,0 +1,208 @@
+import { message_role, Prisma, type Attachment } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { recordMessage } from '../lib/metrics';
+import logger from '../utils/logger';
+import { mapAttachment } from './attachmentService';
+import type { BotReply } from './botProviderService';
+import { captureLead } from './contactService';
+import type { RichContent } from './richMessageService';
+import { publishEvent } from './webhookService';
+import type { ChatMessageDto, ChatServer, OperatorNamespace, ReceiptEvent, ReceiptStatus } from '../types/socket';
+
+export const OPERATOR_NAMESPACE = '/operator';
+
+export function operatorNamespace(io: ChatServer): OperatorNamespace {
+  return io.of(OPERATOR_NAMESPACE) as unknown as OperatorNamespace;
+}
+
+export interface MessagePageOptions {
+  /** Message id: return the messages before it */
+  before?: string;
+  /** Message id: return the messages after it */
+  after?: string;
+  limit: number;
+  roles?: message_role[];
+}
+
+export interface MessagePage {
+  /** Oldest first */
+  messages: ChatMessageDto[];
+  /** Pass as `before` to fetch the previous page; null when this page starts the conversation */
+  olderCursor: string | null;
+  /** Pass as `after` to fetch the next page; null when this page ends the conversation */
+  newerCursor: string | null;
+}
+
+/**
+ * Keyset page of a session's messages, oldest first. Without a cursor it
+ * returns the latest `limit` messages.
+ */
+export async function getMessagePage(sessionId: string, options: MessagePageOptions): Promise<MessagePage> {
+  const { before, after, limit, roles } = options;
+  const cursor = before ?? after;
+  const forward = !!after && !before;
+
+  // A negative take reads backwards from the cursor (or from the end) and keeps ascending order
+  const rows = await prisma.chatMessage.findMany({
+    where: { session_id: sessionId, ...(roles?.length ? { role: { in: roles } } : {}) },
+    orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+    include: { attachment: { orderBy: { created_at: 'asc' } } },
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    take: forward ? limit + 1 : -(limit + 1),
+  });
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? (forward ? rows.slice(0, limit) : rows.slice(1)) : rows;
+  const hasOlder = forward ? !!page.length : hasMore;
+  const hasNewer = forward ? hasMore : !!before && !!page.length;
+
+  return {
+    messages: page.map(mapMessage),
+    olderCursor: hasOlder ? page[0].id : null,
+    newerCursor: hasNewer ? page[page.length - 1].id : null,
+  };
+}
+
+/** The latest `limit` messages of a session, oldest first */
+export async function getHistory(sessionId: string, limit = 100): Promise<ChatMessageDto[]> {
+  return (await getMessagePage(sessionId, { limit })).messages;
+}
+
+export function mapMessage(message: {
+  id: string;
+  role: message_role;
+  content: string;
+  created_at: Date;
+  delivered_at?: Date | null;
+  read_at?: Date | null;
+  rich?: Prisma.JsonValue;
+  attachment?: Attachment[];
+}): ChatMessageDto {
+  return {
+    id: message.id,
+    sender: message.role,
+    content: message.content,
+    createdAt: message.created_at.toISOString(),
+    deliveredAt: message.delivered_at?.toISOString() ?? null,
+    readAt: message.read_at?.toISOString() ?? null,
+    attachments: (message.attachment ?? []).map(mapAttachment),
+    rich: (message.rich ?? null) as RichContent | null,
+  };
+}
+
+// Fan a message out to the visitor's room, operators watching the session and webhook subscribers
+export function broadcastMessage(io: ChatServer, sessionId: string, message: ChatMessageDto) {
+  recordMessage(message.sender);
+  io.to(sessionId).emit('message', message);
+  operatorNamespace(io).to(sessionId).emit('message', { ...message, sessionId });
+  publishEvent('message.created', { sessionId, message }, { sessionId });
+}
+
+// Typing indicator for the visitor's room and operators watching the session
+export function broadcastTyping(io: ChatServer, sessionId: string, sender: message_role, isTyping: boolean) {
+  io.to(sessionId).emit('typing', { sessionId, sender, isTyping });
+  operatorNamespace(io).to(sessionId).emit('typing', { sessionId, sender, isTyping });
+}
+
+/**
+ * Stamps `delivered_at` (and `read_at` for reads) on the given messages of a
+ * session, limited to the roles the acknowledging side receives. Returns the
+ * ids that changed, oldest first, so repeated acks produce no new receipts.
+ */
+export async function recordReceipts(
+  sessionId: string,
+  messageIds: string[],
+  status: ReceiptStatus,
+  roles: message_role[]
+): Promise<ReceiptEvent | null> {
+  const pending = await prisma.chatMessage.findMany({
+    where: {
+      id: { in: messageIds },
+      session_id: sessionId,
+      role: { in: roles },
+      ...(status === 'read' ? { read_at: null } : { delivered_at: null }),
+    },
+    select: { id: true },
+    orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+  });
+  if (!pending.length) return null;
+
+  const ids = pending.map((message) => message.id);
+  const at = new Date();
+  await prisma.chatMessage.updateMany({ where: { id: { in: ids }, delivered_at: null }, data: { delivered_at: at } });
+  if (status === 'read') {
+    await prisma.chatMessage.updateMany({ where: { id: { in: ids } }, data: { read_at: at } });
+  }
+  return { sessionId, messageIds: ids, status, at: at.toISOString() };
+}
+
+export async function postSystemMessage(io: ChatServer, sessionId: string, content: string) {
+  const message = await prisma.chatMessage.create({
+    data: {
+      session_id: sessionId,
+      role: message_role.SYSTEM,
+      content,
+    },
+  });
+
+  const dto = mapMessage(message);
+  broadcastMessage(io, sessionId, dto);
+  return dto;
+}
+
+export interface DeliverBotReplyOptions {
+  /** Id for the stored message; must match the id of any streamed `message_delta` events */
+  messageId?: string;
+  /** Replays with the same key return the original message instead of storing a duplicate */
+  idempotencyKey?: string;
+}
+
+function findByIdempotencyKey(sessionId: string, idempotencyKey: string) {
+  return prisma.chatMessage.findFirst({
+    where: { session_id: sessionId, idempotency_key: idempotencyKey },
+  });
+}
+
+/** Persists a bot reply and pushes it to the session room. */
+export async function deliverBotReply(
+  io: ChatServer,
+  sessionId: string,
+  reply: BotReply,
+  { messageId, idempotencyKey }: DeliverBotReplyOptions = {}
+): Promise<{ message: ChatMessageDto; duplicate: boolean }> {
+  if (idempotencyKey) {
+    const existing = await findByIdempotencyKey(sessionId, idempotencyKey);
+    if (existing) return { message: mapMessage(existing), duplicate: true };
+  }
+
+  let botMessage;
+  try {
+    botMessage = await prisma.chatMessage.create({
+      data: {
+        ...(messageId ? { id: messageId } : {}),
+        session_id: sessionId,
+        role: message_role.BOT,
+        content: reply.output,
+        ...(reply.blocks ? { rich: { blocks: reply.blocks } as unknown as Prisma.InputJsonValue } : {}),
+        idempotency_key: idempotencyKey,
+      },
+    });
+  } catch (error) {
+    // A concurrent retry with the same key won the insert
+    if (idempotencyKey && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const existing = await findByIdempotencyKey(sessionId, idempotencyKey);
+      if (existing) return { message: mapMessage(existing), duplicate: true };
+    }
+    throw error;
+  }
+
+  const dto = mapMessage(botMessage);
+  io.to(sessionId).emit('message_complete', dto);
+  broadcastMessage(io, sessionId, dto);
+  logger.info(`📤 AI response sent: "${reply.output.substring(0, 50)}..."`);
+
+  if (reply.lead) {
+    await captureLead(sessionId, reply.lead).catch((error) => logger.error('Failed to store lead from n8n', error));
+  }
+  return { message: dto, duplicate: false };
+}
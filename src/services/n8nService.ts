@@ -1,7 +1,14 @@
 import axios from 'axios';
+import type { Readable } from 'stream';
 import type { message_role } from '@prisma/client';
 import logger from '../utils/logger';
 import { env } from '../config/env';
+import { sharedCircuitBreaker } from '../utils/circuitBreaker';
+import { correlationHeaders } from '../utils/correlation';
+import { extractLead, type LeadData } from './contactService';
+import { extractRichBlocks, type RichBlock, type RichResponse } from './richMessageService';
+import type { AttachmentDto } from '../types/socket';
+import type { BotProvider } from './botProviderService';
 
 export interface N8nHistoryEntry {
   sender: message_role;
@@ -13,37 +20,209 @@ export interface N8nPayload {
   sessionId: string;
   message: string;
   history: N8nHistoryEntry[];
+  /** Files sent with this message; URLs are signed download links (see PUBLIC_BASE_URL) */
+  attachments?: AttachmentDto[];
+  /** Set when the visitor clicked a quick reply or submitted a form; `message` holds its text */
+  response?: RichResponse;
   metadata?: Record<string, unknown>;
 }
 
-export const sendToN8n = async (payload: N8nPayload): Promise<string> => {
+export interface N8nReply {
+  output: string;
+  /** Structured lead data (`lead` or `contact` in the n8n response) */
+  lead?: LeadData;
+  /** Quick replies, buttons, cards and forms (`blocks` in the n8n response) */
+  blocks?: RichBlock[];
+}
+
+/** Where a chat turn is sent: the deployment default, or a tenant widget's own workflow */
+export interface N8nTarget {
+  webhookUrl: string;
+  timeoutMs: number;
+}
+
+export interface N8nRequestOptions {
+  /** Called with each partial chunk of text when n8n streams its response */
+  onDelta?: (delta: string) => void;
+  /** Defaults to N8N_WEBHOOK_URL / N8N_TIMEOUT_MS */
+  target?: N8nTarget;
+}
+
+export const defaultN8nTarget: N8nTarget = {
+  webhookUrl: env.n8nWebhookUrl,
+  timeoutMs: env.n8nTimeoutMs,
+};
+
+// A reply made only of blocks has no text rather than its JSON dumped into the chat
+function extractOutput(data: unknown): string {
+  if (typeof data === 'string') return data;
+  if (!data || typeof data !== 'object') return JSON.stringify(data) ?? '';
+
+  const source = data as Record<string, unknown>;
+  const output = source.output ?? source.text ?? source.message;
+  if (typeof output === 'string') return output;
+  if (output !== undefined && output !== null) return JSON.stringify(output);
+  return source.blocks ? '' : JSON.stringify(data);
+}
+
+/** Maps an n8n-style JSON body (`output` / `text` / `message`, `lead`, `blocks`) onto a reply */
+export function toReply(data: unknown): N8nReply {
+  return { output: extractOutput(data), lead: extractLead(data), blocks: extractRichBlocks(data) };
+}
+
+// n8n streaming emits {"type":"item","content":"..."}; other producers send plain delta objects
+function extractDelta(line: unknown): string | undefined {
+  if (!line || typeof line !== 'object') return undefined;
+  const source = line as Record<string, unknown>;
+  if (source.type) return source.type === 'item' && typeof source.content === 'string' ? source.content : '';
+  const delta = source.delta ?? source.output ?? source.text ?? source.content;
+  return typeof delta === 'string' ? delta : undefined;
+}
+
+/**
+ * Reads a streamed n8n response. Plain-text bodies are relayed chunk by chunk
+ * (chunked HTTP), anything else is treated as newline-delimited JSON. A body
+ * that turns out not to be NDJSON is parsed as a regular JSON response.
+ * The axios timeout stops once headers arrive, so a stream that goes quiet
+ * for `idleTimeoutMs` is destroyed here and the request fails.
+ */
+async function readStream(
+  stream: Readable,
+  contentType: string,
+  onDelta: (delta: string) => void,
+  idleTimeoutMs: number
+): Promise<N8nReply> {
+  const isText = contentType.startsWith('text/');
+  let lead: LeadData | undefined;
+  let blocks: RichBlock[] | undefined;
+  let assembled = '';
+  let rawBody = '';
+  let buffered = '';
+  let streamed = false;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    try {
+      const parsed = JSON.parse(line);
+      lead = extractLead(parsed) ?? lead;
+      blocks = extractRichBlocks(parsed) ?? blocks;
+      const delta = extractDelta(parsed);
+      if (delta === undefined) return;
+      streamed = true;
+      if (delta) {
+        assembled += delta;
+        onDelta(delta);
+      }
+    } catch {
+      // Not NDJSON, fall back to parsing the whole body once the stream ends
+    }
+  };
+
+  let idleTimer: NodeJS.Timeout | undefined;
+  const armIdleTimer = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      stream.destroy(new Error(`n8n stream stalled for ${idleTimeoutMs}ms`));
+    }, idleTimeoutMs);
+  };
+
+  stream.setEncoding('utf8');
+  armIdleTimer();
   try {
-    logger.info(`Sending message to n8n (session=${payload.sessionId})`);
-    logger.info(`n8n URL: ${env.n8nWebhookUrl}`);
-    logger.info(`Payload: ${JSON.stringify({ sessionId: payload.sessionId, chatInput: payload.message, historyLength: payload.history.length })}`);
-
-    const response = await axios.post(
-      env.n8nWebhookUrl,
-      {
-        sessionId: payload.sessionId,
-        chatInput: payload.message,
-        history: payload.history,
-        metadata: payload.metadata ?? null,
-      },
-      { timeout: 60000 } // 60s timeout for long-running AI responses
-    );
-
-    const data = response.data;
-    const output =
-      data?.output ??
-      data?.text ??
-      data?.message ??
-      (typeof data === 'string' ? data : JSON.stringify(data));
-
-    return output;
-  } catch (error) {
-    const errMsg = error instanceof Error ? error.message : String(error);
-    logger.error(`Error connecting to n8n: ${errMsg}`);
-    return "I'm having trouble connecting to my brain right now. Please try again shortly.";
+    for await (const chunk of stream as AsyncIterable<string>) {
+      armIdleTimer();
+      rawBody += chunk;
+      if (isText) {
+        assembled += chunk;
+        onDelta(chunk);
+        continue;
+      }
+
+      buffered += chunk;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+  } finally {
+    clearTimeout(idleTimer);
+  }
+  if (!isText) handleLine(buffered);
+
+  if (isText || streamed) return { output: assembled, lead, blocks };
+
+  try {
+    return toReply(JSON.parse(rawBody));
+  } catch {
+    return { output: rawBody };
   }
-};
\ No newline at end of file
+}
+
+function n8nProviderName(webhookUrl: string): string {
+  return webhookUrl === env.n8nWebhookUrl ? 'n8n' : `n8n:${new URL(webhookUrl).host}`;
+}
+
+/**
+ * One breaker per webhook URL, shared by live requests and the retry worker so
+ * a dead webhook fails fast everywhere without tripping other tenants' bots.
+ */
+export function n8nCircuitFor(webhookUrl: string) {
+  return sharedCircuitBreaker(`n8n:${webhookUrl}`, {
+    name: n8nProviderName(webhookUrl),
+    failureThreshold: env.n8nCircuitFailureThreshold,
+    resetTimeoutMs: env.n8nCircuitResetSeconds * 1000,
+  });
+}
+
+/**
+ * Sends a chat turn to the n8n webhook. Throws when n8n is unreachable or the
+ * circuit is open; callers are expected to queue the turn for retry.
+ */
+export const sendToN8n = async (payload: N8nPayload, options: N8nRequestOptions = {}): Promise<N8nReply> => {
+  const streaming = env.n8nStreaming && !!options.onDelta;
+  const { webhookUrl, timeoutMs } = options.target ?? defaultN8nTarget;
+
+  return n8nCircuitFor(webhookUrl).exec(async () => {
+    try {
+      logger.info(`Sending message to n8n (session=${payload.sessionId}, streaming=${streaming})`);
+      logger.info(`n8n URL: ${webhookUrl}`);
+      logger.info(`Payload: ${JSON.stringify({ sessionId: payload.sessionId, chatInput: payload.message, historyLength: payload.history.length })}`);
+
+      const response = await axios.post(
+        webhookUrl,
+        {
+          sessionId: payload.sessionId,
+          chatInput: payload.message,
+          history: payload.history,
+          ...(payload.attachments ? { attachments: payload.attachments } : {}),
+          ...(payload.response ? { response: payload.response } : {}),
+          metadata: payload.metadata ?? null,
+        },
+        {
+          headers: correlationHeaders(),
+          timeout: timeoutMs, // generous by default for long-running AI responses
+          responseType: streaming ? 'stream' : 'json',
+        }
+      );
+
+      if (streaming && options.onDelta) {
+        const contentType = String(response.headers['content-type'] ?? '').toLowerCase();
+        return await readStream(response.data as Readable, contentType, options.onDelta, timeoutMs);
+      }
+
+      return toReply(response.data);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.error(`Error connecting to n8n: ${errMsg}`);
+      throw error;
+    }
+  });
+};
+
+/** The n8n webhook as a bot provider; replies stream when N8N_STREAMING is enabled */
+export function createN8nProvider(target: N8nTarget): BotProvider {
+  return {
+    name: n8nProviderName(target.webhookUrl),
+    isAvailable: () => !n8nCircuitFor(target.webhookUrl).isOpen(),
+    reply: (request, options = {}) => sendToN8n(request, { ...options, target }),
+  };
+}
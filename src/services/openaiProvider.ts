@@ -0,0 +1,155 @@
+import axios from 'axios';
+import type { Readable } from 'stream';
+import { message_role } from '@prisma/client';
+import { env, type OpenAiEnvConfig } from '../config/env';
+import { sharedCircuitBreaker } from '../utils/circuitBreaker';
+import logger from '../utils/logger';
+import { isHttpUrl } from '../utils/query';
+import type { BotProvider, BotProviderConfig, BotRequest } from './botProviderService';
+
+export type OpenAiOverrides = Partial<OpenAiEnvConfig> & {
+  temperature?: number;
+  maxTokens?: number;
+};
+
+type ChatCompletionMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+const MAX_PROMPT_LENGTH = 8000;
+
+// The model only sees text, so attachments are described with their signed links
+function userTurn(request: BotRequest): string {
+  const files = (request.attachments ?? []).map(
+    (attachment) => `[Attachment: ${attachment.fileName} (${attachment.mimeType}) ${attachment.url}]`
+  );
+  return [request.message, ...files].filter(Boolean).join('\n');
+}
+
+function toMessages(systemPrompt: string | undefined, request: BotRequest): ChatCompletionMessage[] {
+  const messages: ChatCompletionMessage[] = systemPrompt ? [{ role: 'system', content: systemPrompt }] : [];
+  for (const entry of request.history) {
+    if (entry.sender === message_role.USER) messages.push({ role: 'user', content: entry.content });
+    if (entry.sender === message_role.BOT || entry.sender === message_role.AGENT) {
+      messages.push({ role: 'assistant', content: entry.content });
+    }
+  }
+
+  // History already ends with the visitor message being answered; replace it with the full turn
+  const last = messages[messages.length - 1];
+  if (last?.role === 'user' && last.content === request.message) messages.pop();
+  messages.push({ role: 'user', content: userTurn(request) });
+  return messages;
+}
+
+/** Reads a server-sent events body of `chat.completion.chunk` objects */
+async function readStream(stream: Readable, onDelta: (delta: string) => void): Promise<string> {
+  let assembled = '';
+  let buffered = '';
+
+  const handleLine = (line: string) => {
+    const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+    if (!data || data === '[DONE]') return;
+    try {
+      const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+      if (typeof delta === 'string' && delta) {
+        assembled += delta;
+        onDelta(delta);
+      }
+    } catch {
+      // Keep-alive comments and partial events carry no text
+    }
+  };
+
+  stream.setEncoding('utf8');
+  for await (const chunk of stream as AsyncIterable<string>) {
+    buffered += chunk;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffered);
+  return assembled;
+}
+
+/** Validates a widget's openai provider entry; returns a human readable error when invalid */
+export function parseOpenAiOverrides(value: Record<string, unknown>): BotProviderConfig | string {
+  const { baseUrl, apiKey, model, systemPrompt, timeoutMs, temperature, maxTokens } = value;
+  const config: { type: 'openai' } & OpenAiOverrides = { type: 'openai' };
+
+  if (baseUrl !== undefined) {
+    if (!isHttpUrl(baseUrl)) return 'baseUrl must be an http(s) URL';
+    config.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+  if (apiKey !== undefined) {
+    if (typeof apiKey !== 'string' || !apiKey.trim()) return 'apiKey must be a non-empty string';
+    config.apiKey = apiKey.trim();
+  }
+  if (model !== undefined) {
+    if (typeof model !== 'string' || !model.trim()) return 'model must be a non-empty string';
+    config.model = model.trim();
+  }
+  if (systemPrompt !== undefined) {
+    if (typeof systemPrompt !== 'string' || systemPrompt.length > MAX_PROMPT_LENGTH) {
+      return `systemPrompt must be a string of at most ${MAX_PROMPT_LENGTH} characters`;
+    }
+    config.systemPrompt = systemPrompt;
+  }
+  if (timeoutMs !== undefined) {
+    if (typeof timeoutMs !== 'number' || !Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+      return 'timeoutMs must be a positive integer';
+    }
+    config.timeoutMs = timeoutMs;
+  }
+  if (temperature !== undefined) {
+    if (typeof temperature !== 'number' || temperature < 0 || temperature > 2) return 'temperature must be between 0 and 2';
+    config.temperature = temperature;
+  }
+  if (maxTokens !== undefined) {
+    if (typeof maxTokens !== 'number' || !Number.isInteger(maxTokens) || maxTokens <= 0) {
+      return 'maxTokens must be a positive integer';
+    }
+    config.maxTokens = maxTokens;
+  }
+  return config;
+}
+
+/** OpenAI-compatible `POST /chat/completions` (OpenAI, gateways, Ollama, vLLM, ...); streams when the caller relays deltas */
+export function createOpenAiProvider(overrides: OpenAiOverrides): BotProvider {
+  const config = { ...env.openai, ...overrides };
+  const name = `openai:${config.model}`;
+  const circuit = sharedCircuitBreaker(`openai:${config.baseUrl}`, {
+    name: `openai:${new URL(config.baseUrl).host}`,
+    failureThreshold: env.n8nCircuitFailureThreshold,
+    resetTimeoutMs: env.n8nCircuitResetSeconds * 1000,
+  });
+
+  return {
+    name,
+    isAvailable: () => !circuit.isOpen(),
+    reply: (request, { onDelta } = {}) =>
+      circuit.exec(async () => {
+        logger.info(`Sending message to ${name} (session=${request.sessionId}, streaming=${!!onDelta})`);
+        const response = await axios.post(
+          `${config.baseUrl}/chat/completions`,
+          {
+            model: config.model,
+            messages: toMessages(config.systemPrompt, request),
+            ...(config.temperature !== undefined ? { temperature: config.temperature } : {}),
+            ...(config.maxTokens !== undefined ? { max_tokens: config.maxTokens } : {}),
+            stream: !!onDelta,
+            user: request.sessionId,
+          },
+          {
+            headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+            timeout: config.timeoutMs,
+            responseType: onDelta ? 'stream' : 'json',
+          }
+        );
+
+        const output = onDelta
+          ? await readStream(response.data as Readable, onDelta)
+          : response.data?.choices?.[0]?.message?.content;
+        if (typeof output !== 'string' || !output) throw new Error('Chat completion response has no message content');
+        return { output };
+      }),
+  };
+}
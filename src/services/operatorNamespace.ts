@@ -0,0 +1,252 @@
+import { chat_session_status, message_role } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import logger from '../utils/logger';
+import { resolveCredential } from './authService';
+import {
+  broadcastMessage,
+  getHistory,
+  mapMessage,
+  operatorNamespace,
+  postSystemMessage,
+  recordReceipts,
+} from './messageService';
+import { operatorEventSchemas, parsePayload } from './socketSchemas';
+import { tenantScope } from './tenantService';
+import type { ChatServer, OperatorSessionDto, OperatorSocket, ReceiptStatus } from '../types/socket';
+
+/**
+ * Operator namespace for human support staff. Agents authenticate with an
+ * ADMIN or AGENT API key, claim a session to pause the bot and reply as AGENT.
+ * The key is the agent's identity, so each agent needs a key of their own.
+ */
+export function registerOperatorNamespace(io: ChatServer) {
+  const operators = operatorNamespace(io);
+
+  operators.use(async (socket, next) => {
+    try {
+      const auth = await resolveCredential(socket.handshake.auth?.apiKey as string | undefined);
+      if (!auth || auth.kind === 'widget') {
+        logger.warn('❌ Operator socket rejected: invalid API key');
+        return next(new Error('Invalid credentials'));
+      }
+      // API_SECRET is shared, so it can't tell agents apart: claims and releases are keyed by agent id
+      if (!auth.keyId) {
+        logger.warn('❌ Operator socket rejected: API_SECRET is not a per-agent key');
+        return next(new Error('Operators need their own API key (POST /api/keys)'));
+      }
+
+      socket.data.auth = auth;
+      socket.data.agentId = auth.keyId;
+      socket.data.agentName = (socket.handshake.auth?.name as string | undefined) || auth.keyName;
+      socket.data.heldSessions = [];
+      next();
+    } catch (error) {
+      logger.error('Operator authentication failed', error);
+      next(new Error('Authentication failed'));
+    }
+  });
+
+  operators.on('connection', (socket) => {
+    logger.info(`🎧 Operator connected: ${socket.data.agentName} (${socket.id})`);
+
+    socket.on('listSessions', async () => {
+      try {
+        const sessions = await prisma.chatSession.findMany({
+          where: { ...tenantScope(socket.data.auth), status: chat_session_status.ACTIVE },
+          orderBy: { last_active_at: 'desc' },
+          take: 100,
+        });
+        socket.emit('sessions', { sessions: sessions.map(mapSession) });
+      } catch (error) {
+        logger.error('Failed to list sessions for operator', error);
+        socket.emit('error', { message: 'Unable to list sessions.' });
+      }
+    });
+
+    socket.on('joinSession', async (rawPayload) => {
+      const payload = parsePayload(socket, operatorEventSchemas.joinSession, rawPayload);
+      if (payload) await handleJoin(io, socket, payload.sessionId);
+    });
+
+    socket.on('leaveSession', async (rawPayload) => {
+      const payload = parsePayload(socket, operatorEventSchemas.leaveSession, rawPayload);
+      if (payload) await handleLeave(io, socket, payload.sessionId);
+    });
+
+    socket.on('message', async (rawPayload) => {
+      const payload = parsePayload(socket, operatorEventSchemas.message, rawPayload);
+      if (!payload) return;
+      const { sessionId, content: text } = payload;
+
+      try {
+        const session = await prisma.chatSession.findUnique({
+          where: { id: sessionId },
+          select: { status: true, agent_id: true },
+        });
+        if (!session || session.status === chat_session_status.CLOSED) {
+          socket.emit('error', { message: 'Session is closed.' });
+          return;
+        }
+        if (session.agent_id !== socket.data.agentId) {
+          socket.emit('error', { message: 'Join the session before replying.' });
+          return;
+        }
+
+        const agentMessage = await prisma.chatMessage.create({
+          data: {
+            session_id: sessionId,
+            role: message_role.AGENT,
+            content: text,
+          },
+        });
+        await prisma.chatSession.update({
+          where: { id: sessionId },
+          data: { last_active_at: new Date() },
+        });
+
+        broadcastMessage(io, sessionId, mapMessage(agentMessage));
+        logger.info(`📤 Agent ${socket.data.agentName} replied in session ${sessionId}`);
+      } catch (error) {
+        logger.error('Error handling operator message', error);
+        socket.emit('error', { message: 'Unable to send message right now. Please try again.' });
+      }
+    });
+
+    // Typing and receipts only reach visitors of sessions the agent holds
+    socket.on('typing', (rawPayload) => {
+      const payload = parsePayload(socket, operatorEventSchemas.typing, rawPayload);
+      if (!payload) return;
+      const { sessionId, isTyping } = payload;
+      if (!socket.data.heldSessions?.includes(sessionId)) return;
+      io.to(sessionId).emit('typing', {
+        sessionId,
+        sender: message_role.AGENT,
+        isTyping,
+        name: socket.data.agentName,
+      });
+    });
+
+    socket.on('delivered', async (payload) => {
+      await handleReceipt(io, socket, 'delivered', payload);
+    });
+
+    socket.on('read', async (payload) => {
+      await handleReceipt(io, socket, 'read', payload);
+    });
+
+    // Hand every held session back to the bot when the operator drops
+    socket.on('disconnect', async () => {
+      logger.info(`🎧 Operator disconnected: ${socket.data.agentName} (${socket.id})`);
+      for (const sessionId of [...(socket.data.heldSessions ?? [])]) {
+        await handleLeave(io, socket, sessionId);
+      }
+    });
+  });
+}
+
+async function handleJoin(io: ChatServer, socket: OperatorSocket, sessionId: string) {
+  if (!sessionId) return;
+
+  try {
+    const agentId = socket.data.agentId as string;
+    const existing = await prisma.chatSession.findUnique({
+      where: { id: sessionId },
+      select: { agent_id: true },
+    });
+
+    // Claim atomically so two agents can't take over the same session (or one outside their tenant)
+    const claimed = await prisma.chatSession.updateMany({
+      where: {
+        ...tenantScope(socket.data.auth),
+        id: sessionId,
+        status: { not: chat_session_status.CLOSED },
+        OR: [{ agent_id: null }, { agent_id: agentId }],
+      },
+      data: { agent_id: agentId, agent_name: socket.data.agentName, agent_since: new Date() },
+    });
+    if (!claimed.count) {
+      socket.emit('error', { message: 'Session is closed or already held by another agent.' });
+      return;
+    }
+
+    socket.join(sessionId);
+    if (!socket.data.heldSessions?.includes(sessionId)) {
+      socket.data.heldSessions = [...(socket.data.heldSessions ?? []), sessionId];
+    }
+
+    socket.emit('joined', { sessionId, messages: await getHistory(sessionId) });
+
+    if (existing?.agent_id !== agentId) {
+      await postSystemMessage(io, sessionId, `${socket.data.agentName} has joined the chat.`);
+    }
+    logger.info(`🙋 Agent ${socket.data.agentName} took over session ${sessionId}`);
+  } catch (error) {
+    logger.error('Error joining session', error);
+    socket.emit('error', { message: 'Unable to join session.' });
+  }
+}
+
+async function handleLeave(io: ChatServer, socket: OperatorSocket, sessionId: string) {
+  if (!sessionId) return;
+
+  try {
+    socket.data.heldSessions = (socket.data.heldSessions ?? []).filter((id) => id !== sessionId);
+    socket.leave(sessionId);
+
+    const released = await prisma.chatSession.updateMany({
+      where: { id: sessionId, agent_id: socket.data.agentId },
+      data: { agent_id: null, agent_name: null, agent_since: null },
+    });
+
+    if (released.count) {
+      await postSystemMessage(
+        io,
+        sessionId,
+        `${socket.data.agentName} has left the chat. Our assistant will continue helping you.`
+      );
+      logger.info(`🤖 Session ${sessionId} handed back to the bot by ${socket.data.agentName}`);
+    }
+
+    socket.emit('left', { sessionId });
+  } catch (error) {
+    logger.error('Error leaving session', error);
+    socket.emit('error', { message: 'Unable to leave session.' });
+  }
+}
+
+// Agents acknowledge the visitor's messages; the widget shows them as "Delivered" / "Seen"
+async function handleReceipt(io: ChatServer, socket: OperatorSocket, status: ReceiptStatus, rawPayload: unknown) {
+  const payload = parsePayload(socket, operatorEventSchemas[status], rawPayload);
+  if (!payload) return;
+  const { sessionId, messageIds } = payload;
+  if (!socket.data.heldSessions?.includes(sessionId)) return;
+
+  try {
+    const receipt = await recordReceipts(sessionId, messageIds, status, [message_role.USER]);
+    if (receipt) io.to(sessionId).emit('receipt', receipt);
+  } catch (error) {
+    logger.warn(`Failed to record ${status} receipt`, error as Error);
+  }
+}
+
+function mapSession(session: {
+  id: string;
+  visitor_id: string;
+  status: chat_session_status;
+  metadata: unknown;
+  created_at: Date;
+  last_active_at: Date;
+  agent_id: string | null;
+  agent_name: string | null;
+}): OperatorSessionDto {
+  return {
+    id: session.id,
+    visitorId: session.visitor_id,
+    status: session.status,
+    metadata: session.metadata,
+    createdAt: session.created_at.toISOString(),
+    lastActiveAt: session.last_active_at.toISOString(),
+    agentId: session.agent_id,
+    agentName: session.agent_name,
+  };
+}
@@ -0,0 +1,227 @@
+import { schedule, ScheduledTask } from 'node-cron';
+import { chat_session_status, outbound_job_status, outbound_job_type, Prisma, type OutboundJob } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { env } from '../config/env';
+import { getCorrelationId, withCorrelationId } from '../utils/correlation';
+import logger from '../utils/logger';
+import { getBotProviders, replyWithFailover, type BotProvider, type BotRequest } from './botProviderService';
+import { runSessionCloseout } from './closeoutService';
+import { deliverBotReply } from './messageService';
+import type { ChatServer } from '../types/socket';
+
+export interface BotReplyJobPayload {
+  /** Id the bot message will be stored under (matches any streamed deltas) */
+  messageId: string;
+  request: BotRequest;
+  /** Id of the visitor turn that queued the reply, restored when it is retried */
+  correlationId?: string;
+}
+
+const BATCH_SIZE = 10;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+// PROCESSING jobs older than this belonged to a worker that died mid-flight
+const STALE_PROCESSING_MINUTES = 5;
+
+export function retryDelayMs(attempts: number): number {
+  const base = env.n8nRetryBaseSeconds * 1000 * 2 ** Math.max(attempts - 1, 0);
+  const jitter = Math.random() * 0.2 * base;
+  return Math.min(base + jitter, MAX_BACKOFF_MS);
+}
+
+export async function enqueueBotReply(sessionId: string, payload: BotReplyJobPayload, error: unknown) {
+  const lastError = error instanceof Error ? error.message : String(error);
+  const job = await prisma.outboundJob.create({
+    data: {
+      type: outbound_job_type.BOT_REPLY,
+      session_id: sessionId,
+      payload: { ...payload, correlationId: getCorrelationId() } as unknown as Prisma.InputJsonValue,
+      max_attempts: env.n8nRetryMaxAttempts,
+      attempts: 1,
+      next_attempt_at: new Date(Date.now() + retryDelayMs(1)),
+      last_error: lastError,
+    },
+  });
+  logger.warn(`⏳ Queued bot reply for session ${sessionId} (job=${job.id}): ${lastError}`);
+  return job;
+}
+
+async function claimDueJobs(): Promise<OutboundJob[]> {
+  const claimed = await prisma.$queryRaw<{ id: string }[]>`
+    UPDATE outbound_job
+    SET status = 'PROCESSING', updated_at = now()
+    WHERE id IN (
+      SELECT id FROM outbound_job
+      WHERE (status = 'PENDING' AND next_attempt_at <= now())
+         OR (status = 'PROCESSING' AND updated_at < now() - make_interval(mins => ${STALE_PROCESSING_MINUTES}))
+      ORDER BY next_attempt_at
+      LIMIT ${BATCH_SIZE}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id`;
+
+  if (!claimed.length) return [];
+  return prisma.outboundJob.findMany({
+    where: { id: { in: claimed.map((row) => row.id) } },
+    orderBy: { next_attempt_at: 'asc' },
+  });
+}
+
+// The reply is stored under the job's message id, so a duplicate primary key means it was delivered before
+function isDeliveredMessage(error: unknown): boolean {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') return false;
+  const target = error.meta?.target;
+  return Array.isArray(target) ? target.includes('id') : String(target).endsWith('pkey');
+}
+
+/**
+ * A worker that died after storing the reply leaves the job PROCESSING; when
+ * it is reclaimed (or replayed) the stored message counts as delivered
+ * instead of asking the bot again.
+ */
+async function processBotReply(io: ChatServer, job: OutboundJob, providers: BotProvider[]) {
+  const payload = job.payload as unknown as BotReplyJobPayload;
+  const delivered = await prisma.chatMessage.findUnique({ where: { id: payload.messageId }, select: { id: true } });
+  if (delivered) {
+    logger.info(`⏭️ Reply of job ${job.id} was already delivered as message ${payload.messageId}`);
+    return;
+  }
+
+  const reply = await replyWithFailover(providers, payload.request);
+  try {
+    await deliverBotReply(io, job.session_id, reply, { messageId: payload.messageId });
+  } catch (error) {
+    if (!isDeliveredMessage(error)) throw error;
+    logger.info(`⏭️ Reply of job ${job.id} was delivered concurrently as message ${payload.messageId}`);
+  }
+}
+
+// Pushes a job back without spending an attempt while every provider's circuit is open
+async function deferJob(job: OutboundJob) {
+  await prisma.outboundJob.update({
+    where: { id: job.id },
+    data: {
+      status: outbound_job_status.PENDING,
+      next_attempt_at: new Date(Date.now() + env.n8nCircuitResetSeconds * 1000),
+    },
+  });
+}
+
+async function failJob(io: ChatServer, job: OutboundJob, error: unknown) {
+  const lastError = error instanceof Error ? error.message : String(error);
+  const attempts = job.attempts + 1;
+
+  if (attempts >= job.max_attempts) {
+    await prisma.outboundJob.update({
+      where: { id: job.id },
+      data: { status: outbound_job_status.DEAD, attempts, last_error: lastError },
+    });
+    logger.error(`💀 Job ${job.id} moved to dead-letter after ${attempts} attempts: ${lastError}`);
+    if (job.type !== outbound_job_type.BOT_REPLY) return;
+
+    const session = await prisma.chatSession.findUnique({ where: { id: job.session_id }, select: { status: true } });
+    if (session) {
+      io.to(job.session_id).emit('status', {
+        status: session.status,
+        reply: 'FAILED',
+        message: "Sorry, we couldn't get a reply to your last message. Our team has been notified.",
+      });
+    }
+    return;
+  }
+
+  await prisma.outboundJob.update({
+    where: { id: job.id },
+    data: {
+      status: outbound_job_status.PENDING,
+      attempts,
+      last_error: lastError,
+      next_attempt_at: new Date(Date.now() + retryDelayMs(attempts)),
+    },
+  });
+  logger.warn(`🔁 Job ${job.id} failed (attempt ${attempts}/${job.max_attempts}): ${lastError}`);
+}
+
+async function runJob(io: ChatServer, job: OutboundJob) {
+  try {
+    if (job.type === outbound_job_type.BOT_REPLY) {
+      const session = await prisma.chatSession.findUnique({
+        where: { id: job.session_id },
+        select: { widget_id: true, status: true, agent_id: true },
+      });
+      // A late bot answer after the chat ended or a human took over would talk over them
+      if (!session || session.status === chat_session_status.CLOSED || session.agent_id) {
+        const reason = !session ? 'gone' : session.agent_id ? 'held by an agent' : 'closed';
+        logger.info(`⏭️ Dropping bot reply job ${job.id}: session ${job.session_id} is ${reason}`);
+      } else {
+        // Each session replays against its own widget's providers
+        const providers = await getBotProviders(session.widget_id);
+
+        // Leave jobs untouched while all of them are known to be down
+        if (!providers.some((provider) => provider.isAvailable())) {
+          await deferJob(job);
+          return;
+        }
+        await processBotReply(io, job, providers);
+      }
+    } else if (job.type === outbound_job_type.SESSION_CLOSEOUT) {
+      await runSessionCloseout(job.session_id);
+    }
+    await prisma.outboundJob.update({
+      where: { id: job.id },
+      data: { status: outbound_job_status.SUCCEEDED, completed_at: new Date(), attempts: job.attempts + 1 },
+    });
+    logger.info(`✅ Job ${job.id} delivered after ${job.attempts + 1} attempt(s)`);
+  } catch (error) {
+    await failJob(io, job, error);
+  }
+}
+
+/** One pass of the outbound worker: claims due jobs and runs them one by one */
+export async function runDueJobs(io: ChatServer): Promise<void> {
+  const jobs = await claimDueJobs();
+  for (const job of jobs) {
+    // Jobs keep the id of the turn or request that queued them (a fresh one for the cleanup job's)
+    const { correlationId } = (job.payload ?? {}) as { correlationId?: string };
+    await withCorrelationId(correlationId, () => runJob(io, job));
+  }
+}
+
+export function startOutboundWorker(io: ChatServer): ScheduledTask {
+  let running = false;
+
+  return schedule('*/5 * * * * *', async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDueJobs(io);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.stack || error.message : String(error);
+      logger.error(`Outbound worker failed: ${errMsg}`);
+    } finally {
+      running = false;
+    }
+  });
+}
+
+export async function listJobs(status: outbound_job_status, take = 50, tenantId?: string) {
+  return prisma.outboundJob.findMany({
+    where: { status, ...(tenantId ? { chat_session: { tenant_id: tenantId } } : {}) },
+    orderBy: { updated_at: 'desc' },
+    take: Math.min(take, 200),
+  });
+}
+
+/** Puts a dead-lettered job back in the queue with a fresh retry budget */
+export async function replayJob(id: string, tenantId?: string): Promise<OutboundJob | null> {
+  const result = await prisma.outboundJob.updateMany({
+    where: { id, status: outbound_job_status.DEAD, ...(tenantId ? { chat_session: { tenant_id: tenantId } } : {}) },
+    data: {
+      status: outbound_job_status.PENDING,
+      attempts: 0,
+      next_attempt_at: new Date(),
+    },
+  });
+  if (!result.count) return null;
+  logger.info(`♻️ Job ${id} replayed from dead-letter`);
+  return prisma.outboundJob.findUnique({ where: { id } });
+}
@@ -0,0 +1,144 @@
+import { createClient } from 'redis';
+import { env } from '../config/env';
+import logger from '../utils/logger';
+
+export type RateLimitRule = keyof typeof env.rateLimits;
+
+export interface RateLimitCheck {
+  rule: RateLimitRule;
+  key: string;
+}
+
+export type RateLimitResult = { allowed: true } | { allowed: false; rule: RateLimitRule; retryAfterSeconds: number };
+
+export interface RateLimitStore {
+  /** Counts a hit in the fixed window for `key`, returning the new count and when the window resets */
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+}
+
+export class RateLimitError extends Error {
+  constructor(readonly rule: RateLimitRule, readonly retryAfterSeconds: number) {
+    super(`Rate limit exceeded (${rule}), retry in ${retryAfterSeconds}s`);
+    this.name = 'RateLimitError';
+  }
+}
+
+export function createMemoryStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  // Drop expired windows so idle visitors don't accumulate forever
+  const pruneTimer = setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  }, 60_000);
+  pruneTimer.unref();
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      const current = windows.get(key);
+      if (!current || current.resetAt <= now) {
+        const fresh = { count: 1, resetAt: now + windowMs };
+        windows.set(key, fresh);
+        return fresh;
+      }
+      current.count += 1;
+      return current;
+    },
+  };
+}
+
+/** The part of the Redis client the store needs */
+export interface RedisCounterClient {
+  readonly isReady: boolean;
+  eval(script: string, options: { keys: string[]; arguments: string[] }): Promise<unknown>;
+}
+
+// Counts, starts the window on the first hit and reads the TTL atomically. Plain
+// commands only, so it runs on Redis 6 (PEXPIRE NX needs 7). A key that lost its
+// expiry gets one again instead of counting forever.
+const INCREMENT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then redis.call('PEXPIRE', KEYS[1], ARGV[1]) end
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return {count, ttl}
+`;
+
+// Counts in `fallback` whenever Redis isn't connected, so a Redis outage never stalls or crashes requests
+export function createRedisStore(client: RedisCounterClient, fallback: RateLimitStore): RateLimitStore {
+  return {
+    async increment(key, windowMs) {
+      if (!client.isReady) return fallback.increment(key, windowMs);
+      const reply = await client.eval(INCREMENT_SCRIPT, {
+        keys: [`ratelimit:${key}`],
+        arguments: [String(windowMs)],
+      });
+      if (!Array.isArray(reply) || reply.length !== 2 || !reply.every((value) => typeof value === 'number')) {
+        throw new Error(`Unexpected rate limit script reply: ${JSON.stringify(reply)}`);
+      }
+      const [count, ttl] = reply as number[];
+      return { count, resetAt: Date.now() + ttl };
+    },
+  };
+}
+
+function connectRedis(url: string): RedisCounterClient {
+  const client = createClient({ url });
+  client.on('error', (error) => logger.error('Rate limit Redis client error', error));
+  client.connect().catch((error: unknown) => {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.warn(`⚠️ Rate limit Redis unavailable, counting in memory: ${errMsg}`);
+  });
+  return client;
+}
+
+const store: RateLimitStore =
+  env.rateLimitStore === 'redis' && env.redisUrl
+    ? createRedisStore(connectRedis(env.redisUrl), createMemoryStore())
+    : createMemoryStore();
+
+/**
+ * Counts one hit against every check and rejects when any limit is exceeded.
+ * Limits set to 0 are disabled. Store failures fail open so an unavailable
+ * backend never blocks chat traffic.
+ */
+export async function consumeRateLimits(checks: RateLimitCheck[]): Promise<RateLimitResult> {
+  let rejected: { rule: RateLimitRule; retryAfterSeconds: number } | undefined;
+
+  for (const { rule, key } of checks) {
+    const { limit, windowSeconds } = env.rateLimits[rule];
+    if (!limit || !key) continue;
+
+    try {
+      const { count, resetAt } = await store.increment(`${rule}:${key}`, windowSeconds * 1000);
+      if (count > limit) {
+        const retryAfterSeconds = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+        if (!rejected || retryAfterSeconds > rejected.retryAfterSeconds) {
+          rejected = { rule, retryAfterSeconds };
+        }
+      }
+    } catch (error) {
+      logger.warn(`Rate limit store unavailable for ${rule}, allowing request`, error as Error);
+    }
+  }
+
+  if (rejected) {
+    logger.warn(`🚦 Rate limit ${rejected.rule} exceeded (retry in ${rejected.retryAfterSeconds}s)`);
+    return { allowed: false, ...rejected };
+  }
+  return { allowed: true };
+}
+
+/** Same as `consumeRateLimits` but throws a `RateLimitError` when rejected */
+export async function enforceRateLimits(checks: RateLimitCheck[]): Promise<void> {
+  const result = await consumeRateLimits(checks);
+  if (!result.allowed) {
+    throw new RateLimitError(result.rule, result.retryAfterSeconds);
+  }
+}
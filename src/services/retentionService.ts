@@ -0,0 +1,246 @@
+import { schedule, ScheduledTask } from 'node-cron';
+import {
+  audit_action,
+  chat_session_status,
+  message_role,
+  outbound_job_status,
+  Prisma,
+  type Attachment,
+} from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { withAdvisoryLock } from '../lib/advisoryLock';
+import { getAttachmentStorage } from '../lib/attachmentStorage';
+import { env } from '../config/env';
+import logger from '../utils/logger';
+import { mapMessage } from './messageService';
+import { contactEventData } from './webhookService';
+
+export interface AuditEntry {
+  action: audit_action;
+  actor: string;
+  tenantId?: string | null;
+  visitorId?: string | null;
+  details?: Record<string, unknown>;
+}
+
+/** Who is erasing or exporting, and the tenant their key is bound to */
+export interface DataRequestScope {
+  actor: string;
+  tenantId?: string;
+}
+
+const RETENTION_LOCK = 'chat_middleware:retention_job';
+const RETENTION_ACTOR = 'retention';
+const BATCH_SIZE = 200;
+const ANONYMOUS_VISITOR = 'anonymized';
+const REMOVED_CONTENT = '[removed]';
+
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  await prisma.auditLog.create({
+    data: {
+      action: entry.action,
+      actor: entry.actor,
+      tenant_id: entry.tenantId ?? null,
+      visitor_id: entry.visitorId ?? null,
+      details: (entry.details ?? {}) as Prisma.InputJsonObject,
+    },
+  });
+}
+
+// Bytes are removed once the rows are gone; a failure leaves an orphaned file, never a dangling row
+async function deleteStoredFiles(attachments: Pick<Attachment, 'id' | 'storage_key'>[]) {
+  const storage = getAttachmentStorage();
+  for (const attachment of attachments) {
+    await storage.delete(attachment.storage_key).catch((error) => {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.warn(`⚠️ Failed to delete stored file of attachment ${attachment.id}: ${errMsg}`);
+    });
+  }
+}
+
+function findVisitorSessions(visitorId: string, tenantId?: string) {
+  return prisma.chatSession.findMany({
+    where: { visitor_id: visitorId, ...(tenantId ? { tenant_id: tenantId } : {}) },
+    orderBy: { created_at: 'asc' },
+    include: {
+      chat_message: { orderBy: { created_at: 'asc' }, include: { attachment: { orderBy: { created_at: 'asc' } } } },
+      contacts: { orderBy: { created_at: 'asc' } },
+    },
+  });
+}
+
+/**
+ * Everything stored about a visitor, for data-access requests: their sessions
+ * with messages and attachment links, and the contacts captured in them.
+ * Returns null when the visitor has no sessions (in the caller's tenant).
+ */
+export async function exportVisitorData(visitorId: string, scope: DataRequestScope) {
+  const sessions = await findVisitorSessions(visitorId, scope.tenantId);
+  if (!sessions.length) return null;
+
+  await recordAudit({
+    action: audit_action.VISITOR_EXPORTED,
+    actor: scope.actor,
+    tenantId: scope.tenantId,
+    visitorId,
+    details: { sessions: sessions.length },
+  });
+  logger.info(`📦 Data of visitor ${visitorId} exported by ${scope.actor}`);
+
+  return {
+    visitorId,
+    exportedAt: new Date().toISOString(),
+    sessions: sessions.map((session) => ({
+      id: session.id,
+      status: session.status,
+      closedReason: session.closed_reason,
+      metadata: session.metadata,
+      summary: session.summary,
+      outcomeTags: session.outcome_tags,
+      createdAt: session.created_at.toISOString(),
+      lastActiveAt: session.last_active_at.toISOString(),
+      messages: session.chat_message.map(mapMessage),
+    })),
+    contacts: sessions.flatMap((session) => session.contacts.map((contact) => contactEventData(contact).contact)),
+  };
+}
+
+/**
+ * Right to erasure: deletes the visitor's sessions (messages, attachments and
+ * queued jobs cascade), the contacts captured in them and the webhook
+ * deliveries that carried their data, then the attachment bytes. Returns the
+ * counts, or null when the visitor has no sessions (in the caller's tenant).
+ */
+export async function eraseVisitor(visitorId: string, scope: DataRequestScope) {
+  const sessions = await prisma.chatSession.findMany({
+    where: { visitor_id: visitorId, ...(scope.tenantId ? { tenant_id: scope.tenantId } : {}) },
+    select: { id: true },
+  });
+  if (!sessions.length) return null;
+
+  const sessionIds = sessions.map((session) => session.id);
+  const attachments = await prisma.attachment.findMany({
+    where: { session_id: { in: sessionIds } },
+    select: { id: true, storage_key: true },
+  });
+
+  const [messages, contacts, webhookDeliveries, deleted] = await prisma.$transaction([
+    prisma.chatMessage.count({ where: { session_id: { in: sessionIds } } }),
+    prisma.contacts.deleteMany({ where: { sessionId: { in: sessionIds } } }),
+    prisma.$executeRaw`
+      DELETE FROM webhook_delivery
+      WHERE payload->'data'->>'sessionId' = ANY(${sessionIds})
+         OR payload->'data'->'session'->>'id' = ANY(${sessionIds})
+         OR payload->'data'->'contact'->>'sessionId' = ANY(${sessionIds})`,
+    prisma.chatSession.deleteMany({ where: { id: { in: sessionIds } } }),
+  ]);
+  await deleteStoredFiles(attachments);
+
+  const details = {
+    sessions: deleted.count,
+    messages,
+    contacts: contacts.count,
+    attachments: attachments.length,
+    webhookDeliveries,
+  };
+  await recordAudit({
+    action: audit_action.VISITOR_ERASED,
+    actor: scope.actor,
+    tenantId: scope.tenantId,
+    visitorId,
+    details,
+  });
+  logger.info(`🗑️ Visitor ${visitorId} erased by ${scope.actor} (${deleted.count} sessions, ${messages} messages)`);
+  return details;
+}
+
+async function purgeSessions(sessionIds: string[]): Promise<number> {
+  const attachments = await prisma.attachment.findMany({
+    where: { session_id: { in: sessionIds } },
+    select: { id: true, storage_key: true },
+  });
+  // Contacts are leads in their own right: they stay, unlinked from the deleted session
+  const deleted = await prisma.chatSession.deleteMany({ where: { id: { in: sessionIds } } });
+  await deleteStoredFiles(attachments);
+  return deleted.count;
+}
+
+// Keeps the conversation's shape for analytics: bot and agent messages, timings and outcome tags
+async function anonymizeSessions(sessionIds: string[]): Promise<number> {
+  const attachments = await prisma.attachment.findMany({
+    where: { session_id: { in: sessionIds } },
+    select: { id: true, storage_key: true },
+  });
+  const [, , , , anonymized] = await prisma.$transaction([
+    prisma.chatMessage.updateMany({
+      where: { session_id: { in: sessionIds }, role: message_role.USER },
+      data: { content: REMOVED_CONTENT, rich: Prisma.DbNull },
+    }),
+    prisma.attachment.deleteMany({ where: { session_id: { in: sessionIds } } }),
+    prisma.outboundJob.deleteMany({ where: { session_id: { in: sessionIds } } }),
+    prisma.contacts.updateMany({ where: { sessionId: { in: sessionIds } }, data: { sessionId: null } }),
+    prisma.chatSession.updateMany({
+      where: { id: { in: sessionIds } },
+      data: { visitor_id: ANONYMOUS_VISITOR, metadata: {}, summary: null, anonymized_at: new Date() },
+    }),
+  ]);
+  await deleteStoredFiles(attachments);
+  return anonymized.count;
+}
+
+/** One retention pass: closed sessions idle for longer than RETENTION_DAYS, in batches */
+export async function applyRetention(): Promise<number> {
+  const cutoff = new Date(Date.now() - env.retentionDays * 24 * 60 * 60 * 1000);
+  const anonymize = env.retentionMode === 'anonymize';
+  let total = 0;
+
+  for (;;) {
+    const sessions = await prisma.chatSession.findMany({
+      where: {
+        status: chat_session_status.CLOSED,
+        last_active_at: { lt: cutoff },
+        ...(anonymize ? { anonymized_at: null } : {}),
+      },
+      select: { id: true },
+      take: BATCH_SIZE,
+    });
+    if (!sessions.length) break;
+
+    const sessionIds = sessions.map((session) => session.id);
+    total += anonymize ? await anonymizeSessions(sessionIds) : await purgeSessions(sessionIds);
+    if (sessions.length < BATCH_SIZE) break;
+  }
+
+  // Finished webhook deliveries hold copies of messages and contacts
+  const deliveries = await prisma.webhookDelivery.deleteMany({
+    where: {
+      created_at: { lt: cutoff },
+      status: { in: [outbound_job_status.SUCCEEDED, outbound_job_status.DEAD] },
+    },
+  });
+
+  if (total || deliveries.count) {
+    await recordAudit({
+      action: anonymize ? audit_action.SESSIONS_ANONYMIZED : audit_action.SESSIONS_PURGED,
+      actor: RETENTION_ACTOR,
+      details: { sessions: total, webhookDeliveries: deliveries.count, retentionDays: env.retentionDays },
+    });
+    logger.info(`🧹 Retention: ${total} sessions ${anonymize ? 'anonymized' : 'purged'}, ${deliveries.count} webhook deliveries deleted`);
+  }
+  return total;
+}
+
+/** Hourly retention pass; only one instance runs it at a time. Does nothing while RETENTION_DAYS is 0 */
+export function startRetentionJob(): ScheduledTask {
+  const task = schedule('17 * * * *', async () => {
+    try {
+      // The lock's transaction only guards the pass; the batches run on their own connections
+      await withAdvisoryLock(RETENTION_LOCK, () => applyRetention(), 10 * 60 * 1000);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.stack || error.message : String(error);
+      logger.error(`Retention job failed: ${errMsg}`);
+    }
+  });
+  if (env.retentionDays <= 0) task.stop();
+  return task;
+}
@@ -0,0 +1,265 @@
+import { message_role } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma';
+import logger from '../utils/logger';
+import { isHttpUrl } from '../utils/query';
+
+export const FORM_FIELD_TYPES = ['text', 'email', 'tel', 'number', 'textarea', 'select'] as const;
+export type FormFieldType = (typeof FORM_FIELD_TYPES)[number];
+
+export interface QuickReply {
+  label: string;
+  /** Sent back when clicked; defaults to the label */
+  value: string;
+}
+
+export interface LinkButton {
+  label: string;
+  url: string;
+}
+
+export interface FormField {
+  name: string;
+  label: string;
+  type: FormFieldType;
+  required: boolean;
+  placeholder?: string;
+  /** Choices of a `select` field */
+  options?: string[];
+}
+
+export type RichBlock =
+  | { type: 'quick_replies'; replies: QuickReply[] }
+  | { type: 'buttons'; buttons: LinkButton[] }
+  | { type: 'card'; title: string; subtitle?: string; imageUrl?: string; buttons?: LinkButton[] }
+  | { type: 'form'; id: string; title?: string; fields: FormField[]; submitLabel?: string };
+
+/** A visitor's answer to a bot message: a clicked quick reply or a submitted form */
+export type RichResponse =
+  | { type: 'quick_reply'; messageId: string; value: string }
+  | { type: 'form'; messageId: string; formId: string; values: Record<string, string> };
+
+/** Stored in `chat_message.rich`: blocks on bot replies, the response on visitor messages */
+export interface RichContent {
+  blocks?: RichBlock[];
+  response?: RichResponse;
+}
+
+const MAX_BLOCKS = 10;
+const MAX_ITEMS = 10;
+const MAX_OPTIONS = 20;
+const MAX_LABEL_LENGTH = 80;
+const MAX_TEXT_LENGTH = 1000;
+const MAX_URL_LENGTH = 2000;
+const IDENTIFIER = /^[A-Za-z][\w-]{0,63}$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isLabel(value: unknown): value is string {
+  return typeof value === 'string' && !!value.trim() && value.length <= MAX_LABEL_LENGTH;
+}
+
+function isOptionalText(value: unknown): value is string | undefined {
+  return value === undefined || (typeof value === 'string' && value.length <= MAX_TEXT_LENGTH);
+}
+
+// Links and images are rendered by the widget, so only http(s) URLs are accepted
+function isLinkUrl(value: unknown): value is string {
+  return isHttpUrl(value) && value.length <= MAX_URL_LENGTH;
+}
+
+function parseItems<T>(value: unknown, name: string, parseItem: (item: unknown) => T | string): T[] | string {
+  if (!Array.isArray(value) || !value.length || value.length > MAX_ITEMS) {
+    return `${name} must be an array of 1 to ${MAX_ITEMS} items`;
+  }
+  const items: T[] = [];
+  for (const [index, item] of value.entries()) {
+    const parsed = parseItem(item);
+    if (typeof parsed === 'string') return `${name}[${index}]: ${parsed}`;
+    items.push(parsed);
+  }
+  return items;
+}
+
+function parseQuickReply(value: unknown): QuickReply | string {
+  if (typeof value === 'string') return isLabel(value) ? { label: value, value } : 'must be a short non-empty string';
+  if (!isPlainObject(value) || !isLabel(value.label)) return 'label must be a short non-empty string';
+  if (value.value !== undefined && (typeof value.value !== 'string' || value.value.length > MAX_TEXT_LENGTH)) {
+    return 'value must be a string';
+  }
+  return { label: value.label, value: (value.value as string | undefined) ?? value.label };
+}
+
+function parseLinkButton(value: unknown): LinkButton | string {
+  if (!isPlainObject(value) || !isLabel(value.label)) return 'label must be a short non-empty string';
+  if (!isLinkUrl(value.url)) return 'url must be an http(s) URL';
+  return { label: value.label, url: value.url };
+}
+
+function parseFormField(value: unknown): FormField | string {
+  if (!isPlainObject(value)) return 'must be an object';
+  const { name, label, type = 'text', required = false, placeholder, options } = value;
+  if (typeof name !== 'string' || !IDENTIFIER.test(name)) return 'name must be an identifier';
+  if (!isLabel(label)) return 'label must be a short non-empty string';
+  if (!FORM_FIELD_TYPES.includes(type as FormFieldType)) return `type must be one of ${FORM_FIELD_TYPES.join(', ')}`;
+  if (typeof required !== 'boolean') return 'required must be a boolean';
+  if (placeholder !== undefined && !isLabel(placeholder)) return 'placeholder must be a short string';
+
+  const field: FormField = { name, label, type: type as FormFieldType, required };
+  if (placeholder !== undefined) field.placeholder = placeholder;
+  if (type === 'select') {
+    if (!Array.isArray(options) || !options.length || options.length > MAX_OPTIONS || !options.every(isLabel)) {
+      return `options must be an array of 1 to ${MAX_OPTIONS} short strings`;
+    }
+    field.options = options;
+  }
+  return field;
+}
+
+function parseBlock(value: unknown): RichBlock | string {
+  if (!isPlainObject(value)) return 'must be an object';
+
+  switch (value.type) {
+    case 'quick_replies': {
+      const replies = parseItems(value.replies, 'replies', parseQuickReply);
+      return typeof replies === 'string' ? replies : { type: 'quick_replies', replies };
+    }
+    case 'buttons': {
+      const buttons = parseItems(value.buttons, 'buttons', parseLinkButton);
+      return typeof buttons === 'string' ? buttons : { type: 'buttons', buttons };
+    }
+    case 'card': {
+      const { title, subtitle, imageUrl } = value;
+      if (typeof title !== 'string' || !title.trim() || title.length > MAX_TEXT_LENGTH) {
+        return 'title must be a non-empty string';
+      }
+      if (!isOptionalText(subtitle)) return 'subtitle must be a string';
+      if (imageUrl !== undefined && !isLinkUrl(imageUrl)) return 'imageUrl must be an http(s) URL';
+      const card: RichBlock = { type: 'card', title, subtitle, imageUrl };
+      if (value.buttons !== undefined) {
+        const buttons = parseItems(value.buttons, 'buttons', parseLinkButton);
+        if (typeof buttons === 'string') return buttons;
+        card.buttons = buttons;
+      }
+      return card;
+    }
+    case 'form': {
+      const { id, title, submitLabel } = value;
+      if (typeof id !== 'string' || !IDENTIFIER.test(id)) return 'id must be an identifier';
+      if (!isOptionalText(title)) return 'title must be a string';
+      if (submitLabel !== undefined && !isLabel(submitLabel)) return 'submitLabel must be a short string';
+      const fields = parseItems(value.fields, 'fields', parseFormField);
+      if (typeof fields === 'string') return fields;
+      if (new Set(fields.map((field) => field.name)).size !== fields.length) return 'field names must be unique';
+      return { type: 'form', id, title, fields, submitLabel };
+    }
+    default:
+      return 'type must be one of quick_replies, buttons, card, form';
+  }
+}
+
+/** Validates the `blocks` of a bot reply; returns a human readable error when invalid */
+export function parseRichBlocks(value: unknown): RichBlock[] | string {
+  if (!Array.isArray(value) || !value.length || value.length > MAX_BLOCKS) {
+    return `blocks must be an array of 1 to ${MAX_BLOCKS} blocks`;
+  }
+  const blocks: RichBlock[] = [];
+  for (const [index, block] of value.entries()) {
+    const parsed = parseBlock(block);
+    if (typeof parsed === 'string') return `blocks[${index}]: ${parsed}`;
+    blocks.push(parsed);
+  }
+  return blocks;
+}
+
+/**
+ * Blocks of an n8n response (`blocks` next to `output`). Invalid blocks are
+ * logged and dropped so the text of the reply still reaches the visitor.
+ */
+export function extractRichBlocks(data: unknown): RichBlock[] | undefined {
+  if (!data || typeof data !== 'object') return undefined;
+  const raw = (data as Record<string, unknown>).blocks;
+  if (raw === undefined || raw === null) return undefined;
+  const blocks = parseRichBlocks(raw);
+  if (typeof blocks === 'string') {
+    logger.warn(`⚠️ Ignoring invalid rich blocks from n8n: ${blocks}`);
+    return undefined;
+  }
+  return blocks;
+}
+
+/** Shape of a visitor's `response`; whether it matches the answered message is checked by `resolveRichResponse` */
+export const richResponseSchema: z.ZodType<RichResponse, z.ZodTypeDef, unknown> = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('quick_reply'),
+    messageId: z.string().uuid(),
+    value: z.string().max(MAX_TEXT_LENGTH),
+  }),
+  z.object({
+    type: z.literal('form'),
+    messageId: z.string().uuid(),
+    formId: z.string().max(64),
+    values: z.record(z.string().max(MAX_TEXT_LENGTH)),
+  }),
+]);
+
+function validateFieldValue(field: FormField, value: string): string | null {
+  if (!value) return field.required ? `${field.label} is required` : null;
+  if (value.length > MAX_TEXT_LENGTH) return `${field.label} is too long`;
+  if (field.type === 'email' && !EMAIL.test(value)) return `${field.label} must be an email address`;
+  if (field.type === 'number' && !Number.isFinite(Number(value))) return `${field.label} must be a number`;
+  if (field.type === 'select' && !field.options?.includes(value)) return `${field.label} must be one of the options`;
+  return null;
+}
+
+/**
+ * Checks a response against the bot message it answers and returns the text
+ * stored as the visitor message's `content`: the quick reply's label, or one
+ * `Label: value` line per filled-in form field. `emails` holds the values of
+ * the form's `email` fields, the addresses the visitor gave as their own.
+ */
+export async function resolveRichResponse(
+  sessionId: string,
+  response: RichResponse
+): Promise<{ content: string; response: RichResponse; emails: string[] } | string> {
+  const message = await prisma.chatMessage.findFirst({
+    where: { id: response.messageId, session_id: sessionId, role: { in: [message_role.BOT, message_role.AGENT] } },
+    select: { rich: true },
+  });
+  const blocks = ((message?.rich ?? null) as RichContent | null)?.blocks ?? [];
+
+  if (response.type === 'quick_reply') {
+    const reply = blocks
+      .flatMap((block) => (block.type === 'quick_replies' ? block.replies : []))
+      .find((candidate) => candidate.value === response.value);
+    if (!reply) return 'That option is no longer available.';
+    return { content: reply.label, response, emails: [] };
+  }
+
+  const form = blocks.find((block) => block.type === 'form' && block.id === response.formId);
+  if (!form || form.type !== 'form') return 'That form is no longer available.';
+  if (Object.keys(response.values).some((name) => !form.fields.some((field) => field.name === name))) {
+    return 'The form contains unknown fields.';
+  }
+
+  const values: Record<string, string> = {};
+  const lines: string[] = [];
+  const emails: string[] = [];
+  for (const field of form.fields) {
+    const value = (response.values[field.name] ?? '').trim();
+    const error = validateFieldValue(field, value);
+    if (error) return error;
+    if (!value) continue;
+    values[field.name] = value;
+    lines.push(`${field.label}: ${value}`);
+    if (field.type === 'email') emails.push(value);
+  }
+  return {
+    content: lines.join('\n') || form.submitLabel || 'Submitted',
+    response: { ...response, values },
+    emails,
+  };
+}
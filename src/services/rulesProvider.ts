@@ -0,0 +1,142 @@
+import { readFileSync } from 'fs';
+import { env } from '../config/env';
+import logger from '../utils/logger';
+import type { BotProvider, BotProviderConfig, BotRequest } from './botProviderService';
+import { parseRichBlocks, type RichBlock } from './richMessageService';
+
+/** Matches when the visitor's text contains any keyword or matches `pattern` (case-insensitive) */
+export interface FaqRule {
+  keywords?: string[];
+  pattern?: string;
+  reply: string;
+  blocks?: RichBlock[];
+}
+
+export interface RulesOverrides {
+  rules?: FaqRule[];
+  /** Sent when no rule matches */
+  fallback?: string;
+}
+
+const MAX_RULES = 200;
+const MAX_KEYWORDS = 20;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_REPLY_LENGTH = 4000;
+const DEFAULT_FALLBACK =
+  "Sorry, our assistant can't answer right now. Leave your contact details and we'll get back to you.";
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseRule(value: unknown): FaqRule | string {
+  if (!isPlainObject(value)) return 'must be an object';
+  const { keywords, pattern, reply, blocks } = value;
+  const rule: FaqRule = { reply: '' };
+
+  if (keywords !== undefined) {
+    if (
+      !Array.isArray(keywords) ||
+      keywords.length > MAX_KEYWORDS ||
+      !keywords.every((keyword) => typeof keyword === 'string' && keyword.trim())
+    ) {
+      return `keywords must be an array of up to ${MAX_KEYWORDS} non-empty strings`;
+    }
+    rule.keywords = keywords.map((keyword: string) => keyword.trim().toLowerCase());
+  }
+  if (pattern !== undefined) {
+    if (typeof pattern !== 'string' || !pattern || pattern.length > MAX_PATTERN_LENGTH) {
+      return `pattern must be a regular expression of at most ${MAX_PATTERN_LENGTH} characters`;
+    }
+    try {
+      new RegExp(pattern, 'i');
+    } catch {
+      return 'pattern must be a valid regular expression';
+    }
+    rule.pattern = pattern;
+  }
+  if (!rule.keywords?.length && !rule.pattern) return 'keywords or pattern is required';
+
+  if (blocks !== undefined) {
+    const parsed = parseRichBlocks(blocks);
+    if (typeof parsed === 'string') return parsed;
+    rule.blocks = parsed;
+  }
+  if (typeof reply !== 'string' || reply.length > MAX_REPLY_LENGTH || (!reply.trim() && !rule.blocks)) {
+    return 'reply must be a non-empty string';
+  }
+  rule.reply = reply;
+  return rule;
+}
+
+/** Validates a rules provider entry (a widget's, or the BOT_RULES_FILE contents); returns an error when invalid */
+export function parseRulesOverrides(value: Record<string, unknown>): BotProviderConfig | string {
+  const { rules, fallback } = value;
+  const config: { type: 'rules' } & RulesOverrides = { type: 'rules' };
+
+  if (rules !== undefined) {
+    if (!Array.isArray(rules) || rules.length > MAX_RULES) return `rules must be an array of up to ${MAX_RULES} rules`;
+    const parsedRules: FaqRule[] = [];
+    for (const [index, rule] of rules.entries()) {
+      const parsed = parseRule(rule);
+      if (typeof parsed === 'string') return `rules[${index}]: ${parsed}`;
+      parsedRules.push(parsed);
+    }
+    config.rules = parsedRules;
+  }
+  if (fallback !== undefined) {
+    if (typeof fallback !== 'string' || !fallback.trim() || fallback.length > MAX_REPLY_LENGTH) {
+      return 'fallback must be a non-empty string';
+    }
+    config.fallback = fallback;
+  }
+  return config;
+}
+
+let fileRules: RulesOverrides | null = null;
+
+// BOT_RULES_FILE is read once; a broken file leaves only the fallback reply
+function loadRulesFile(): RulesOverrides {
+  if (fileRules) return fileRules;
+  fileRules = {};
+  if (!env.botRulesFile) return fileRules;
+
+  try {
+    const parsed = parseRulesOverrides(JSON.parse(readFileSync(env.botRulesFile, 'utf8')));
+    if (typeof parsed === 'string') throw new Error(parsed);
+    fileRules = parsed as RulesOverrides;
+    logger.info(`📚 Loaded ${fileRules.rules?.length ?? 0} bot rule(s) from ${env.botRulesFile}`);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to load BOT_RULES_FILE: ${errMsg}`);
+  }
+  return fileRules;
+}
+
+// Quick reply clicks are matched on their value as well as their label
+function visitorText(request: BotRequest): string {
+  const value = request.response?.type === 'quick_reply' ? request.response.value : '';
+  return `${request.message}\n${value}`.toLowerCase();
+}
+
+function matches(rule: FaqRule, text: string): boolean {
+  if (rule.keywords?.some((keyword) => text.includes(keyword))) return true;
+  return !!rule.pattern && new RegExp(rule.pattern, 'i').test(text);
+}
+
+/** Deterministic keyword / pattern answers that never fail, meant as the last provider in line */
+export function createRulesProvider(overrides: RulesOverrides): BotProvider {
+  const defaults = loadRulesFile();
+  const rules = overrides.rules ?? defaults.rules ?? [];
+  const fallback = overrides.fallback ?? defaults.fallback ?? DEFAULT_FALLBACK;
+
+  return {
+    name: 'rules',
+    isAvailable: () => true,
+    reply: async (request) => {
+      const text = visitorText(request);
+      const rule = rules.find((candidate) => matches(candidate, text));
+      return rule ? { output: rule.reply, blocks: rule.blocks } : { output: fallback };
+    },
+  };
+}
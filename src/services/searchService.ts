@@ -0,0 +1,134 @@
+import { Prisma, type chat_session_status, type message_role } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { mapMessage } from './messageService';
+
+export interface SearchFilters {
+  query: string;
+  roles?: message_role[];
+  status?: chat_session_status;
+  from?: Date;
+  to?: Date;
+  visitorId?: string;
+  tenantId?: string;
+  limit: number;
+  offset: number;
+  /** Messages of surrounding context returned on each side of a hit */
+  context: number;
+}
+
+type HitRow = {
+  id: string;
+  session_id: string;
+  role: message_role;
+  content: string;
+  created_at: Date;
+  snippet: string;
+  rank: number;
+  visitor_id: string;
+  status: chat_session_status;
+  metadata: unknown;
+  session_created_at: Date;
+};
+
+type ContextRow = {
+  hit_id: string;
+  id: string;
+  role: message_role;
+  content: string;
+  created_at: Date;
+};
+
+// Must match the text search config of the generated search_vector column
+const TS_CONFIG = 'english';
+// Mark highlights with control characters (virtually never typed in chat) until the snippet is HTML-escaped
+const HIGHLIGHT_START = '\u0001';
+const HIGHLIGHT_STOP = '\u0002';
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** HTML-safe snippet with matches wrapped in <mark> */
+function renderSnippet(snippet: string): string {
+  return escapeHtml(snippet).split(HIGHLIGHT_START).join('<mark>').split(HIGHLIGHT_STOP).join('</mark>');
+}
+
+function buildConditions(filters: SearchFilters): Prisma.Sql {
+  const conditions = [Prisma.sql`m.search_vector @@ q.query`];
+  if (filters.roles?.length) conditions.push(Prisma.sql`m.role = ANY(${filters.roles}::message_role[])`);
+  if (filters.status) conditions.push(Prisma.sql`s.status = ${filters.status}::chat_session_status`);
+  if (filters.from) conditions.push(Prisma.sql`m.created_at >= ${filters.from}`);
+  if (filters.to) conditions.push(Prisma.sql`m.created_at <= ${filters.to}`);
+  if (filters.visitorId) conditions.push(Prisma.sql`s.visitor_id = ${filters.visitorId}`);
+  if (filters.tenantId) conditions.push(Prisma.sql`s.tenant_id = ${filters.tenantId}::uuid`);
+  return Prisma.join(conditions, ' AND ');
+}
+
+async function loadContext(hitIds: string[], size: number): Promise<Map<string, ContextRow[]>> {
+  const context = new Map<string, ContextRow[]>();
+  if (!hitIds.length || !size) return context;
+
+  const rows = await prisma.$queryRaw<ContextRow[]>`
+    SELECT hit.id AS hit_id, c.id, c.role, c.content, c.created_at
+    FROM chat_message hit
+    CROSS JOIN LATERAL (
+      (SELECT b.id, b.role, b.content, b.created_at FROM chat_message b
+       WHERE b.session_id = hit.session_id AND b.created_at < hit.created_at
+       ORDER BY b.created_at DESC LIMIT ${size})
+      UNION ALL
+      (SELECT a.id, a.role, a.content, a.created_at FROM chat_message a
+       WHERE a.session_id = hit.session_id AND a.created_at > hit.created_at
+       ORDER BY a.created_at ASC LIMIT ${size})
+    ) c
+    WHERE hit.id = ANY(${hitIds}::uuid[])
+    ORDER BY hit.id, c.created_at`;
+
+  for (const row of rows) {
+    context.set(row.hit_id, [...(context.get(row.hit_id) ?? []), row]);
+  }
+  return context;
+}
+
+/**
+ * Full-text search over message content (web-search syntax: quoted phrases,
+ * `or`, `-exclude`). Hits are ranked by relevance, newest first on ties.
+ */
+export async function searchMessages(filters: SearchFilters) {
+  const hits = await prisma.$queryRaw<HitRow[]>`
+    SELECT m.id, m.session_id, m.role, m.content, m.created_at,
+           ts_headline(${TS_CONFIG}::regconfig, m.content, q.query,
+             ${`StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=30, MinWords=10, MaxFragments=2`}) AS snippet,
+           ts_rank(m.search_vector, q.query)::float AS rank,
+           s.visitor_id, s.status, s.metadata, s.created_at AS session_created_at
+    FROM chat_message m
+    JOIN chat_session s ON s.id = m.session_id
+    CROSS JOIN websearch_to_tsquery(${TS_CONFIG}::regconfig, ${filters.query}) AS q(query)
+    WHERE ${buildConditions(filters)}
+    ORDER BY rank DESC, m.created_at DESC
+    LIMIT ${filters.limit} OFFSET ${filters.offset}`;
+
+  const context = await loadContext(
+    hits.map((hit) => hit.id),
+    filters.context
+  );
+
+  return hits.map((hit) => {
+    const surrounding = context.get(hit.id) ?? [];
+    return {
+      message: { ...mapMessage(hit), sessionId: hit.session_id },
+      snippet: renderSnippet(hit.snippet),
+      rank: hit.rank,
+      session: {
+        id: hit.session_id,
+        visitorId: hit.visitor_id,
+        status: hit.status,
+        metadata: hit.metadata,
+        createdAt: hit.session_created_at.toISOString(),
+      },
+      context: {
+        before: surrounding.filter((row) => row.created_at < hit.created_at).map(mapMessage),
+        after: surrounding.filter((row) => row.created_at > hit.created_at).map(mapMessage),
+      },
+    };
+  });
+}
@@ -0,0 +1,54 @@
+import type { chat_session_status, ChatSession, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export interface SessionFilters {
+  statuses?: chat_session_status[];
+  visitorId?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  lastActiveFrom?: Date;
+  lastActiveTo?: Date;
+  /** Exact matches on metadata values; dotted keys address nested objects ("utm.source") */
+  metadata?: Record<string, string>;
+  /** Restricts the listing to one tenant (see tenantScope) */
+  scope?: Prisma.ChatSessionWhereInput;
+  /** Session id to continue after (the previous page's nextCursor) */
+  cursor?: string;
+  limit: number;
+}
+
+export interface SessionPage {
+  /** Newest first */
+  sessions: ChatSession[];
+  nextCursor: string | null;
+}
+
+function dateRange(from?: Date, to?: Date): Prisma.DateTimeFilter | undefined {
+  if (!from && !to) return undefined;
+  return { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) };
+}
+
+export async function listSessions(filters: SessionFilters): Promise<SessionPage> {
+  const where: Prisma.ChatSessionWhereInput = {
+    ...filters.scope,
+    ...(filters.statuses?.length ? { status: { in: filters.statuses } } : {}),
+    ...(filters.visitorId ? { visitor_id: filters.visitorId } : {}),
+    created_at: dateRange(filters.createdFrom, filters.createdTo),
+    last_active_at: dateRange(filters.lastActiveFrom, filters.lastActiveTo),
+    // Each JSON path needs its own filter, so metadata matches are ANDed together
+    AND: Object.entries(filters.metadata ?? {}).map(([key, value]) => ({
+      metadata: { path: key.split('.'), equals: value },
+    })),
+  };
+
+  const rows = await prisma.chatSession.findMany({
+    where,
+    orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+    ...(filters.cursor ? { cursor: { id: filters.cursor }, skip: 1 } : {}),
+    take: filters.limit + 1,
+  });
+
+  const hasMore = rows.length > filters.limit;
+  const sessions = hasMore ? rows.slice(0, filters.limit) : rows;
+  return { sessions, nextCursor: hasMore ? sessions[sessions.length - 1].id : null };
+}
@@ -1,70 +1,94 @@
 import type { Server as HttpServer } from 'http';
-import { Server as SocketIOServer, type Socket } from 'socket.io';
-import { chat_session_status, message_role, Prisma } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { chat_session_status, message_role, Prisma, session_close_reason } from '@prisma/client';
 import { v4 as uuid } from 'uuid';
 import { prisma } from '../lib/prisma';
+import { recordMessage, trackSockets } from '../lib/metrics';
 import { env } from '../config/env';
+import { withCorrelationId } from '../utils/correlation';
 import logger from '../utils/logger';
-import { sendToN8n, type N8nHistoryEntry } from './n8nService';
-
-type ChatMessageDto = {
-  id: string;
-  sender: message_role;
-  content: string;
-  createdAt: string;
-};
-
-type IncomingMessagePayload = {
-  sessionId?: string;
-  content: string;
-  metadata?: Record<string, unknown>;
-};
-
-type HeartbeatPayload = {
-  sessionId?: string;
-};
-
-type EndSessionPayload = {
-  sessionId?: string;
-};
-
-type ClientToServerEvents = {
-  message: (payload: IncomingMessagePayload) => void;
-  heartbeat: (payload: HeartbeatPayload) => void;
-  endSession: (payload: EndSessionPayload) => void;
-  end_chat: (payload: EndSessionPayload) => void; // React frontend uses this event name
-};
-
-type ServerToClientEvents = {
-  session: (payload: { sessionId: string; visitorId: string; status: chat_session_status }) => void;
-  history: (payload: { messages: ChatMessageDto[] }) => void; // React frontend expects { messages: [] }
-  message: (payload: ChatMessageDto) => void;
-  status: (payload: { status: chat_session_status }) => void;
-  error: (payload: { message: string }) => void;
-  sessionClosed: (payload: { sessionId: string; message: string }) => void;
-};
-
-type InterServerEvents = Record<string, never>;
-type SocketData = {
-  sessionId?: string;
-  visitorId?: string;
-};
+import { consumeRateLimits, enforceRateLimits, RateLimitError } from './rateLimiter';
+import { canAccessSession, issueWidgetToken, resolveCredential, type AuthContext } from './authService';
+import { queueSessionCloseout } from './closeoutService';
+import { CONTACT_SOURCES, createContact, validateContactInput } from './contactService';
+import { acceptUserMessage, replyToUserMessage } from './conversationService';
+import { getMessagePage, mapMessage, operatorNamespace, recordReceipts } from './messageService';
+import { registerOperatorNamespace } from './operatorNamespace';
+import { parsePayload, visitorEventSchemas } from './socketSchemas';
+import { corsOrigin, getWidgetByPublicKey, widgetAllowsOrigin } from './tenantService';
+import { publishEvent, sessionEventData } from './webhookService';
+import type {
+  ChatServer,
+  ChatSocket,
+  ClientToServerEvents,
+  InterServerEvents,
+  ReceiptStatus,
+  ServerToClientEvents,
+  SocketData,
+} from '../types/socket';
+
+// Messages per 'history' / 'olderMessages' page
+const HISTORY_PAGE_SIZE = 100;
 
 export function createSocketManager(httpServer: HttpServer) {
   const io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>(
     httpServer,
     {
       cors: {
-        origin: env.corsOrigins.length ? env.corsOrigins : '*',
+        origin: corsOrigin,
         credentials: true,
       },
       // OPTIMIZATION: Faster handshake for instant session emission
       pingTimeout: 30000,
       pingInterval: 25000,
+      // Event payloads are small JSON objects; files go through the REST upload
+      maxHttpBufferSize: 100_000,
     }
   );
 
+  // Resolve handshake credentials: `auth.token` (widget token) or `auth.apiKey` (admin key),
+  // and the tenant widget named by `auth.widgetKey`
+  io.use(async (socket, next) => {
+    try {
+      const apiKey = socket.handshake.auth?.apiKey as string | undefined;
+      const token = socket.handshake.auth?.token as string | undefined;
+      const widgetKey = socket.handshake.auth?.widgetKey as string | undefined;
+
+      if (widgetKey) {
+        const widget = await getWidgetByPublicKey(widgetKey);
+        if (!widget) {
+          logger.warn('❌ Socket rejected: unknown widget key');
+          return next(new Error('Unknown widget'));
+        }
+        if (!widgetAllowsOrigin(widget, socket.handshake.headers.origin)) {
+          logger.warn(`❌ Socket rejected: origin ${socket.handshake.headers.origin} not allowed for widget ${widget.id}`);
+          return next(new Error('Origin not allowed'));
+        }
+        socket.data.widgetId = widget.id;
+        socket.data.tenantId = widget.tenant_id;
+      }
+
+      if (apiKey) {
+        const auth = await resolveCredential(apiKey);
+        if (auth?.kind !== 'admin') {
+          logger.warn('❌ Socket rejected: invalid API key');
+          return next(new Error('Invalid credentials'));
+        }
+        socket.data.auth = auth;
+      } else if (token) {
+        // Expired or foreign widget tokens fall back to an anonymous visitor
+        socket.data.auth = (await resolveCredential(token)) ?? undefined;
+      }
+      next();
+    } catch (error) {
+      logger.error('Socket authentication failed', error);
+      next(new Error('Authentication failed'));
+    }
+  });
+
   io.on('connection', (socket) => {
+    socket.data.clientIp = getClientIp(socket);
+
     // Debug: log ALL events from client
     socket.onAny((eventName, ...args) => {
       logger.info(`📥 [SERVER] Received event "${eventName}": ${JSON.stringify(args)}`);
@@ -73,19 +97,26 @@ export function createSocketManager(httpServer: HttpServer) {
     void handleConnection(io, socket);
   });
 
+  registerOperatorNamespace(io);
+  trackSockets(io.of('/'), 'visitor');
+  trackSockets(operatorNamespace(io), 'operator');
+
   return io;
 }
 
 async function handleConnection(
-  io: SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
-  socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
+  io: ChatServer,
+  socket: ChatSocket
 ) {
+  const tokenAuth = socket.data.auth?.kind === 'widget' ? socket.data.auth : undefined;
   const visitorId =
+    tokenAuth?.visitorId ||
     (socket.handshake.auth?.visitorId as string | undefined) ||
     (socket.handshake.query.visitorId as string | undefined) ||
     uuid();
 
   const requestedSessionId =
+    tokenAuth?.sessionId ||
     (socket.handshake.auth?.sessionId as string | undefined) ||
     (socket.handshake.query.sessionId as string | undefined);
 
@@ -93,7 +124,15 @@ async function handleConnection(
 
   try {
     // CRITICAL: Create session BEFORE registering handlers for instant response
-    const session = await ensureSession(visitorId, requestedSessionId);
+    const session = await ensureSession({
+      visitorId,
+      requestedSessionId,
+      auth: socket.data.auth,
+      clientIp: socket.data.clientIp,
+      widgetId: socket.data.widgetId,
+      tenantId: socket.data.tenantId,
+      metadata: parseHandshakeMetadata(socket.handshake.auth?.metadata),
+    });
     
     socket.data.sessionId = session.id;
     socket.data.visitorId = visitorId;
@@ -109,14 +148,15 @@ async function handleConnection(
       sessionId: session.id,
       visitorId,
       status: session.status,
+      token: issueWidgetToken(session.id, session.visitor_id),
     });
     logger.info(`📤 Emitted session event to client: ${session.id}`);
 
-    // Send history if exists (wrap in object for React frontend)
-    const history = await getHistory(session.id);
-    if (history.length) {
-      socket.emit('history', { messages: history }); // React expects { messages: [] }
-      logger.info(`📜 Sent ${history.length} history messages`);
+    // Send the latest history page if any (wrap in object for React frontend); older pages via 'loadOlder'
+    const history = await getMessagePage(session.id, { limit: HISTORY_PAGE_SIZE });
+    if (history.messages.length) {
+      socket.emit('history', { messages: history.messages, olderCursor: history.olderCursor }); // React expects { messages: [] }
+      logger.info(`📜 Sent ${history.messages.length} history messages`);
     } else {
       logger.info(`📜 No history for new session ${session.id}`);
     }
@@ -126,6 +166,16 @@ async function handleConnection(
       data: { last_active_at: new Date(), status: chat_session_status.ACTIVE },
     });
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      socket.emit('error', {
+        message: 'Too many chat sessions started. Please try again later.',
+        code: 'RATE_LIMITED',
+        retryAfter: error.retryAfterSeconds,
+      });
+      socket.disconnect(true);
+      return;
+    }
+
     // Log to both Winston AND console (so Render shows it)
     const errMsg = error instanceof Error ? error.message : String(error);
     const errStack = error instanceof Error ? error.stack : '';
@@ -138,11 +188,14 @@ async function handleConnection(
 }
 
 function registerSocketEvents(
-  io: SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
-  socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
+  io: ChatServer,
+  socket: ChatSocket
 ) {
-  socket.on('message', async (payload) => {
-    const sessionId = payload.sessionId ?? socket.data.sessionId;
+  // Each visitor turn gets its own correlation id, carried on its log lines and bot requests
+  socket.on('message', (rawPayload) => withCorrelationId(undefined, async () => {
+    const payload = parsePayload(socket, visitorEventSchemas.message, rawPayload);
+    if (!payload) return;
+    const sessionId = await resolveSessionId(socket, payload.sessionId);
     
     // CRITICAL: Validate session exists before processing
     if (!sessionId) {
@@ -151,91 +204,92 @@ function registerSocketEvents(
       return;
     }
 
-    const content = payload.content?.trim();
-    if (!content) {
+    const { content, attachmentIds, response } = payload;
+    if (!content && !attachmentIds.length && !response) {
       logger.warn('⚠️ Empty message content');
       return;
     }
 
     logger.info(`📥 Message received: session=${sessionId}, content="${content.substring(0, 50)}..."`);
 
-    try {
-      // CRITICAL: Verify session is still valid and not closed
-      const session = await prisma.chatSession.findUnique({ 
-        where: { id: sessionId },
-        select: { id: true, status: true }
-      });
-      
-      if (!session) {
-        logger.warn(`❌ Session ${sessionId} not found`);
-        socket.emit('error', { message: 'Session expired. Please refresh the page.' });
-        socket.emit('sessionClosed', { 
-          sessionId, 
-          message: 'Session not found. Starting new session...' 
-        });
-        return;
-      }
-      
-      if (session.status === chat_session_status.CLOSED) {
-        logger.warn(`❌ Attempt to message closed session ${sessionId}`);
-        socket.emit('sessionClosed', { 
-          sessionId, 
-          message: 'Session was closed. Please start a new chat.' 
-        });
-        return;
-      }
-
-      const userMessage = await prisma.chatMessage.create({
-        data: {
-          session_id: sessionId,
-          role: message_role.USER,
-          content,
-        },
-      });
-
-      // Echo user message to client (for multi-device sync)
-      io.to(sessionId).emit('message', mapMessage(userMessage));
-      logger.info(`📤 User message echoed to client`);
-
-      // Update session activity
-      await prisma.chatSession.update({
-        where: { id: sessionId },
-        data: { last_active_at: new Date(), status: chat_session_status.ACTIVE },
+    // Every message is an LLM call, so cap how fast a session, visitor or IP can send them
+    const limit = await consumeRateLimits([
+      { rule: 'messagesPerSession', key: sessionId },
+      { rule: 'messagesPerVisitor', key: socket.data.visitorId ?? '' },
+      { rule: 'messagesPerIp', key: socket.data.clientIp ?? '' },
+    ]);
+    if (!limit.allowed) {
+      socket.emit('error', {
+        message: 'You are sending messages too quickly. Please wait a moment.',
+        code: 'RATE_LIMITED',
+        retryAfter: limit.retryAfterSeconds,
       });
+      return;
+    }
 
-      // Get AI response from n8n
-      logger.info(`🤖 Calling n8n webhook...`);
-      const historyForBrain = await getHistory(sessionId, 50);
-      const aiReply = await sendToN8n({
+    try {
+      const accepted = await acceptUserMessage(io, {
         sessionId,
-        message: content,
-        history: historyForBrain.map<N8nHistoryEntry>((m) => ({
-          sender: m.sender,
-          content: m.content,
-          createdAt: m.createdAt,
-        })),
+        content,
+        attachmentIds,
+        response,
         metadata: payload.metadata,
       });
+      if (!accepted.ok) {
+        if (accepted.reason === 'not_found') {
+          socket.emit('error', { message: 'Session expired. Please refresh the page.' });
+          socket.emit('sessionClosed', { sessionId, message: 'Session not found. Starting new session...' });
+        } else if (accepted.reason === 'closed') {
+          socket.emit('sessionClosed', { sessionId, message: accepted.error });
+        } else {
+          socket.emit('error', { message: accepted.error });
+        }
+        return;
+      }
 
-      // Save and send AI message
-      const aiMessage = await prisma.chatMessage.create({
-        data: {
-          session_id: sessionId,
-          role: message_role.BOT,
-          content: aiReply,
-        },
-      });
-
-      io.to(sessionId).emit('message', mapMessage(aiMessage));
-      logger.info(`📤 AI response sent: "${aiReply.substring(0, 50)}..."`);
+      await replyToUserMessage(io, accepted);
     } catch (error) {
       logger.error('Error handling message event', error);
       socket.emit('error', { message: 'Unable to send message right now. Please try again.' });
     }
+  }));
+
+  // Contact form submitted from the widget
+  socket.on('contact', async (rawPayload) => {
+    const payload = parsePayload(socket, visitorEventSchemas.contact, rawPayload);
+    if (!payload) return;
+    const sessionId = await resolveSessionId(socket, payload.sessionId);
+    if (!sessionId) {
+      socket.emit('error', { message: 'Session not established yet. Please wait.' });
+      return;
+    }
+
+    const input = {
+      name: payload.name,
+      email: payload.email,
+      message: payload.message,
+      sessionId,
+      conversationSource: CONTACT_SOURCES.widgetForm,
+    };
+    const validationError = validateContactInput(input);
+    if (validationError) {
+      socket.emit('error', { message: validationError });
+      return;
+    }
+
+    try {
+      const contact = await createContact(input);
+      socket.emit('contactSaved', { id: contact.id });
+    } catch (error) {
+      logger.error('Error saving contact', error);
+      socket.emit('error', { message: 'Unable to save your details right now. Please try again.' });
+    }
   });
 
-  socket.on('heartbeat', async (payload) => {
-    const sessionId = payload.sessionId ?? socket.data.sessionId;
+  socket.on('heartbeat', async (rawPayload) => {
+    const payload = parsePayload(socket, visitorEventSchemas.heartbeat, rawPayload);
+    if (!payload) return;
+    const sessionId = await resolveSessionId(socket, payload.sessionId);
     if (!sessionId) return;
 
     try {
@@ -248,23 +302,82 @@ function registerSocketEvents(
     }
   });
 
+  // Scroll-back: the page of messages before the oldest one the client has
+  socket.on('loadOlder', async (rawPayload) => {
+    const payload = parsePayload(socket, visitorEventSchemas.loadOlder, rawPayload);
+    if (!payload) return;
+    const sessionId = await resolveSessionId(socket, payload.sessionId);
+    if (!sessionId) return;
+
+    try {
+      const limit = Math.min(payload.limit ?? HISTORY_PAGE_SIZE, HISTORY_PAGE_SIZE);
+      const page = await getMessagePage(sessionId, { before: payload.before, limit });
+      socket.emit('olderMessages', { messages: page.messages, olderCursor: page.olderCursor });
+    } catch (error) {
+      logger.error('Failed to load older messages', error);
+      socket.emit('error', { message: 'Unable to load earlier messages right now.' });
+    }
+  });
+
+  // Relay the visitor's typing state to operators watching the session
+  socket.on('typing', async (rawPayload) => {
+    const payload = parsePayload(socket, visitorEventSchemas.typing, rawPayload);
+    if (!payload) return;
+    const sessionId = await resolveSessionId(socket, payload.sessionId);
+    if (!sessionId) return;
+    operatorNamespace(io)
+      .to(sessionId)
+      .emit('typing', { sessionId, sender: message_role.USER, isTyping: payload.isTyping });
+  });
+
+  // Receipts for the bot, agent and system messages the widget has shown
+  socket.on('delivered', async (payload) => {
+    await handleVisitorReceipt(io, socket, 'delivered', payload);
+  });
+
+  socket.on('read', async (payload) => {
+    await handleVisitorReceipt(io, socket, 'read', payload);
+  });
+
   // WordPress widget uses 'endSession' event
   socket.on('endSession', async (payload) => {
-    await handleEndSession(socket, payload);
+    await handleEndSession(io, socket, payload);
   });
 
   // React frontend uses 'end_chat' event
   socket.on('end_chat', async (payload) => {
-    await handleEndSession(socket, payload);
+    await handleEndSession(io, socket, payload);
   });
 }
 
+async function handleVisitorReceipt(io: ChatServer, socket: ChatSocket, status: ReceiptStatus, rawPayload: unknown) {
+  const payload = parsePayload(socket, visitorEventSchemas[status], rawPayload);
+  if (!payload) return;
+  const sessionId = await resolveSessionId(socket, payload.sessionId);
+  if (!sessionId) return;
+  const { messageIds } = payload;
+
+  try {
+    const receipt = await recordReceipts(sessionId, messageIds, status, [
+      message_role.BOT,
+      message_role.AGENT,
+      message_role.SYSTEM,
+    ]);
+    if (receipt) operatorNamespace(io).to(sessionId).emit('receipt', receipt);
+  } catch (error) {
+    logger.warn(`Failed to record ${status} receipt`, error as Error);
+  }
+}
+
 // UNIFIED END SESSION LOGIC - Handles both WordPress and React frontends
 async function handleEndSession(
-  socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
-  payload: EndSessionPayload
+  io: ChatServer,
+  socket: ChatSocket,
+  rawPayload: unknown
 ) {
-  const sessionId = payload.sessionId ?? socket.data.sessionId;
+  const payload = parsePayload(socket, visitorEventSchemas.endSession, rawPayload);
+  if (!payload) return;
+  const sessionId = await resolveSessionId(socket, payload.sessionId);
   
   if (!sessionId) {
     logger.warn('⚠️ endSession called without sessionId');
@@ -274,23 +387,31 @@ async function handleEndSession(
   try {
     logger.info(`🔚 Ending session ${sessionId} by user request`);
 
-    // 1. Close session in database
-    await prisma.chatSession.update({
+    // 1. Close session in database (releasing any agent that held it)
+    const closedSession = await prisma.chatSession.update({
       where: { id: sessionId },
       data: { 
         status: chat_session_status.CLOSED,
-        last_active_at: new Date()
+        closed_reason: session_close_reason.USER,
+        last_active_at: new Date(),
+        agent_id: null,
+        agent_name: null,
+        agent_since: null,
       },
     });
 
-    // 2. Add system message
-    await prisma.chatMessage.create({
+    // 2. Add system message and let watching operators know
+    const systemMessage = await prisma.chatMessage.create({
       data: {
         session_id: sessionId,
         role: message_role.SYSTEM,
         content: 'Chat session ended by user.',
       },
     });
+    recordMessage(message_role.SYSTEM);
+    operatorNamespace(io).to(sessionId).emit('message', { ...mapMessage(systemMessage), sessionId });
+    publishEvent('session.closed', sessionEventData(closedSession), { tenantId: closedSession.tenant_id });
+    queueSessionCloseout(sessionId);
 
     // 3. Notify client
     socket.emit('sessionClosed', {
@@ -310,16 +431,76 @@ async function handleEndSession(
   }
 }
 
+const MAX_HANDSHAKE_METADATA_BYTES = 2048;
+
+// Widgets may describe where the chat started (landingPage, referrer); anything else is ignored
+function parseHandshakeMetadata(value: unknown): Prisma.InputJsonObject | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const serialized = JSON.stringify(value);
+  if (serialized.length > MAX_HANDSHAKE_METADATA_BYTES) return undefined;
+  return JSON.parse(serialized) as Prisma.InputJsonObject;
+}
+
+// Mirrors Express' `trust proxy` hop count so REST and sockets agree on the client IP
+function getClientIp(socket: ChatSocket): string {
+  const forwarded = socket.handshake.headers['x-forwarded-for'];
+  if (env.trustProxy > 0 && forwarded) {
+    const hops = String(forwarded).split(',').map((ip) => ip.trim()).filter(Boolean);
+    const index = Math.max(hops.length - env.trustProxy, 0);
+    if (hops[index]) return hops[index];
+  }
+  return socket.handshake.address;
+}
+
+// Sockets may only address their own session unless they authenticated with an admin key
+async function resolveSessionId(
+  socket: ChatSocket,
+  requestedSessionId?: string
+): Promise<string | undefined> {
+  if (!requestedSessionId || requestedSessionId === socket.data.sessionId) {
+    return socket.data.sessionId;
+  }
+  if (await canAccessSession(socket.data.auth, requestedSessionId).catch(() => false)) {
+    return requestedSessionId;
+  }
+  logger.warn(`🚫 Socket ${socket.id} tried to address foreign session ${requestedSessionId}`);
+  return undefined;
+}
+
 // OPTIMIZED: Single database query with proper filtering and detailed logging
-async function ensureSession(visitorId: string, requestedSessionId?: string) {
-  // If requested session exists and not closed, reuse it
+type EnsureSessionOptions = {
+  visitorId: string;
+  requestedSessionId?: string;
+  auth?: AuthContext;
+  clientIp?: string;
+  /** Tenant widget the visitor connected through; sessions never cross widgets */
+  widgetId?: string;
+  tenantId?: string;
+  /** Stored on newly created sessions only (landing page, referrer, ...) */
+  metadata?: Prisma.InputJsonObject;
+};
+
+async function ensureSession({
+  visitorId,
+  requestedSessionId,
+  auth,
+  clientIp,
+  widgetId,
+  tenantId,
+  metadata,
+}: EnsureSessionOptions) {
+  // If requested session exists, is not closed and belongs to the caller, reuse it
   if (requestedSessionId) {
     const session = await prisma.chatSession.findUnique({ 
       where: { id: requestedSessionId },
-      select: { id: true, visitor_id: true, status: true, created_at: true, last_active_at: true, metadata: true }
+      select: { id: true, visitor_id: true, status: true, created_at: true, last_active_at: true, metadata: true, widget_id: true }
     });
     
-    if (session && session.status !== chat_session_status.CLOSED) {
+    // Visitors own their sessions only within the widget they started them on
+    const ownsSession = session?.visitor_id === visitorId && session.widget_id === (widgetId ?? null);
+    if (session && !ownsSession && !(await canAccessSession(auth, session.id))) {
+      logger.warn(`🚫 Visitor ${visitorId} is not allowed to resume session ${requestedSessionId}`);
+    } else if (session && session.status !== chat_session_status.CLOSED) {
       logger.info(`♻️ Reusing existing session: ${session.id}`);
       return session;
     } else if (session) {
@@ -331,6 +512,7 @@ async function ensureSession(visitorId: string, requestedSessionId?: string) {
   const existing = await prisma.chatSession.findFirst({
     where: {
       visitor_id: visitorId,
+      widget_id: widgetId ?? null,
       status: { not: chat_session_status.CLOSED },
     },
     orderBy: { created_at: 'desc' },
@@ -341,33 +523,22 @@ async function ensureSession(visitorId: string, requestedSessionId?: string) {
     return existing;
   }
 
-  // Create new session
+  // Create new session (throttled per IP and visitor)
+  await enforceRateLimits([
+    { rule: 'sessionsPerIp', key: clientIp ?? '' },
+    { rule: 'sessionsPerVisitor', key: visitorId },
+  ]);
   const newSession = await prisma.chatSession.create({
     data: {
       visitor_id: visitorId,
       status: chat_session_status.ACTIVE,
+      metadata: metadata ?? {},
+      tenant_id: tenantId,
+      widget_id: widgetId,
     },
   });
 
   logger.info(`✨ Created new session: ${newSession.id}`);
+  publishEvent('session.created', sessionEventData(newSession), { tenantId: newSession.tenant_id });
   return newSession;
 }
-
-async function getHistory(sessionId: string, limit = 100): Promise<ChatMessageDto[]> {
-  const messages = await prisma.chatMessage.findMany({
-    where: { session_id: sessionId },
-    orderBy: { created_at: 'asc' },
-    take: limit,
-  });
-
-  return messages.map(mapMessage);
-}
-
-function mapMessage(message: { id: string; role: message_role; content: string; created_at: Date }): ChatMessageDto {
-  return {
-    id: message.id,
-    sender: message.role,
-    content: message.content,
-    createdAt: message.created_at.toISOString(),
-  };
-}
@@ -0,0 +1,237 @@
+import { OpenAPIRegistry, OpenApiGeneratorV3 } from '@asteasolutions/zod-to-openapi';
+import { chat_session_status, message_role } from '@prisma/client';
+import { z, type ZodTypeAny } from 'zod';
+import logger from '../utils/logger';
+import { jsonObject, parseWith, uuid } from '../utils/validation';
+import { MAX_ATTACHMENTS_PER_MESSAGE } from './attachmentService';
+import { richResponseSchema } from './richMessageService';
+import type {
+  ClientToServerEvents,
+  OperatorClientToServerEvents,
+  OperatorServerToClientEvents,
+  ServerToClientEvents,
+} from '../types/socket';
+
+/** Longest visitor or agent message accepted, in characters */
+export const MAX_MESSAGE_LENGTH = 4000;
+const MAX_RECEIPT_IDS = 100;
+const MAX_NAME_LENGTH = 200;
+const MAX_EMAIL_LENGTH = 254;
+
+// ===================
+// CLIENT -> SERVER (validated)
+// ===================
+
+/** A visitor message; also the body of `POST /api/sessions/:id/messages` (without `sessionId`) */
+export const userMessageSchema = z.object({
+  sessionId: uuid.optional(),
+  content: z.string().trim().max(MAX_MESSAGE_LENGTH).default(''),
+  attachmentIds: z.array(uuid).max(MAX_ATTACHMENTS_PER_MESSAGE).default([]),
+  response: richResponseSchema.optional(),
+  metadata: jsonObject.optional(),
+});
+
+const sessionRef = z.object({ sessionId: uuid.optional() });
+
+const receiptIds = z
+  .array(uuid)
+  .min(1)
+  .max(MAX_RECEIPT_IDS)
+  .transform((ids) => [...new Set(ids)]);
+
+const typing = z.object({ sessionId: uuid.optional(), isTyping: z.boolean() });
+const receipt = z.object({ sessionId: uuid.optional(), messageIds: receiptIds });
+
+export const visitorEventSchemas = {
+  message: userMessageSchema,
+  contact: z.object({
+    sessionId: uuid.optional(),
+    name: z.string().max(MAX_NAME_LENGTH).optional(),
+    email: z.string().max(MAX_EMAIL_LENGTH).optional(),
+    message: z.string().max(MAX_MESSAGE_LENGTH).optional(),
+  }),
+  heartbeat: sessionRef,
+  endSession: sessionRef,
+  end_chat: sessionRef,
+  loadOlder: z.object({
+    sessionId: uuid.optional(),
+    before: uuid,
+    limit: z.number().int().positive().optional(),
+  }),
+  typing,
+  delivered: receipt,
+  read: receipt,
+} satisfies Record<keyof ClientToServerEvents, ZodTypeAny>;
+
+const operatorSessionRef = z.object({ sessionId: uuid });
+
+export const operatorEventSchemas = {
+  listSessions: z.object({}),
+  joinSession: operatorSessionRef,
+  leaveSession: operatorSessionRef,
+  message: z.object({ sessionId: uuid, content: z.string().trim().min(1).max(MAX_MESSAGE_LENGTH) }),
+  typing: typing.required({ sessionId: true }),
+  delivered: receipt.required({ sessionId: true }),
+  read: receipt.required({ sessionId: true }),
+} satisfies Record<keyof OperatorClientToServerEvents, ZodTypeAny>;
+
+/** The part of a visitor or operator socket `parsePayload` reports through */
+interface PayloadSocket {
+  id: string;
+  emit(event: 'error', payload: { message: string; code?: string }): boolean;
+}
+
+/** Malformed payloads are answered with an INVALID_PAYLOAD error and otherwise ignored */
+export function parsePayload<T extends ZodTypeAny>(socket: PayloadSocket, schema: T, payload: unknown): z.output<T> | undefined {
+  const parsed = parseWith(schema, payload ?? {});
+  if (typeof parsed !== 'string') return parsed;
+  logger.warn(`⚠️ Invalid socket payload from ${socket.id}: ${parsed}`);
+  socket.emit('error', { message: parsed, code: 'INVALID_PAYLOAD' });
+  return undefined;
+}
+
+// ===================
+// SERVER -> CLIENT (documentation only)
+// ===================
+
+const attachmentDto = z.object({
+  id: uuid,
+  fileName: z.string(),
+  mimeType: z.string(),
+  size: z.number().int(),
+  url: z.string().describe('Signed, time-limited download link'),
+});
+
+const chatMessageDto = z.object({
+  id: uuid,
+  sender: z.nativeEnum(message_role),
+  content: z.string(),
+  createdAt: z.string().datetime(),
+  deliveredAt: z.string().datetime().nullable(),
+  readAt: z.string().datetime().nullable(),
+  attachments: z.array(attachmentDto),
+  rich: jsonObject.nullable().describe('Quick replies, buttons, cards and forms, or the visitor response to them'),
+});
+
+const messagePage = z.object({ messages: z.array(chatMessageDto), olderCursor: uuid.nullable() });
+
+const typingEvent = z.object({
+  sessionId: uuid,
+  sender: z.nativeEnum(message_role),
+  isTyping: z.boolean(),
+  name: z.string().optional(),
+});
+
+const receiptEvent = z.object({
+  sessionId: uuid,
+  messageIds: z.array(uuid),
+  status: z.enum(['delivered', 'read']),
+  at: z.string().datetime(),
+});
+
+const errorEvent = z.object({
+  message: z.string(),
+  code: z.string().optional().describe('RATE_LIMITED or INVALID_PAYLOAD'),
+  retryAfter: z.number().optional(),
+});
+
+const serverEventSchemas = {
+  session: z.object({ sessionId: uuid, visitorId: z.string(), status: z.nativeEnum(chat_session_status), token: z.string() }),
+  history: messagePage,
+  olderMessages: messagePage,
+  message: chatMessageDto,
+  message_delta: z.object({ id: uuid, sessionId: uuid, delta: z.string() }),
+  message_complete: chatMessageDto,
+  message_reset: z.object({ id: uuid, sessionId: uuid }),
+  status: z.object({
+    status: z.nativeEnum(chat_session_status),
+    reply: z.enum(['DELAYED', 'DELIVERED', 'FAILED']).optional(),
+    message: z.string().optional(),
+  }),
+  error: errorEvent,
+  sessionClosed: z.object({ sessionId: uuid, message: z.string() }),
+  contactSaved: z.object({ id: uuid }),
+  typing: typingEvent,
+  receipt: receiptEvent,
+} satisfies Record<keyof ServerToClientEvents, ZodTypeAny>;
+
+const operatorServerEventSchemas = {
+  sessions: z.object({
+    sessions: z.array(
+      z.object({
+        id: uuid,
+        visitorId: z.string(),
+        status: z.nativeEnum(chat_session_status),
+        metadata: z.unknown(),
+        createdAt: z.string().datetime(),
+        lastActiveAt: z.string().datetime(),
+        agentId: z.string().nullable(),
+        agentName: z.string().nullable(),
+      })
+    ),
+  }),
+  joined: z.object({ sessionId: uuid, messages: z.array(chatMessageDto) }),
+  left: z.object({ sessionId: uuid }),
+  message: chatMessageDto.extend({ sessionId: uuid }),
+  typing: typingEvent,
+  receipt: receiptEvent,
+  error: errorEvent,
+} satisfies Record<keyof OperatorServerToClientEvents, ZodTypeAny>;
+
+// ===================
+// ASYNCAPI DOCUMENT
+// ===================
+
+function schemaName(prefix: string, event: string, suffix: string): string {
+  const pascal = event.replace(/(^|_)(\w)/g, (_match, _sep, letter: string) => letter.toUpperCase());
+  return `${prefix}${pascal}${suffix}`;
+}
+
+function messages(registry: OpenAPIRegistry, prefix: string, suffix: string, schemas: Record<string, ZodTypeAny>) {
+  return {
+    oneOf: Object.entries(schemas).map(([event, schema]) => {
+      const name = schemaName(prefix, event, suffix);
+      registry.register(name, schema);
+      return {
+        name: event,
+        schemaFormat: 'application/vnd.oai.openapi;version=3.0.0',
+        payload: { $ref: `#/components/schemas/${name}` },
+      };
+    }),
+  };
+}
+
+/**
+ * AsyncAPI 2.6 description of the Socket.IO events, built from the same
+ * schemas the handlers validate with. `publish` lists what clients emit,
+ * `subscribe` what the server emits to them.
+ */
+export function buildAsyncApiDocument() {
+  const registry = new OpenAPIRegistry();
+  const channels = {
+    '/': {
+      description:
+        'Visitor namespace used by the chat widget. Connect with `auth: { widgetKey?, token?, apiKey?, visitorId?, sessionId?, metadata? }`.',
+      publish: { message: messages(registry, 'Visitor', 'Payload', visitorEventSchemas) },
+      subscribe: { message: messages(registry, 'Visitor', 'Event', serverEventSchemas) },
+    },
+    '/operator': {
+      description: 'Operator namespace for human agents. Connect with `auth: { apiKey, name? }` using a per-agent ADMIN or AGENT key (not API_SECRET).',
+      publish: { message: messages(registry, 'Operator', 'Payload', operatorEventSchemas) },
+      subscribe: { message: messages(registry, 'Operator', 'Event', operatorServerEventSchemas) },
+    },
+  };
+
+  return {
+    asyncapi: '2.6.0',
+    info: {
+      title: 'PixelPunch Chat Middleware Socket.IO events',
+      version: process.env.npm_package_version ?? '0.1.0',
+      description:
+        'Invalid client payloads are answered with an `error` event carrying `code: "INVALID_PAYLOAD"` and are otherwise ignored.',
+    },
+    defaultContentType: 'application/json',
+    channels,
+    components: new OpenApiGeneratorV3(registry.definitions).generateComponents().components,
+  };
+}
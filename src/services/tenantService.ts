@@ -0,0 +1,81 @@
+import { randomBytes } from 'crypto';
+import type { Prisma, Widget } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { env } from '../config/env';
+import logger from '../utils/logger';
+import type { AuthContext } from './authService';
+import { defaultN8nTarget, type N8nTarget } from './n8nService';
+
+const WIDGET_KEY_PREFIX = 'pk_';
+// Widget settings change rarely; every instance re-reads them at most this often
+const WIDGET_CACHE_TTL_MS = 60 * 1000;
+
+let widgetCache: { widgets: Promise<Widget[]>; expiresAt: number } | null = null;
+
+function loadActiveWidgets(): Promise<Widget[]> {
+  if (!widgetCache || widgetCache.expiresAt < Date.now()) {
+    const widgets = prisma.widget.findMany({ where: { active: true } });
+    widgetCache = { widgets, expiresAt: Date.now() + WIDGET_CACHE_TTL_MS };
+    widgets.catch((error) => {
+      logger.error('Failed to load widgets', error);
+      widgetCache = null;
+    });
+  }
+  return widgetCache.widgets;
+}
+
+/** Drops cached widget settings so admin edits apply immediately on this instance */
+export function invalidateWidgetCache() {
+  widgetCache = null;
+}
+
+/** Public keys are embedded in customer pages, so they identify a widget but grant no admin access */
+export function generateWidgetKey(): string {
+  return `${WIDGET_KEY_PREFIX}${randomBytes(16).toString('hex')}`;
+}
+
+export async function getWidgetByPublicKey(publicKey: string | undefined): Promise<Widget | null> {
+  const key = publicKey?.trim();
+  if (!key) return null;
+  return (await loadActiveWidgets()).find((widget) => widget.public_key === key) ?? null;
+}
+
+export async function getWidget(widgetId: string | null | undefined): Promise<Widget | null> {
+  if (!widgetId) return null;
+  return (await loadActiveWidgets()).find((widget) => widget.id === widgetId) ?? null;
+}
+
+/** A widget without its own origin list accepts the deployment-wide CORS_ORIGIN list */
+export function widgetAllowsOrigin(widget: Widget, origin: string | undefined): boolean {
+  if (!origin || !widget.allowed_origins.length) return true;
+  return widget.allowed_origins.includes(origin);
+}
+
+export async function isOriginAllowed(origin: string | undefined): Promise<boolean> {
+  if (!origin || env.corsOrigins.includes('*') || env.corsOrigins.includes(origin)) return true;
+  return (await loadActiveWidgets()).some((widget) => widget.allowed_origins.includes(origin));
+}
+
+/** CORS origin callback shared by Express and Socket.IO */
+export function corsOrigin(origin: string | undefined, callback: (err: Error | null, allow?: boolean) => void) {
+  isOriginAllowed(origin)
+    .then((allowed) => callback(null, allowed))
+    .catch(() => callback(null, env.corsOrigins.includes(origin ?? '')));
+}
+
+export function n8nTargetFor(widget: Widget | null): N8nTarget {
+  return {
+    webhookUrl: widget?.n8n_webhook_url || defaultN8nTarget.webhookUrl,
+    timeoutMs: widget?.n8n_timeout_ms ?? defaultN8nTarget.timeoutMs,
+  };
+}
+
+export function getTenantId(auth: AuthContext | null | undefined): string | undefined {
+  return auth?.kind === 'admin' || auth?.kind === 'agent' ? auth.tenantId : undefined;
+}
+
+/** Restricts session queries to the caller's tenant; deployment-wide keys see every session */
+export function tenantScope(auth: AuthContext | null | undefined): Prisma.ChatSessionWhereInput {
+  const tenantId = getTenantId(auth);
+  return tenantId ? { tenant_id: tenantId } : {};
+}
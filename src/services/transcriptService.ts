@@ -0,0 +1,235 @@
+import type { ChatMessage, ChatSession, message_role, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export const TRANSCRIPT_FORMATS = ['json', 'csv', 'md', 'html'] as const;
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+const ROLE_LABELS: Record<message_role, string> = {
+  USER: 'Visitor',
+  BOT: 'Assistant',
+  AGENT: 'Agent',
+  SYSTEM: 'System',
+};
+
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+export interface TranscriptMessage {
+  id: string;
+  role: message_role;
+  label: string;
+  content: string;
+  createdAt: string;
+  localTime: string;
+}
+
+export interface Transcript {
+  session: {
+    id: string;
+    visitorId: string;
+    status: string;
+    metadata: unknown;
+    createdAt: string;
+    lastActiveAt: string;
+    localCreatedAt: string;
+  };
+  timezone: string;
+  messages: TranscriptMessage[];
+}
+
+type SessionWithMessages = ChatSession & { chat_message: ChatMessage[] };
+
+function formatLocalTime(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'short',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '';
+  return `${part('year')}-${part('month')}-${part('day')} ${part('hour')}:${part('minute')}:${part('second')} ${part('timeZoneName')}`;
+}
+
+export function buildTranscript(session: SessionWithMessages, timezone: string): Transcript {
+  return {
+    session: {
+      id: session.id,
+      visitorId: session.visitor_id,
+      status: session.status,
+      metadata: session.metadata,
+      createdAt: session.created_at.toISOString(),
+      lastActiveAt: session.last_active_at.toISOString(),
+      localCreatedAt: formatLocalTime(session.created_at, timezone),
+    },
+    timezone,
+    messages: session.chat_message.map((message) => ({
+      id: message.id,
+      role: message.role,
+      label: ROLE_LABELS[message.role],
+      content: message.content,
+      createdAt: message.created_at.toISOString(),
+      localTime: formatLocalTime(message.created_at, timezone),
+    })),
+  };
+}
+
+export async function loadTranscript(sessionId: string, timezone: string): Promise<Transcript | null> {
+  const session = await prisma.chatSession.findUnique({
+    where: { id: sessionId },
+    include: { chat_message: { orderBy: { created_at: 'asc' } } },
+  });
+  return session ? buildTranscript(session, timezone) : null;
+}
+
+/**
+ * Yields sessions created in [from, to) with their messages, in batches so a
+ * bulk export never holds the whole range in memory.
+ */
+export async function* iterateSessions(
+  from: Date,
+  to: Date,
+  scope: Prisma.ChatSessionWhereInput = {},
+  batchSize = 50
+): AsyncGenerator<SessionWithMessages> {
+  let cursor: string | undefined;
+
+  for (;;) {
+    const batch = await prisma.chatSession.findMany({
+      where: { ...scope, created_at: { gte: from, lt: to } },
+      include: { chat_message: { orderBy: { created_at: 'asc' } } },
+      orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+      take: batchSize,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (!batch.length) return;
+
+    yield* batch;
+    if (batch.length < batchSize) return;
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+// Spreadsheets run cells starting with these as formulas; a leading ' keeps them text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsv(value: string): string {
+  const cell = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderCsv(transcript: Transcript): string {
+  const header = ['session_id', 'visitor_id', 'message_id', 'role', 'label', 'timestamp', 'local_time', 'content'];
+  const rows = transcript.messages.map((message) =>
+    [
+      transcript.session.id,
+      transcript.session.visitorId,
+      message.id,
+      message.role,
+      message.label,
+      message.createdAt,
+      message.localTime,
+      message.content,
+    ]
+      .map(escapeCsv)
+      .join(',')
+  );
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function renderMarkdown(transcript: Transcript): string {
+  const { session } = transcript;
+  const lines = [
+    `# Chat transcript ${session.id}`,
+    '',
+    `- **Visitor:** ${session.visitorId}`,
+    `- **Status:** ${session.status}`,
+    `- **Started:** ${session.localCreatedAt}`,
+    `- **Metadata:** \`${JSON.stringify(session.metadata)}\``,
+    '',
+    '---',
+    '',
+  ];
+  for (const message of transcript.messages) {
+    lines.push(`**${message.label}** · _${message.localTime}_`, '', message.content, '');
+  }
+  return lines.join('\n');
+}
+
+function renderHtml(transcript: Transcript): string {
+  const { session } = transcript;
+  const messages = transcript.messages
+    .map(
+      (message) => `    <li class="${message.role.toLowerCase()}">
+      <div class="meta"><strong>${escapeHtml(message.label)}</strong> <time datetime="${message.createdAt}">${escapeHtml(message.localTime)}</time></div>
+      <div class="content">${escapeHtml(message.content).replace(/\n/g, '<br>')}</div>
+    </li>`
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Chat transcript ${escapeHtml(session.id)}</title>
+  <style>
+    body { font-family: sans-serif; max-width: 720px; margin: 2rem auto; color: #111827; }
+    dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 12px; }
+    ul { list-style: none; padding: 0; }
+    li { margin-bottom: 12px; padding: 8px 12px; border-radius: 8px; background: #f3f4f6; }
+    li.user { background: #eef2ff; }
+    li.agent { background: #ecfdf5; }
+    li.system { background: none; color: #6b7280; font-size: 0.9em; }
+    .meta { font-size: 0.85em; color: #6b7280; margin-bottom: 4px; }
+  </style>
+</head>
+<body>
+  <h1>Chat transcript</h1>
+  <dl>
+    <dt>Session</dt><dd>${escapeHtml(session.id)}</dd>
+    <dt>Visitor</dt><dd>${escapeHtml(session.visitorId)}</dd>
+    <dt>Status</dt><dd>${escapeHtml(session.status)}</dd>
+    <dt>Started</dt><dd>${escapeHtml(session.localCreatedAt)}</dd>
+    <dt>Metadata</dt><dd><code>${escapeHtml(JSON.stringify(session.metadata))}</code></dd>
+  </dl>
+  <ul>
+${messages}
+  </ul>
+</body>
+</html>
+`;
+}
+
+export function renderTranscript(transcript: Transcript, format: TranscriptFormat): string {
+  switch (format) {
+    case 'csv':
+      return renderCsv(transcript);
+    case 'md':
+      return renderMarkdown(transcript);
+    case 'html':
+      return renderHtml(transcript);
+    default:
+      return JSON.stringify(transcript, null, 2);
+  }
+}
+
+export function transcriptContentType(format: TranscriptFormat): string {
+  return CONTENT_TYPES[format];
+}
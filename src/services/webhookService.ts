@@ -0,0 +1,271 @@
+import axios from 'axios';
+import { randomBytes } from 'crypto';
+import { schedule, ScheduledTask } from 'node-cron';
+import { v4 as uuid } from 'uuid';
+import {
+  outbound_job_status,
+  type ChatSession,
+  type Contacts,
+  type Prisma,
+  type WebhookDelivery,
+  type WebhookSubscription,
+} from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { env } from '../config/env';
+import { computeSignature, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '../middleware/signature';
+import logger from '../utils/logger';
+import { isPrivateUrl, publicAddressLookup } from '../utils/network';
+
+export const WEBHOOK_EVENTS = [
+  'session.created',
+  'message.created',
+  'session.inactive',
+  'session.closed',
+  'session.summarized',
+  'contact.created',
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** Body POSTed to subscribers; `id` is stable across retries and redeliveries */
+export interface WebhookEnvelope {
+  id: string;
+  type: WebhookEvent;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+/** Whose subscriptions receive an event: a known tenant (null for none), or the tenant of a session */
+export type WebhookAudience = { tenantId: string | null } | { sessionId: string | null | undefined };
+
+const BATCH_SIZE = 20;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+const STALE_PROCESSING_MINUTES = 5;
+const MAX_ERROR_LENGTH = 500;
+
+type DeliveryWithSubscription = WebhookDelivery & { webhook_subscription: WebhookSubscription };
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+export function sessionEventData(session: ChatSession) {
+  return {
+    session: {
+      id: session.id,
+      visitorId: session.visitor_id,
+      status: session.status,
+      closedReason: session.closed_reason,
+      summary: session.summary,
+      outcomeTags: session.outcome_tags,
+      metadata: session.metadata,
+      tenantId: session.tenant_id,
+      widgetId: session.widget_id,
+      createdAt: session.created_at.toISOString(),
+      lastActiveAt: session.last_active_at.toISOString(),
+    },
+  };
+}
+
+export function contactEventData(contact: Contacts) {
+  return {
+    contact: {
+      id: contact.id,
+      name: contact.name,
+      email: contact.email,
+      summary: contact.summary,
+      message: contact.message,
+      conversationSource: contact.conversation_source,
+      sessionId: contact.sessionId,
+      createdAt: contact.created_at?.toISOString() ?? null,
+    },
+  };
+}
+
+function subscriptionsFor(event: WebhookEvent, audience: WebhookAudience): Prisma.WebhookSubscriptionWhereInput {
+  const tenantMatch: Prisma.WebhookSubscriptionWhereInput[] = [{ tenant_id: null }];
+  if ('tenantId' in audience && audience.tenantId) {
+    tenantMatch.push({ tenant_id: audience.tenantId });
+  } else if ('sessionId' in audience && audience.sessionId) {
+    tenantMatch.push({ tenant: { chat_session: { some: { id: audience.sessionId } } } });
+  }
+  return { active: true, events: { has: event }, OR: tenantMatch };
+}
+
+async function enqueueEvent(event: WebhookEvent, data: Record<string, unknown>, audience: WebhookAudience) {
+  const subscriptions = await prisma.webhookSubscription.findMany({
+    where: subscriptionsFor(event, audience),
+    select: { id: true },
+  });
+  if (!subscriptions.length) return;
+
+  const envelope: WebhookEnvelope = { id: uuid(), type: event, createdAt: new Date().toISOString(), data };
+  await prisma.webhookDelivery.createMany({
+    data: subscriptions.map((subscription) => ({
+      subscription_id: subscription.id,
+      event,
+      event_id: envelope.id,
+      payload: envelope as unknown as Prisma.InputJsonValue,
+      max_attempts: env.webhookMaxAttempts,
+    })),
+  });
+}
+
+/**
+ * Queues an event for every matching subscription. Never throws: webhooks are
+ * best-effort side effects and must not fail the chat flow that raised them.
+ */
+export function publishEvent(event: WebhookEvent, data: Record<string, unknown>, audience: WebhookAudience): void {
+  enqueueEvent(event, data, audience).catch((error) => {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to queue ${event} webhook: ${errMsg}`);
+  });
+}
+
+function webhookRetryDelayMs(attempts: number): number {
+  const base = env.webhookRetryBaseSeconds * 1000 * 2 ** Math.max(attempts - 1, 0);
+  const jitter = Math.random() * 0.2 * base;
+  return Math.min(base + jitter, MAX_BACKOFF_MS);
+}
+
+async function claimDueDeliveries(): Promise<DeliveryWithSubscription[]> {
+  const claimed = await prisma.$queryRaw<{ id: string }[]>`
+    UPDATE webhook_delivery
+    SET status = 'PROCESSING', updated_at = now()
+    WHERE id IN (
+      SELECT id FROM webhook_delivery
+      WHERE (status = 'PENDING' AND next_attempt_at <= now())
+         OR (status = 'PROCESSING' AND updated_at < now() - make_interval(mins => ${STALE_PROCESSING_MINUTES}))
+      ORDER BY next_attempt_at
+      LIMIT ${BATCH_SIZE}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id`;
+
+  if (!claimed.length) return [];
+  return prisma.webhookDelivery.findMany({
+    where: { id: { in: claimed.map((row) => row.id) } },
+    include: { webhook_subscription: true },
+    orderBy: { next_attempt_at: 'asc' },
+  });
+}
+
+/**
+ * POSTs the envelope signed like inbound callbacks: HMAC-SHA256 over `<timestamp>.<body>`.
+ * Tenant subscriptions are checked again here, since their DNS may change after they were saved.
+ */
+async function sendDelivery(delivery: DeliveryWithSubscription): Promise<number> {
+  const tenantOwned = !!delivery.webhook_subscription.tenant_id;
+  if (tenantOwned && (await isPrivateUrl(delivery.webhook_subscription.url))) {
+    throw new Error('Tenant webhook URL points to a private address');
+  }
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const response = await axios.post(delivery.webhook_subscription.url, body, {
+    headers: {
+      'Content-Type': 'application/json',
+      [SIGNATURE_HEADER]: `sha256=${computeSignature(delivery.webhook_subscription.secret, timestamp, body)}`,
+      [TIMESTAMP_HEADER]: timestamp,
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Id': delivery.event_id,
+      'X-Webhook-Delivery': delivery.id,
+    },
+    timeout: env.webhookTimeoutMs,
+    maxRedirects: 0,
+    validateStatus: () => true,
+    ...(tenantOwned ? { lookup: publicAddressLookup } : {}),
+  });
+  if (response.status < 200 || response.status >= 300) {
+    throw Object.assign(new Error(`Subscriber responded with HTTP ${response.status}`), { status: response.status });
+  }
+  return response.status;
+}
+
+async function failDelivery(delivery: WebhookDelivery, error: unknown) {
+  const lastError = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+  const responseStatus = (error as { status?: number })?.status ?? null;
+  const attempts = delivery.attempts + 1;
+  const dead = attempts >= delivery.max_attempts;
+
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: dead ? outbound_job_status.DEAD : outbound_job_status.PENDING,
+      attempts,
+      response_status: responseStatus,
+      last_error: lastError,
+      ...(dead ? {} : { next_attempt_at: new Date(Date.now() + webhookRetryDelayMs(attempts)) }),
+    },
+  });
+
+  if (dead) {
+    logger.error(`💀 Webhook delivery ${delivery.id} (${delivery.event}) gave up after ${attempts} attempts: ${lastError}`);
+  } else {
+    logger.warn(`🔁 Webhook delivery ${delivery.id} failed (attempt ${attempts}/${delivery.max_attempts}): ${lastError}`);
+  }
+}
+
+async function runDueDeliveries() {
+  const deliveries = await claimDueDeliveries();
+  for (const delivery of deliveries) {
+    if (!delivery.webhook_subscription.active) {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: outbound_job_status.DEAD, last_error: 'Subscription is disabled' },
+      });
+      continue;
+    }
+
+    try {
+      const responseStatus = await sendDelivery(delivery);
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: outbound_job_status.SUCCEEDED,
+          attempts: delivery.attempts + 1,
+          response_status: responseStatus,
+          last_error: null,
+          completed_at: new Date(),
+        },
+      });
+    } catch (error) {
+      await failDelivery(delivery, error);
+    }
+  }
+}
+
+export function startWebhookWorker(): ScheduledTask {
+  let running = false;
+
+  return schedule('*/5 * * * * *', async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDueDeliveries();
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.stack || error.message : String(error);
+      logger.error(`Webhook worker failed: ${errMsg}`);
+    } finally {
+      running = false;
+    }
+  });
+}
+
+/** Queues a fresh copy of a past delivery (same event id and payload) with a new retry budget */
+export async function redeliver(id: string, tenantId?: string): Promise<WebhookDelivery | null> {
+  const original = await prisma.webhookDelivery.findFirst({
+    where: { id, ...(tenantId ? { webhook_subscription: { tenant_id: tenantId } } : {}) },
+  });
+  if (!original) return null;
+
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      subscription_id: original.subscription_id,
+      event: original.event,
+      event_id: original.event_id,
+      payload: original.payload as Prisma.InputJsonValue,
+      max_attempts: env.webhookMaxAttempts,
+    },
+  });
+  logger.info(`♻️ Webhook delivery ${original.id} queued again as ${delivery.id}`);
+  return delivery;
+}
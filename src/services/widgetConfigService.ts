@@ -0,0 +1,263 @@
+import { createHash } from 'crypto';
+import type { Prisma, Widget } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import logger from '../utils/logger';
+import { isValidTimeZone } from '../utils/query';
+
+export const WIDGET_POSITIONS = ['bottom-right', 'bottom-left'] as const;
+export const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
+
+export type WidgetPosition = (typeof WIDGET_POSITIONS)[number];
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface WidgetColors {
+  primary: string;
+  header: string;
+  headerText: string;
+  background: string;
+  userBubble: string;
+  botBubble: string;
+}
+
+export interface WidgetStrings {
+  title: string;
+  inputPlaceholder: string;
+  sendButton: string;
+  contactToggle: string;
+  connectionError: string;
+  loadOlder: string;
+  delivered: string;
+  seen: string;
+  attachButton: string;
+  uploadFailed: string;
+  formSubmit: string;
+}
+
+export interface OfficeHours {
+  /** IANA time zone the opening times are expressed in */
+  timezone: string;
+  /** "HH:MM" opening times per weekday; missing days are closed */
+  days: Partial<Record<Weekday, { open: string; close: string }>>;
+  /** Shown instead of the welcome message outside office hours */
+  offlineMessage: string;
+}
+
+export interface WidgetConfig {
+  welcomeMessage: string | null;
+  launcherText: string;
+  position: WidgetPosition;
+  colors: WidgetColors;
+  strings: WidgetStrings;
+  starterQuestions: string[];
+  officeHours: OfficeHours | null;
+  privacyNotice: string | null;
+  socketIoUrl: string;
+}
+
+/** What admins store: any subset, colors and strings merged key by key over the defaults */
+export type StoredWidgetConfig = Partial<Omit<WidgetConfig, 'colors' | 'strings'>> & {
+  colors?: Partial<WidgetColors>;
+  strings?: Partial<WidgetStrings>;
+};
+
+export interface ResolvedWidgetConfig extends WidgetConfig {
+  /** Free-form branding stored on the tenant widget */
+  branding: unknown;
+}
+
+// Matches what chat-widget.js rendered before the config endpoint existed
+export const DEFAULT_WIDGET_CONFIG: WidgetConfig = {
+  welcomeMessage: null,
+  launcherText: 'Chat with us',
+  position: 'bottom-right',
+  colors: {
+    primary: '#4f46e5',
+    header: '#111827',
+    headerText: '#ffffff',
+    background: '#ffffff',
+    userBubble: '#4f46e5',
+    botBubble: '#f3f4f6',
+  },
+  strings: {
+    title: 'Ask our AI Assistant',
+    inputPlaceholder: 'Type a message...',
+    sendButton: 'Send',
+    contactToggle: 'Leave your contact details',
+    connectionError: 'Unable to reach chat server.',
+    loadOlder: 'Load earlier messages',
+    delivered: 'Delivered',
+    seen: 'Seen',
+    attachButton: 'Attach a file',
+    uploadFailed: 'Upload failed. Please try again.',
+    formSubmit: 'Submit',
+  },
+  starterQuestions: [],
+  officeHours: null,
+  privacyNotice: null,
+  socketIoUrl: 'https://cdn.socket.io/4.7.5/socket.io.min.js',
+};
+
+const MAX_TEXT_LENGTH = 1000;
+const MAX_STARTER_QUESTIONS = 6;
+// Colors are interpolated into the widget's stylesheet, so only plain hex values are accepted
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= MAX_TEXT_LENGTH;
+}
+
+function parseOfficeHours(value: unknown): OfficeHours | string {
+  if (!isPlainObject(value)) return 'officeHours must be an object or null';
+  const { timezone, days, offlineMessage } = value;
+  if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+    return 'officeHours.timezone must be a valid IANA time zone';
+  }
+  if (!isText(offlineMessage)) return 'officeHours.offlineMessage must be a string';
+  if (!isPlainObject(days)) return 'officeHours.days must be an object';
+
+  const parsedDays: OfficeHours['days'] = {};
+  for (const [day, hours] of Object.entries(days)) {
+    if (!WEEKDAYS.includes(day as Weekday)) return `officeHours.days keys must be one of ${WEEKDAYS.join(', ')}`;
+    if (hours === null) continue;
+    if (!isPlainObject(hours) || typeof hours.open !== 'string' || typeof hours.close !== 'string') {
+      return `officeHours.days.${day} must be { open, close } or null`;
+    }
+    if (!TIME_OF_DAY.test(hours.open) || !TIME_OF_DAY.test(hours.close) || hours.open >= hours.close) {
+      return `officeHours.days.${day} must use HH:MM times with open before close`;
+    }
+    parsedDays[day as Weekday] = { open: hours.open, close: hours.close };
+  }
+  return { timezone, days: parsedDays, offlineMessage };
+}
+
+/** Validates an admin-supplied config; returns a human readable error when invalid */
+export function parseWidgetConfig(input: unknown): StoredWidgetConfig | string {
+  if (!isPlainObject(input)) return 'config must be an object';
+  const config: StoredWidgetConfig = {};
+
+  for (const [key, value] of Object.entries(input)) {
+    switch (key) {
+      case 'welcomeMessage':
+      case 'privacyNotice':
+        if (value !== null && !isText(value)) return `${key} must be a string or null`;
+        config[key] = value;
+        break;
+      case 'launcherText':
+        if (!isText(value) || !value.trim()) return 'launcherText must be a non-empty string';
+        config.launcherText = value;
+        break;
+      case 'position':
+        if (!WIDGET_POSITIONS.includes(value as WidgetPosition)) {
+          return `position must be one of ${WIDGET_POSITIONS.join(', ')}`;
+        }
+        config.position = value as WidgetPosition;
+        break;
+      case 'colors':
+        if (!isPlainObject(value)) return 'colors must be an object';
+        for (const [name, color] of Object.entries(value)) {
+          if (!(name in DEFAULT_WIDGET_CONFIG.colors)) return `Unknown color: ${name}`;
+          if (typeof color !== 'string' || !HEX_COLOR.test(color)) return `colors.${name} must be a hex color`;
+        }
+        config.colors = value as Partial<WidgetColors>;
+        break;
+      case 'strings':
+        if (!isPlainObject(value)) return 'strings must be an object';
+        for (const [name, text] of Object.entries(value)) {
+          if (!(name in DEFAULT_WIDGET_CONFIG.strings)) return `Unknown string: ${name}`;
+          if (!isText(text)) return `strings.${name} must be a string`;
+        }
+        config.strings = value as Partial<WidgetStrings>;
+        break;
+      case 'starterQuestions':
+        if (
+          !Array.isArray(value) ||
+          value.length > MAX_STARTER_QUESTIONS ||
+          !value.every((question) => isText(question) && question.trim())
+        ) {
+          return `starterQuestions must be an array of up to ${MAX_STARTER_QUESTIONS} non-empty strings`;
+        }
+        config.starterQuestions = value;
+        break;
+      case 'officeHours': {
+        if (value === null) {
+          config.officeHours = null;
+          break;
+        }
+        const officeHours = parseOfficeHours(value);
+        if (typeof officeHours === 'string') return officeHours;
+        config.officeHours = officeHours;
+        break;
+      }
+      case 'socketIoUrl':
+        if (typeof value !== 'string' || !value.startsWith('https://')) return 'socketIoUrl must be an https URL';
+        config.socketIoUrl = value;
+        break;
+      default:
+        return `Unknown config field: ${key}`;
+    }
+  }
+  return config;
+}
+
+function applyConfig(base: WidgetConfig, stored: StoredWidgetConfig): WidgetConfig {
+  return {
+    ...base,
+    ...stored,
+    colors: { ...base.colors, ...stored.colors },
+    strings: { ...base.strings, ...stored.strings },
+  };
+}
+
+async function loadStoredConfig(widgetId: string | null): Promise<StoredWidgetConfig> {
+  const row = await prisma.widgetConfig.findFirst({ where: { widget_id: widgetId }, select: { config: true } });
+  // Stored configs were validated on write; a row edited by hand is re-checked and skipped when invalid
+  const parsed = row ? parseWidgetConfig(row.config) : {};
+  if (typeof parsed === 'string') {
+    logger.warn(`⚠️ Ignoring invalid widget config (widget=${widgetId ?? 'default'}): ${parsed}`);
+    return {};
+  }
+  return parsed;
+}
+
+/** Built-in defaults, overlaid with the deployment default and then the widget's own config */
+export async function getWidgetConfig(widget: Widget | null): Promise<ResolvedWidgetConfig> {
+  const [deploymentConfig, widgetConfig] = await Promise.all([
+    loadStoredConfig(null),
+    widget ? loadStoredConfig(widget.id) : Promise.resolve({}),
+  ]);
+  return {
+    ...applyConfig(applyConfig(DEFAULT_WIDGET_CONFIG, deploymentConfig), widgetConfig),
+    branding: widget?.branding ?? {},
+  };
+}
+
+export function widgetConfigEtag(config: ResolvedWidgetConfig): string {
+  return `"${createHash('sha1').update(JSON.stringify(config)).digest('base64url')}"`;
+}
+
+/** Replaces the stored config of a widget, or the deployment default when `widgetId` is null */
+export async function saveWidgetConfig(widgetId: string | null, config: StoredWidgetConfig, updatedBy: string) {
+  const data = { config: config as Prisma.InputJsonObject, updated_by: updatedBy };
+
+  if (widgetId) {
+    await prisma.widgetConfig.upsert({
+      where: { widget_id: widgetId },
+      create: { ...data, widget_id: widgetId },
+      update: data,
+    });
+  } else {
+    // NULL never conflicts on the unique index, so the default row is matched by hand
+    const existing = await prisma.widgetConfig.findFirst({ where: { widget_id: null }, select: { id: true } });
+    if (existing) {
+      await prisma.widgetConfig.update({ where: { id: existing.id }, data });
+    } else {
+      await prisma.widgetConfig.create({ data });
+    }
+  }
+  logger.info(`🎨 Widget config updated (widget=${widgetId ?? 'default'}) by ${updatedBy}`);
+}
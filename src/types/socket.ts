@@ -0,0 +1,201 @@
+import type { Namespace, Server as SocketIOServer, Socket } from 'socket.io';
+import type { chat_session_status, message_role } from '@prisma/client';
+import type { AuthContext } from '../services/authService';
+import type { RichContent, RichResponse } from '../services/richMessageService';
+
+export type AttachmentDto = {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  /** Signed, time-limited download link */
+  url: string;
+};
+
+export type ChatMessageDto = {
+  id: string;
+  sender: message_role;
+  content: string;
+  createdAt: string;
+  deliveredAt: string | null;
+  readAt: string | null;
+  attachments: AttachmentDto[];
+  /** Quick replies, buttons, cards and forms of a bot reply, or the visitor's response to them */
+  rich: RichContent | null;
+};
+
+// Delivery state of a bot reply that could not be produced right away
+export type BotReplyStatus = 'DELAYED' | 'DELIVERED' | 'FAILED';
+
+export type IncomingMessagePayload = {
+  sessionId?: string;
+  /** May be empty when the message only carries attachments */
+  content: string;
+  /** Ids returned by POST /api/sessions/:id/attachments */
+  attachmentIds?: string[];
+  /** Answers a quick reply or form of an earlier bot message; the server derives `content` from it */
+  response?: RichResponse;
+  metadata?: Record<string, unknown>;
+};
+
+export type HeartbeatPayload = {
+  sessionId?: string;
+};
+
+export type EndSessionPayload = {
+  sessionId?: string;
+};
+
+export type LoadOlderPayload = {
+  sessionId?: string;
+  /** Id of the oldest message the client has (the `olderCursor` it was given) */
+  before: string;
+  limit?: number;
+};
+
+export type TypingPayload = {
+  sessionId?: string;
+  isTyping: boolean;
+};
+
+export type ReceiptStatus = 'delivered' | 'read';
+
+// Acknowledges messages sent by the other party; `read` implies `delivered`
+export type ReceiptPayload = {
+  sessionId?: string;
+  messageIds: string[];
+};
+
+// Presence signals: BOT while n8n is working, USER / AGENT relayed from the other side
+export type TypingEvent = {
+  sessionId: string;
+  sender: message_role;
+  isTyping: boolean;
+  name?: string;
+};
+
+export type ReceiptEvent = {
+  sessionId: string;
+  messageIds: string[];
+  status: ReceiptStatus;
+  at: string;
+};
+
+export type ContactFormPayload = {
+  sessionId?: string;
+  name?: string;
+  email?: string;
+  message?: string;
+};
+
+export type ClientToServerEvents = {
+  message: (payload: IncomingMessagePayload) => void;
+  contact: (payload: ContactFormPayload) => void;
+  heartbeat: (payload: HeartbeatPayload) => void;
+  endSession: (payload: EndSessionPayload) => void;
+  end_chat: (payload: EndSessionPayload) => void; // React frontend uses this event name
+  loadOlder: (payload: LoadOlderPayload) => void;
+  typing: (payload: TypingPayload) => void;
+  delivered: (payload: ReceiptPayload) => void;
+  read: (payload: ReceiptPayload) => void;
+};
+
+export type ServerToClientEvents = {
+  session: (payload: { sessionId: string; visitorId: string; status: chat_session_status; token: string }) => void;
+  // React frontend expects { messages: [] }; olderCursor is set when earlier messages exist
+  history: (payload: { messages: ChatMessageDto[]; olderCursor: string | null }) => void;
+  olderMessages: (payload: { messages: ChatMessageDto[]; olderCursor: string | null }) => void;
+  message: (payload: ChatMessageDto) => void;
+  // Streaming bot replies: deltas share the id of the final message_complete / message
+  message_delta: (payload: { id: string; sessionId: string; delta: string }) => void;
+  message_complete: (payload: ChatMessageDto) => void;
+  // The provider streaming `id` failed; drop its deltas, the next provider streams under the same id
+  message_reset: (payload: { id: string; sessionId: string }) => void;
+  status: (payload: { status: chat_session_status; reply?: BotReplyStatus; message?: string }) => void;
+  error: (payload: { message: string; code?: string; retryAfter?: number }) => void;
+  sessionClosed: (payload: { sessionId: string; message: string }) => void;
+  contactSaved: (payload: { id: string }) => void;
+  typing: (payload: TypingEvent) => void;
+  receipt: (payload: ReceiptEvent) => void;
+};
+
+export type InterServerEvents = Record<string, never>;
+
+export type SocketData = {
+  sessionId?: string;
+  visitorId?: string;
+  clientIp?: string;
+  auth?: AuthContext;
+  /** Tenant widget identified by the handshake `widgetKey` (unset for the default deployment) */
+  widgetId?: string;
+  tenantId?: string;
+};
+
+export type ChatServer = SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+export type ChatSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+// ===================
+// OPERATOR NAMESPACE (/operator)
+// ===================
+
+export type OperatorSessionDto = {
+  id: string;
+  visitorId: string;
+  status: chat_session_status;
+  metadata: unknown;
+  createdAt: string;
+  lastActiveAt: string;
+  agentId: string | null;
+  agentName: string | null;
+};
+
+export type OperatorMessageDto = ChatMessageDto & { sessionId: string };
+
+export type OperatorSessionPayload = {
+  sessionId: string;
+};
+
+export type OperatorMessagePayload = {
+  sessionId: string;
+  content: string;
+};
+
+export type OperatorClientToServerEvents = {
+  listSessions: () => void;
+  joinSession: (payload: OperatorSessionPayload) => void;
+  leaveSession: (payload: OperatorSessionPayload) => void; // Hands the session back to the bot
+  message: (payload: OperatorMessagePayload) => void;
+  typing: (payload: TypingPayload & { sessionId: string }) => void;
+  delivered: (payload: ReceiptPayload & { sessionId: string }) => void;
+  read: (payload: ReceiptPayload & { sessionId: string }) => void;
+};
+
+export type OperatorServerToClientEvents = {
+  sessions: (payload: { sessions: OperatorSessionDto[] }) => void;
+  joined: (payload: { sessionId: string; messages: ChatMessageDto[] }) => void;
+  left: (payload: { sessionId: string }) => void;
+  message: (payload: OperatorMessageDto) => void;
+  typing: (payload: TypingEvent) => void;
+  receipt: (payload: ReceiptEvent) => void;
+  error: (payload: { message: string; code?: string }) => void;
+};
+
+export type OperatorSocketData = {
+  auth?: AuthContext;
+  agentId?: string;
+  agentName?: string;
+  heldSessions?: string[];
+};
+
+export type OperatorNamespace = Namespace<
+  OperatorClientToServerEvents,
+  OperatorServerToClientEvents,
+  InterServerEvents,
+  OperatorSocketData
+>;
+export type OperatorSocket = Socket<
+  OperatorClientToServerEvents,
+  OperatorServerToClientEvents,
+  InterServerEvents,
+  OperatorSocketData
+>;
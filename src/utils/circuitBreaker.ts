@@ -0,0 +1,91 @@
+import logger from './logger';
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerOptions {
+  name: string;
+  /** Consecutive failures before the circuit opens */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial call is let through */
+  resetTimeoutMs: number;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(name: string) {
+    super(`Circuit "${name}" is open`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export function createCircuitBreaker({ name, failureThreshold, resetTimeoutMs }: CircuitBreakerOptions) {
+  let state: CircuitState = 'CLOSED';
+  let failures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  function currentState(): CircuitState {
+    if (state === 'OPEN' && Date.now() - openedAt >= resetTimeoutMs) {
+      state = 'HALF_OPEN';
+    }
+    return state;
+  }
+
+  function onSuccess() {
+    if (state !== 'CLOSED') {
+      logger.info(`🟢 Circuit "${name}" closed`);
+    }
+    state = 'CLOSED';
+    failures = 0;
+  }
+
+  function onFailure() {
+    failures += 1;
+    if (state === 'HALF_OPEN' || failures >= failureThreshold) {
+      if (state !== 'OPEN') {
+        logger.warn(`🔴 Circuit "${name}" opened after ${failures} failure(s)`);
+      }
+      state = 'OPEN';
+      openedAt = Date.now();
+    }
+  }
+
+  async function exec<T>(fn: () => Promise<T>): Promise<T> {
+    const current = currentState();
+    if (current === 'OPEN' || (current === 'HALF_OPEN' && trialInFlight)) {
+      throw new CircuitOpenError(name);
+    }
+
+    const isTrial = current === 'HALF_OPEN';
+    if (isTrial) trialInFlight = true;
+    try {
+      const result = await fn();
+      onSuccess();
+      return result;
+    } catch (error) {
+      onFailure();
+      throw error;
+    } finally {
+      if (isTrial) trialInFlight = false;
+    }
+  }
+
+  return {
+    exec,
+    state: currentState,
+    isOpen: () => currentState() === 'OPEN',
+  };
+}
+
+export type CircuitBreaker = ReturnType<typeof createCircuitBreaker>;
+
+const sharedBreakers = new Map<string, CircuitBreaker>();
+
+/** One breaker per upstream `key`, so every caller of the same service trips and resets it together */
+export function sharedCircuitBreaker(key: string, options: CircuitBreakerOptions): CircuitBreaker {
+  let breaker = sharedBreakers.get(key);
+  if (!breaker) {
+    breaker = createCircuitBreaker(options);
+    sharedBreakers.set(key, breaker);
+  }
+  return breaker;
+}
@@ -0,0 +1,28 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { v4 as uuid } from 'uuid';
+
+/** Sent on outbound bot requests and REST responses, accepted on incoming requests */
+export const CORRELATION_HEADER = 'X-Correlation-Id';
+
+const VALID_ID = /^[\w.:-]{1,128}$/;
+const storage = new AsyncLocalStorage<string>();
+
+/** The id of the conversation turn (or REST request) being handled, if any */
+export function getCorrelationId(): string | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Runs `fn` with a correlation id that every log line and outbound bot request
+ * inside it carries. A missing or malformed `id` is replaced by a fresh one.
+ */
+export function withCorrelationId<T>(id: string | undefined, fn: (correlationId: string) => T): T {
+  const correlationId = id && VALID_ID.test(id) ? id : uuid();
+  return storage.run(correlationId, fn, correlationId);
+}
+
+/** Header object for outbound requests made on behalf of the current turn */
+export function correlationHeaders(): Record<string, string> {
+  const correlationId = getCorrelationId();
+  return correlationId ? { [CORRELATION_HEADER]: correlationId } : {};
+}
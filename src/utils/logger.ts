@@ -1,7 +1,22 @@
 import winston from 'winston';
+import { getCorrelationId } from './correlation';
+import { redact } from './redaction';
 
 const isProd = process.env.NODE_ENV === 'production';
 
+// Visitors paste emails, phone and card numbers into chat: scrub them from every line (REDACT_LOGS)
+const redactFormat = winston.format((info) => {
+  if (typeof info.message === 'string') info.message = redact(info.message, 'logs');
+  return info;
+});
+
+// Lines written while handling a conversation turn or REST request carry its id
+const correlationFormat = winston.format((info) => {
+  const correlationId = getCorrelationId();
+  if (correlationId) info.correlationId = correlationId;
+  return info;
+});
+
 const consoleFormat = isProd
   ? winston.format.combine(winston.format.timestamp(), winston.format.json())
   : winston.format.combine(winston.format.colorize(), winston.format.simple());
@@ -13,6 +28,7 @@ const consoleTransport = new winston.transports.Console({
 
 const logger = winston.createLogger({
   level: 'info',
+  format: winston.format.combine(redactFormat(), correlationFormat()),
   transports: [consoleTransport],
 });
 
@@ -0,0 +1,63 @@
+import type { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+// Loopback, private, link-local, CGNAT and other non-public ranges a tenant must not reach
+const privateRanges = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  privateRanges.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  privateRanges.addSubnet(network, prefix, 'ipv6');
+}
+
+const MAPPED_IPV4 = /^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/i;
+
+/** True for IP addresses outside the public internet, including IPv4-mapped IPv6 forms */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = MAPPED_IPV4.exec(address);
+  if (mapped) return privateRanges.check(mapped[1], 'ipv4');
+  const family = isIP(address);
+  if (!family) return false;
+  return privateRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolves `hostname` and rejects when any of its addresses is private. Pass
+ * it as the axios `lookup` so the address that is connected to is the one
+ * that was checked (a second DNS answer can't point somewhere else).
+ */
+export async function publicAddressLookup(hostname: string): Promise<[LookupAddress[]]> {
+  const addresses = await lookup(hostname, { all: true });
+  const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+  if (blocked) throw new Error(`${hostname} resolves to a private address (${blocked.address})`);
+  return [addresses];
+}
+
+/** Whether the host of an http(s) URL is, or resolves to, a private address. Unresolvable hosts count as public. */
+export async function isPrivateUrl(url: string): Promise<boolean> {
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isIP(hostname)) return isPrivateAddress(hostname);
+  try {
+    const addresses = await lookup(hostname, { all: true });
+    return addresses.some((entry) => isPrivateAddress(entry.address));
+  } catch {
+    return false;
+  }
+}
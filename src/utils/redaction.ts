@@ -0,0 +1,141 @@
+import { createHash, createHmac } from 'crypto';
+import { env, type RedactionDetector, type RedactionMode, type RedactionRules } from '../config/env';
+
+export type RedactionTarget = 'storage' | 'logs' | 'bot';
+
+interface Detector {
+  name: RedactionDetector;
+  pattern: RegExp;
+  /** Canonical form that is hashed, so `+1 555-0100` and `15550100` share a token */
+  normalize(value: string): string;
+  /** Second check on a regex match (checksum, digit count) */
+  accept?(value: string): boolean;
+}
+
+// 2024-01-15, 15.01.2024, 1/15/24 and dotted IPv4 addresses share the grouped-digit shape of phone numbers
+const DATE_SHAPE = /^(?:\d{4}[./-]\d{1,2}[./-]\d{1,2}|\d{1,2}[./-]\d{1,2}[./-]\d{2,4})$/;
+const IPV4_SHAPE = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+
+/**
+ * Only phone-like shapes: a leading `+`, an area code in parentheses, or three
+ * or more digit groups split by one kind of separator. Bare digit runs (order
+ * numbers, timestamps) and single-digit groups (versions) are left alone.
+ */
+const PHONE_PATTERN = new RegExp(
+  String.raw`(?<![\w+.:/-])(?:` +
+    [
+      // +44 20 7946 0958, +1 (555) 010-0100, +15550100
+      String.raw`\+\d{1,3}(?:[ .-]?\(\d{1,4}\))?(?:[ .-]?\d{1,4}){1,5}`,
+      // (555) 010-0100
+      String.raw`\(\d{2,4}\)[ .-]?\d{2,4}(?:[ .-]?\d{2,4}){1,3}`,
+      // 555-010-0100, 030 1234 5678, 06 12 34 56 78
+      String.raw`\d{1,4}([ .-])\d{2,4}(?:\1\d{2,4}){1,3}`,
+    ].join('|') +
+    String.raw`)(?![\w:/-]|[.,]\d)`,
+  'g'
+);
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}/gi;
+
+function digitsOnly(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// In priority order: a span claimed by an earlier detector is not matched again.
+// Digit runs joined to a hyphen on either side (UUID groups, ids) are not numbers.
+const DETECTORS: Detector[] = [
+  {
+    name: 'card',
+    pattern: /(?<![\w-])\d(?:[ -]?\d){12,18}(?![\w-])/g,
+    normalize: digitsOnly,
+    accept: (value) => passesLuhn(digitsOnly(value)),
+  },
+  {
+    name: 'email',
+    pattern: EMAIL_PATTERN,
+    normalize: (value) => value.toLowerCase(),
+  },
+  {
+    name: 'phone',
+    pattern: PHONE_PATTERN,
+    normalize: digitsOnly,
+    accept: (value) => {
+      const digits = digitsOnly(value).length;
+      return digits >= 7 && digits <= 15 && !DATE_SHAPE.test(value) && !IPV4_SHAPE.test(value);
+    },
+  },
+];
+
+function hashToken(value: string): string {
+  const secret = env.redaction.hashSecret;
+  const hash = secret ? createHmac('sha256', secret) : createHash('sha256');
+  return hash.update(value).digest('hex').slice(0, 12);
+}
+
+function replacement(detector: Detector, mode: RedactionMode, value: string): string {
+  const label = detector.name.toUpperCase();
+  switch (mode) {
+    case 'drop':
+      return '';
+    case 'hash':
+      return `[${label}:${hashToken(detector.normalize(value))}]`;
+    default:
+      return `[${label}]`;
+  }
+}
+
+/** Replaces every match of the detectors `rules` enables with its mode's token */
+export function redactWith(text: string, rules: RedactionRules): string {
+  const active = DETECTORS.flatMap((detector) => {
+    const mode = rules[detector.name];
+    return mode ? [{ detector, mode }] : [];
+  });
+  if (!text || !active.length) return text;
+
+  const spans: { start: number; end: number; replacement: string }[] = [];
+  for (const { detector, mode } of active) {
+    for (const match of text.matchAll(detector.pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (detector.accept && !detector.accept(match[0])) continue;
+      if (spans.some((span) => start < span.end && end > span.start)) continue;
+      spans.push({ start, end, replacement: replacement(detector, mode, match[0]) });
+    }
+  }
+  if (!spans.length) return text;
+
+  spans.sort((a, b) => a.start - b.start);
+  let redacted = '';
+  let cursor = 0;
+  for (const span of spans) {
+    redacted += text.slice(cursor, span.start) + span.replacement;
+    cursor = span.end;
+  }
+  return redacted + text.slice(cursor);
+}
+
+/** Redacts `text` with the rules configured for `target` (REDACT_STORAGE, REDACT_LOGS, REDACT_BOT) */
+export function redact(text: string, target: RedactionTarget): string {
+  return redactWith(text, env.redaction[target]);
+}
+
+export function isRedacted(target: RedactionTarget, detector: RedactionDetector): boolean {
+  return !!env.redaction[target][detector];
+}
+
+/** Email addresses in the raw text, so redacted ones can still reach the lead flow */
+export function findEmails(text: string): string[] {
+  return [...new Set(Array.from(text.matchAll(EMAIL_PATTERN), (match) => match[0].toLowerCase()))];
+}
@@ -0,0 +1,108 @@
+import { z, type ZodError, type ZodTypeAny } from 'zod';
+import { isValidTimeZone } from './query';
+
+export type InputLocation = 'params' | 'query' | 'body' | 'payload';
+
+/** One entry of the `issues` array of a 400 response (or a socket `error`) */
+export interface ValidationIssue {
+  location: InputLocation;
+  /** Dotted path inside the location, e.g. `attachmentIds.2`; empty for the location itself */
+  path: string;
+  message: string;
+}
+
+export function toIssues(error: ZodError, location: InputLocation): ValidationIssue[] {
+  return error.issues.map((issue) => ({ location, path: issue.path.join('.'), message: issue.message }));
+}
+
+/** The first issue as one readable line, used as the `error` message */
+export function describeIssues(issues: ValidationIssue[]): string {
+  const [first] = issues;
+  if (!first) return 'Invalid request';
+  return `${first.path || first.location}: ${first.message}`;
+}
+
+/** Parses `value` with `schema`; returns a human readable error when invalid */
+export function parseWith<T extends ZodTypeAny>(schema: T, value: unknown, location: InputLocation = 'payload'): z.output<T> | string {
+  const result = schema.safeParse(value);
+  return result.success ? result.data : describeIssues(toIssues(result.error, location));
+}
+
+// Query strings send empty values for cleared form fields; treat them as absent
+const emptyToUndefined = (value: unknown) => (value === '' ? undefined : value);
+
+export const uuid = z.string().uuid();
+
+export const idParams = z.object({ id: uuid });
+
+export const dateQuery = z.preprocess(
+  emptyToUndefined,
+  z
+    .string()
+    .refine((value) => !Number.isNaN(new Date(value).getTime()), 'Invalid date')
+    .transform((value) => new Date(value))
+    .optional()
+);
+
+/** Positive integer query parameter, clamped to `max` */
+export function limitQuery(fallback: number, max: number) {
+  return z.preprocess(
+    emptyToUndefined,
+    z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(fallback)
+      .transform((value) => Math.min(value, max))
+  );
+}
+
+/** Non-negative integer query parameter (offsets, context sizes), clamped to `max` */
+export function countQuery(fallback: number, max: number) {
+  return z.preprocess(
+    emptyToUndefined,
+    z.coerce
+      .number()
+      .int()
+      .nonnegative()
+      .default(fallback)
+      .transform((value) => Math.min(value, max))
+  );
+}
+
+/** Comma-separated list of enum values (case-insensitive), e.g. `status=ACTIVE,INACTIVE` */
+export function enumListQuery<T extends Record<string, string>>(values: T) {
+  return z.preprocess(
+    emptyToUndefined,
+    z
+      .string()
+      .transform((value) =>
+        value
+          .split(',')
+          .map((item) => item.trim().toUpperCase())
+          .filter(Boolean)
+      )
+      .pipe(z.array(z.nativeEnum(values)))
+      .optional()
+  );
+}
+
+export const timeZoneQuery = z
+  .string()
+  .refine(isValidTimeZone, 'Must be a valid IANA time zone')
+  .default('UTC');
+
+export const jsonObject = z.record(z.unknown());
+
+/**
+ * Runs an existing `value | error message` parser after `schema`, so domain
+ * validators report through the same 400 body as declarative checks
+ */
+export function parsedBy<S extends ZodTypeAny, T>(schema: S, parse: (value: z.output<S>) => T | string) {
+  return schema.transform((value, ctx): T => {
+    const parsed = parse(value);
+    if (typeof parsed !== 'string') return parsed;
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: parsed });
+    return z.NEVER;
+  });
+}
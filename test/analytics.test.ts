@@ -0,0 +1,120 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../src/lib/prisma';
+import { analyticsRouter } from '../src/routes/analytics';
+import { hashApiKey } from '../src/services/authService';
+import { listen, restoreStubs, stub } from './helpers';
+
+const TENANT_ID = 'a1a1a1a1-0000-4000-8000-000000000001';
+
+let server: Awaited<ReturnType<typeof listen>>;
+let queries: Prisma.Sql[];
+let rows: unknown[];
+
+interface AnalyticsBody {
+  from: string;
+  to: string;
+  groupBy: string;
+  tz: string;
+  data: unknown;
+}
+
+function get(path: string, credential = 'test-api-secret') {
+  return fetch(`${server.url}/api/analytics${path}`, { headers: { Authorization: `Bearer ${credential}` } });
+}
+
+before(async () => {
+  const app = express();
+  app.use('/api/analytics', analyticsRouter);
+  server = await listen(app);
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  queries = [];
+  rows = [];
+  stub(prisma, '$queryRaw', async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    queries.push(Prisma.sql(strings, ...values));
+    return rows;
+  });
+});
+
+afterEach(restoreStubs);
+
+describe('GET /api/analytics', () => {
+  it('defaults to the last 30 days by day in UTC', async () => {
+    rows = [{ period: '2026-03-01T00:00:00.000Z', sessions: 4, visitors: 3 }];
+
+    const response = await get('/sessions');
+    const body = (await response.json()) as AnalyticsBody;
+
+    assert.equal(response.status, 200);
+    assert.equal(body.groupBy, 'day');
+    assert.equal(body.tz, 'UTC');
+    assert.equal(new Date(body.to).getTime() - new Date(body.from).getTime(), 30 * 24 * 60 * 60 * 1000);
+    assert.deepEqual(body.data, rows);
+    assert.deepEqual(queries[0].values.slice(0, 2), ['day', 'UTC']);
+  });
+
+  it('buckets periods in the requested time zone', async () => {
+    const response = await get('/messages?from=2026-03-01T00:00:00Z&to=2026-04-01T00:00:00Z&groupBy=week&tz=Europe/Berlin');
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(queries[0].values.slice(0, 2), ['week', 'Europe/Berlin']);
+    assert.ok(queries[0].values.some((value) => value instanceof Date && value.toISOString() === '2026-03-01T00:00:00.000Z'));
+  });
+
+  it('rejects ranges that end before they start and unknown groupings', async () => {
+    const reversed = await get('/latency?from=2026-04-01T00:00:00Z&to=2026-03-01T00:00:00Z');
+    assert.equal(reversed.status, 400);
+    const { issues } = (await reversed.json()) as { issues: { message: string }[] };
+    assert.equal(issues[0].message, 'from must be before to');
+
+    assert.equal((await get('/latency?groupBy=year')).status, 400);
+    assert.equal((await get('/latency?tz=Mars/Olympus')).status, 400);
+    assert.equal(queries.length, 0);
+  });
+
+  it('derives the abandonment rate of the summary', async () => {
+    rows = [{ sessions: 8, visitors: 6, messages: 40, median_response_seconds: 2.5, abandoned: 2 }];
+
+    const body = (await (await get('')).json()) as AnalyticsBody;
+
+    assert.deepEqual(body.data, { ...(rows[0] as object), abandonment_rate: 0.25 });
+  });
+
+  it('limits a tenant key to its own sessions', async () => {
+    stub(prisma.apiKey, 'findUnique', async () => ({
+      id: 'key-1',
+      name: 'tenant admin',
+      key_hash: hashApiKey('ck_tenant'),
+      scope: 'ADMIN',
+      tenant_id: TENANT_ID,
+      revoked_at: null,
+    }));
+    stub(prisma.apiKey, 'update', async () => ({}));
+
+    assert.equal((await get('/abandonment', 'ck_tenant')).status, 200);
+    assert.ok(queries[0].values.includes(TENANT_ID));
+    assert.match(queries[0].text, /tenant_id = \$\d+::uuid/);
+
+    assert.equal((await get('/abandonment')).status, 200);
+    assert.doesNotMatch(queries[1].text, /tenant_id/);
+  });
+
+  it('answers 500 when the aggregation fails', async () => {
+    stub(prisma, '$queryRaw', async () => {
+      throw new Error('canceling statement due to statement timeout');
+    });
+
+    const response = await get('/landing-pages?limit=5');
+
+    assert.equal(response.status, 500);
+    assert.deepEqual(await response.json(), { error: 'Failed to compute landing page analytics' });
+  });
+});
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'socket.io';
+import { prisma } from '../src/lib/prisma';
+import { findUnsentAttachments } from '../src/services/attachmentService';
+import { acceptUserMessage } from '../src/services/conversationService';
+import type { ChatServer } from '../src/types/socket';
+import { restoreStubs, stub } from './helpers';
+
+const SESSION_ID = '2f1c7a52-8d4e-4b7a-9a51-0c6a3e5d9b10';
+const UPLOAD_ID = '5b8e1f0a-6c3d-4e2a-9f7b-1d0c8a6e4b22';
+const CREATED_AT = new Date('2026-03-01T09:30:00Z');
+
+const io = new Server() as ChatServer;
+
+function upload(id: string) {
+  return {
+    id,
+    session_id: SESSION_ID,
+    message_id: null,
+    file_name: 'invoice.pdf',
+    mime_type: 'application/pdf',
+    size_bytes: 1024,
+    storage: 'local',
+    storage_key: `${SESSION_ID}/${id}`,
+    created_at: CREATED_AT,
+  };
+}
+
+beforeEach(() => {
+  stub(io, 'to', () => ({ emit: () => true }));
+  stub(prisma.chatSession, 'findUnique', async () => ({ id: SESSION_ID, status: 'ACTIVE', agent_id: null, widget_id: null }));
+  stub(prisma.chatSession, 'update', async () => ({}));
+  stub(prisma.webhookSubscription, 'findMany', async () => []);
+});
+
+afterEach(restoreStubs);
+
+describe('findUnsentAttachments', () => {
+  it('accepts the same upload listed twice', async () => {
+    let queried: string[] = [];
+    stub(prisma.attachment, 'findMany', async ({ where }: { where: { id: { in: string[] } } }) => {
+      queried = where.id.in;
+      return [upload(UPLOAD_ID)];
+    });
+
+    const attachments = await findUnsentAttachments(SESSION_ID, [UPLOAD_ID, UPLOAD_ID]);
+
+    assert.deepEqual(queried, [UPLOAD_ID]);
+    assert.equal(attachments?.length, 1);
+  });
+
+  it('rejects ids that are missing or already sent', async () => {
+    stub(prisma.attachment, 'findMany', async () => []);
+    assert.equal(await findUnsentAttachments(SESSION_ID, [UPLOAD_ID]), null);
+  });
+});
+
+describe('acceptUserMessage with attachments', () => {
+  function transactionClaiming(count: number) {
+    const created: string[] = [];
+    const claims: unknown[] = [];
+    const tx = {
+      chatMessage: {
+        create: async () => {
+          created.push('message-1');
+          return { id: 'message-1' };
+        },
+        findUniqueOrThrow: async () => ({
+          id: 'message-1',
+          role: 'USER',
+          content: 'See attached',
+          created_at: CREATED_AT,
+          attachment: [upload(UPLOAD_ID)],
+        }),
+      },
+      attachment: {
+        updateMany: async (args: unknown) => {
+          claims.push(args);
+          return { count };
+        },
+      },
+    };
+    stub(prisma.attachment, 'findMany', async () => [upload(UPLOAD_ID)]);
+    stub(prisma, '$transaction', async (run: (client: typeof tx) => Promise<unknown>) => run(tx));
+    return { created, claims };
+  }
+
+  const input = { sessionId: SESSION_ID, content: 'See attached', attachmentIds: [UPLOAD_ID] };
+
+  it('claims only uploads no other message holds', async () => {
+    const { claims } = transactionClaiming(1);
+
+    const result = await acceptUserMessage(io, input);
+
+    assert.equal(result.ok, true);
+    assert.deepEqual(claims, [
+      {
+        where: { id: { in: [UPLOAD_ID] }, session_id: SESSION_ID, message_id: null },
+        data: { message_id: 'message-1' },
+      },
+    ]);
+    assert.deepEqual(result.ok && result.message.attachments?.map((attachment) => attachment.id), [UPLOAD_ID]);
+  });
+
+  it('rejects the message when another one claimed the upload first', async () => {
+    transactionClaiming(0);
+
+    const result = await acceptUserMessage(io, input);
+
+    assert.deepEqual(result, {
+      ok: false,
+      reason: 'invalid',
+      error: 'One of the attachments is missing or was already sent.',
+    });
+  });
+});
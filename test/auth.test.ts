@@ -0,0 +1,168 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma } from '../src/lib/prisma';
+import { requireAdmin, requireSessionAccess } from '../src/middleware/auth';
+import { canAccessSession, hashApiKey, issueWidgetToken, isGlobalAdmin, resolveCredential, type AuthContext } from '../src/services/authService';
+import { tenantScope } from '../src/services/tenantService';
+import { fakeExchange, restoreStubs, stub } from './helpers';
+
+const SESSION_ID = '2f1c7a52-8d4e-4b7a-9a51-0c6a3e5d9b10';
+const OTHER_SESSION_ID = '7d0f5b0e-3c2a-4f8e-b1d6-5e9a2c4b8f31';
+const TENANT_A = 'a1a1a1a1-0000-4000-8000-000000000001';
+const TENANT_B = 'b2b2b2b2-0000-4000-8000-000000000002';
+
+const tenantAdmin: AuthContext = { kind: 'admin', keyId: 'key-1', keyName: 'tenant admin', tenantId: TENANT_A };
+const globalAdmin: AuthContext = { kind: 'admin', keyId: 'key-2', keyName: 'ops' };
+
+function apiKeyRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'key-1',
+    name: 'support',
+    key_hash: hashApiKey('ck_test'),
+    scope: 'ADMIN',
+    tenant_id: TENANT_A,
+    revoked_at: null,
+    ...overrides,
+  };
+}
+
+function sessionInTenant(tenantId: string | null) {
+  stub(prisma.chatSession, 'findUnique', async () => ({ tenant_id: tenantId }));
+}
+
+afterEach(restoreStubs);
+
+describe('resolveCredential', () => {
+  it('treats API_SECRET as a deployment-wide admin without a key id', async () => {
+    assert.deepEqual(await resolveCredential('test-api-secret'), { kind: 'admin', keyName: 'API_SECRET' });
+  });
+
+  it('binds stored keys to their tenant', async () => {
+    stub(prisma.apiKey, 'findUnique', async () => apiKeyRow());
+    stub(prisma.apiKey, 'update', async () => apiKeyRow());
+
+    assert.deepEqual(await resolveCredential('ck_test'), {
+      kind: 'admin',
+      keyId: 'key-1',
+      keyName: 'support',
+      tenantId: TENANT_A,
+    });
+  });
+
+  it('rejects revoked keys', async () => {
+    stub(prisma.apiKey, 'findUnique', async () => apiKeyRow({ revoked_at: new Date() }));
+    assert.equal(await resolveCredential('ck_test'), null);
+  });
+
+  it('resolves widget tokens to their own session only', async () => {
+    const auth = await resolveCredential(issueWidgetToken(SESSION_ID, 'visitor-1'));
+    assert.deepEqual(auth, { kind: 'widget', sessionId: SESSION_ID, visitorId: 'visitor-1' });
+  });
+
+  it('rejects tampered widget tokens', async () => {
+    const signature = issueWidgetToken(SESSION_ID, 'visitor-1').split('.')[1];
+    const claims = { sid: OTHER_SESSION_ID, vid: 'visitor-1', exp: 9999999999 };
+    const forged = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    assert.equal(await resolveCredential(`${forged}.${signature}`), null);
+  });
+});
+
+describe('tenant scoping', () => {
+  it('only counts admins without a tenant as deployment-wide', () => {
+    assert.equal(isGlobalAdmin(globalAdmin), true);
+    assert.equal(isGlobalAdmin({ kind: 'admin', keyName: 'API_SECRET' }), true);
+    assert.equal(isGlobalAdmin(tenantAdmin), false);
+    assert.equal(isGlobalAdmin({ kind: 'agent', keyId: 'key-3', keyName: 'agent' }), false);
+  });
+
+  it('limits session queries to the key tenant', () => {
+    assert.deepEqual(tenantScope(tenantAdmin), { tenant_id: TENANT_A });
+    assert.deepEqual(tenantScope({ kind: 'agent', keyId: 'key-3', keyName: 'agent', tenantId: TENANT_B }), {
+      tenant_id: TENANT_B,
+    });
+    assert.deepEqual(tenantScope(globalAdmin), {});
+  });
+
+  it('lets tenant admins reach their own tenant sessions only', async () => {
+    sessionInTenant(TENANT_A);
+    assert.equal(await canAccessSession(tenantAdmin, SESSION_ID), true);
+
+    sessionInTenant(TENANT_B);
+    assert.equal(await canAccessSession(tenantAdmin, SESSION_ID), false);
+
+    sessionInTenant(null);
+    assert.equal(await canAccessSession(tenantAdmin, SESSION_ID), false);
+  });
+
+  it('lets deployment-wide admins reach every session without a lookup', async () => {
+    stub(prisma.chatSession, 'findUnique', async () => assert.fail('no lookup expected'));
+    assert.equal(await canAccessSession(globalAdmin, SESSION_ID), true);
+  });
+
+  it('keeps widgets to their own session and agents out of REST session access', async () => {
+    const widget: AuthContext = { kind: 'widget', sessionId: SESSION_ID, visitorId: 'visitor-1' };
+    assert.equal(await canAccessSession(widget, SESSION_ID), true);
+    assert.equal(await canAccessSession(widget, OTHER_SESSION_ID), false);
+    assert.equal(await canAccessSession({ kind: 'agent', keyId: 'key-3', keyName: 'agent' }, SESSION_ID), false);
+  });
+});
+
+describe('auth middleware', () => {
+  it('answers 401 before validating the session id', async () => {
+    const { req, res, recorded } = fakeExchange({ params: { id: 'not-a-uuid' } });
+    let called = false;
+    await requireSessionAccess()(req, res, () => {
+      called = true;
+    });
+
+    assert.equal(called, false);
+    assert.equal(recorded.statusCode, 401);
+    assert.equal(recorded.headers['www-authenticate'], 'Bearer');
+  });
+
+  it('answers 403 for another tenant session', async () => {
+    stub(prisma.apiKey, 'findUnique', async () => apiKeyRow());
+    stub(prisma.apiKey, 'update', async () => apiKeyRow());
+    sessionInTenant(TENANT_B);
+
+    const { req, res, recorded } = fakeExchange({
+      headers: { authorization: 'Bearer ck_test' },
+      params: { id: SESSION_ID },
+    });
+    let called = false;
+    await requireSessionAccess()(req, res, () => {
+      called = true;
+    });
+
+    assert.equal(called, false);
+    assert.equal(recorded.statusCode, 403);
+  });
+
+  it('passes widget tokens through for their own session', async () => {
+    const { req, res } = fakeExchange({
+      headers: { authorization: `Bearer ${issueWidgetToken(SESSION_ID, 'visitor-1')}` },
+      params: { id: SESSION_ID },
+    });
+    let called = false;
+    await requireSessionAccess()(req, res, () => {
+      called = true;
+    });
+
+    assert.equal(called, true);
+  });
+
+  it('keeps widget tokens and agent keys out of admin routes', async () => {
+    stub(prisma.apiKey, 'findUnique', async () => apiKeyRow({ scope: 'AGENT' }));
+    stub(prisma.apiKey, 'update', async () => apiKeyRow({ scope: 'AGENT' }));
+
+    for (const credential of [issueWidgetToken(SESSION_ID, 'visitor-1'), 'ck_test']) {
+      const { req, res, recorded } = fakeExchange({ headers: { 'x-api-key': credential } });
+      let called = false;
+      await requireAdmin(req, res, () => {
+        called = true;
+      });
+      assert.equal(called, false);
+      assert.equal(recorded.statusCode, 403);
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { Server } from 'socket.io';
+import { prisma } from '../src/lib/prisma';
+import { captureRawBody, computeSignature } from '../src/middleware/signature';
+import { createBotMessagesRouter } from '../src/routes/botMessages';
+import type { ChatServer } from '../src/types/socket';
+import { listen, restoreStubs, stub } from './helpers';
+
+const SECRET = 'test-callback-secret';
+const SESSION_ID = '2f1c7a52-8d4e-4b7a-9a51-0c6a3e5d9b10';
+const OTHER_SESSION_ID = '7d0f5b0e-3c2a-4f8e-b1d6-5e9a2c4b8f31';
+
+interface StoredMessage {
+  id: string;
+  session_id: string;
+  role: string;
+  content: string;
+  idempotency_key: string | null;
+  created_at: Date;
+}
+
+const io = new Server() as ChatServer;
+let server: Awaited<ReturnType<typeof listen>>;
+let stored: StoredMessage[];
+
+function signedHeaders(path: string, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const signature = computeSignature(SECRET, String(timestamp), body, `POST ${path}`);
+  return {
+    'Content-Type': 'application/json',
+    'X-Signature-Timestamp': String(timestamp),
+    'X-Signature-256': `sha256=${signature}`,
+  };
+}
+
+function post(sessionId: string, body: string, headers: Record<string, string>) {
+  return fetch(`${server.url}/api/sessions/${sessionId}/bot-messages`, { method: 'POST', headers, body });
+}
+
+before(async () => {
+  const app = express();
+  app.use(express.json({ verify: captureRawBody }));
+  app.use('/api/sessions', createBotMessagesRouter(io));
+  server = await listen(app);
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  stored = [];
+  stub(prisma.chatSession, 'findUnique', async ({ where }: { where: { id: string } }) => ({
+    id: where.id,
+    status: 'ACTIVE',
+  }));
+  stub(prisma.chatMessage, 'findFirst', async ({ where }: { where: { session_id: string; idempotency_key: string } }) => {
+    return stored.find((m) => m.session_id === where.session_id && m.idempotency_key === where.idempotency_key) ?? null;
+  });
+  stub(prisma.chatMessage, 'create', async ({ data }: { data: Omit<StoredMessage, 'id' | 'created_at'> }) => {
+    const message = { id: `message-${stored.length + 1}`, created_at: new Date(), ...data };
+    stored.push(message);
+    return message;
+  });
+  stub(prisma.webhookSubscription, 'findMany', async () => []);
+});
+
+afterEach(restoreStubs);
+
+describe('POST /api/sessions/:id/bot-messages', () => {
+  const path = `/api/sessions/${SESSION_ID}/bot-messages`;
+  const body = JSON.stringify({ content: 'Your refund was approved.' });
+
+  it('stores a correctly signed message', async () => {
+    const response = await post(SESSION_ID, body, signedHeaders(path, body));
+
+    assert.equal(response.status, 201);
+    assert.equal(stored.length, 1);
+    assert.equal(stored[0]?.content, 'Your refund was approved.');
+    assert.equal(stored[0]?.role, 'BOT');
+  });
+
+  it('rejects a bad signature', async () => {
+    const headers = { ...signedHeaders(path, body), 'X-Signature-256': `sha256=${'0'.repeat(64)}` };
+    const response = await post(SESSION_ID, body, headers);
+
+    assert.equal(response.status, 401);
+    assert.deepEqual(await response.json(), { error: 'Invalid signature' });
+    assert.equal(stored.length, 0);
+  });
+
+  it('rejects a tampered body', async () => {
+    const headers = signedHeaders(path, body);
+    const response = await post(SESSION_ID, JSON.stringify({ content: 'Click this link' }), headers);
+
+    assert.equal(response.status, 401);
+    assert.equal(stored.length, 0);
+  });
+
+  it('rejects a stale timestamp', async () => {
+    const stale = Math.floor(Date.now() / 1000) - 301;
+    const response = await post(SESSION_ID, body, signedHeaders(path, body, stale));
+
+    assert.equal(response.status, 401);
+    assert.deepEqual(await response.json(), { error: 'Missing or expired signature' });
+    assert.equal(stored.length, 0);
+  });
+
+  it('rejects a captured callback replayed against another session', async () => {
+    const response = await post(OTHER_SESSION_ID, body, signedHeaders(path, body));
+
+    assert.equal(response.status, 401);
+    assert.equal(stored.length, 0);
+  });
+
+  it('dedupes retries with the same Idempotency-Key', async () => {
+    const headers = { ...signedHeaders(path, body), 'Idempotency-Key': 'refund-42' };
+
+    const first = await post(SESSION_ID, body, headers);
+    const retry = await post(SESSION_ID, body, headers);
+
+    assert.equal(first.status, 201);
+    assert.equal(retry.status, 200);
+    assert.equal(stored.length, 1);
+    const { messages } = (await retry.json()) as { messages: { id: string; duplicate: boolean }[] };
+    assert.deepEqual(
+      messages.map(({ id, duplicate }) => ({ id, duplicate })),
+      [{ id: 'message-1', duplicate: true }]
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { replyWithFailover, type BotProvider } from '../src/services/botProviderService';
+
+const request = { sessionId: 'session-1', message: 'hello', history: [] };
+
+function provider(name: string, reply: BotProvider['reply']): BotProvider {
+  return { name, isAvailable: () => true, reply };
+}
+
+describe('replyWithFailover', () => {
+  it('resets a partial stream before the next provider answers', async () => {
+    const events: string[] = [];
+    const reply = await replyWithFailover(
+      [
+        provider('broken', async (_request, options) => {
+          options?.onDelta?.('Hel');
+          throw new Error('stream stalled');
+        }),
+        provider('backup', async (_request, options) => {
+          options?.onDelta?.('Hi there');
+          return { output: 'Hi there' };
+        }),
+      ],
+      request,
+      { onDelta: (delta) => events.push(`delta:${delta}`), onReset: () => events.push('reset') }
+    );
+
+    assert.equal(reply.output, 'Hi there');
+    assert.deepEqual(events, ['delta:Hel', 'reset', 'delta:Hi there']);
+  });
+
+  it('does not reset when the failed provider sent nothing', async () => {
+    const events: string[] = [];
+    await replyWithFailover(
+      [
+        provider('down', async () => {
+          throw new Error('ECONNREFUSED');
+        }),
+        provider('backup', async () => ({ output: 'ok' })),
+      ],
+      request,
+      { onDelta: (delta) => events.push(`delta:${delta}`), onReset: () => events.push('reset') }
+    );
+
+    assert.deepEqual(events, []);
+  });
+
+  it('resets before throwing when the last provider fails mid-stream', async () => {
+    const events: string[] = [];
+    await assert.rejects(
+      replyWithFailover(
+        [
+          provider('broken', async (_request, options) => {
+            options?.onDelta?.('partial');
+            throw new Error('socket hang up');
+          }),
+        ],
+        request,
+        { onDelta: (delta) => events.push(`delta:${delta}`), onReset: () => events.push('reset') }
+      ),
+      /socket hang up/
+    );
+
+    assert.deepEqual(events, ['delta:partial', 'reset']);
+  });
+});
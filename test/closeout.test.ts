@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import nodemailer from 'nodemailer';
+import { env } from '../src/config/env';
+import { prisma } from '../src/lib/prisma';
+import { runSessionCloseout } from '../src/services/closeoutService';
+import { restoreStubs, stub } from './helpers';
+
+const SESSION_ID = '2f1c7a52-8d4e-4b7a-9a51-0c6a3e5d9b10';
+
+interface ContactRow {
+  email: string;
+  conversation_source: string;
+  created_at: Date;
+}
+
+let contacts: ContactRow[];
+let sent: { to: string }[];
+
+function contact(email: string, source: string, minutesAgo: number): ContactRow {
+  return { email, conversation_source: source, created_at: new Date(Date.now() - minutesAgo * 60_000) };
+}
+
+beforeEach(() => {
+  contacts = [];
+  sent = [];
+  stub(env, 'closeoutEmailTranscript', true);
+  stub(env, 'smtpUrl', 'smtp://mail.example.com');
+  stub(env, 'mailFrom', 'chat@example.com');
+  stub(nodemailer, 'createTransport', () => ({
+    sendMail: async (message: { to: string }) => {
+      sent.push(message);
+    },
+  }));
+  stub(prisma.chatSession, 'findUnique', async () => ({
+    id: SESSION_ID,
+    visitor_id: 'visitor-1',
+    status: 'CLOSED',
+    metadata: {},
+    widget_id: null,
+    created_at: new Date(),
+    last_active_at: new Date(),
+    summarized_at: new Date(),
+    transcript_emailed_at: null,
+    chat_message: [],
+  }));
+  stub(prisma.chatSession, 'update', async () => ({}));
+  stub(prisma.widgetConfig, 'findFirst', async () => null);
+  // Latest contact of the session, honouring a `conversation_source: { in }` filter
+  stub(
+    prisma.contacts,
+    'findFirst',
+    async ({ where }: { where: { conversation_source?: { in: string[] } } }) =>
+      contacts
+        .filter((row) => !where.conversation_source || where.conversation_source.in.includes(row.conversation_source))
+        .sort((a, b) => b.created_at.getTime() - a.created_at.getTime())[0] ?? null
+  );
+});
+
+afterEach(restoreStubs);
+
+describe('close-out transcript email', () => {
+  it('goes to the address the visitor entered in the contact form', async () => {
+    contacts.push(contact('visitor@example.com', 'widget_form', 10));
+
+    await runSessionCloseout(SESSION_ID);
+
+    assert.deepEqual(sent.map((message) => message.to), ['visitor@example.com']);
+  });
+
+  it('goes to an address from a bot form email field', async () => {
+    contacts.push(contact('visitor@example.com', 'form', 10));
+
+    await runSessionCloseout(SESSION_ID);
+
+    assert.deepEqual(sent.map((message) => message.to), ['visitor@example.com']);
+  });
+
+  it('ignores newer addresses mentioned in the chat or extracted by a bot', async () => {
+    contacts.push(contact('visitor@example.com', 'widget_form', 30));
+    contacts.push(contact('boss@other.com', 'chat', 5));
+    contacts.push(contact('guess@example.org', 'bot', 4));
+    contacts.push(contact('hallucinated@example.net', 'closeout', 1));
+
+    await runSessionCloseout(SESSION_ID);
+
+    assert.deepEqual(sent.map((message) => message.to), ['visitor@example.com']);
+  });
+
+  it('sends nothing when the visitor never entered an address themselves', async () => {
+    contacts.push(contact('boss@other.com', 'chat', 5));
+    contacts.push(contact('lead@example.com', 'bot', 3));
+
+    await runSessionCloseout(SESSION_ID);
+
+    assert.deepEqual(sent, []);
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma } from '../src/lib/prisma';
+import { CONTACT_SOURCES, captureLead, extractLead, listContacts, validateContactInput } from '../src/services/contactService';
+import { restoreStubs, stub } from './helpers';
+
+const SESSION_ID = '2f1c7a52-8d4e-4b7a-9a51-0c6a3e5d9b10';
+const TENANT_ID = 'a1a1a1a1-0000-4000-8000-000000000001';
+
+beforeEach(() => {
+  stub(prisma.webhookSubscription, 'findMany', async () => []);
+});
+
+afterEach(restoreStubs);
+
+describe('extractLead', () => {
+  it('reads `lead` or `contact` from an n8n response', () => {
+    assert.deepEqual(extractLead({ output: 'Thanks!', lead: { name: ' Ada ', email: 'ada@example.com ', summary: 'Wants a demo' } }), {
+      name: 'Ada',
+      email: 'ada@example.com',
+      summary: 'Wants a demo',
+    });
+    assert.deepEqual(extractLead({ contact: { email: 'grace@example.com', message: 'Call me' } }), {
+      email: 'grace@example.com',
+      message: 'Call me',
+    });
+  });
+
+  it('drops invalid addresses and leads without a name or email', () => {
+    assert.deepEqual(extractLead({ lead: { name: 'Ada', email: 'not an address' } }), { name: 'Ada' });
+    assert.equal(extractLead({ lead: { email: 'nope', summary: 'Wants a demo' } }), undefined);
+    assert.equal(extractLead({ lead: 'ada@example.com' }), undefined);
+    assert.equal(extractLead({ output: 'Hi' }), undefined);
+    assert.equal(extractLead('ada@example.com'), undefined);
+  });
+});
+
+describe('validateContactInput', () => {
+  it('needs a name or a valid email', () => {
+    assert.equal(validateContactInput({ email: 'ada@example.com' }), null);
+    assert.equal(validateContactInput({ name: 'Ada' }), null);
+    assert.equal(validateContactInput({ summary: 'Wants a demo' }), 'name or email is required');
+    assert.equal(validateContactInput({ summary: 'Edited' }, { requireContactInfo: false }), null);
+    assert.equal(validateContactInput({ email: 'ada@' }), 'email must be a valid email address');
+    assert.equal(validateContactInput({ name: 42 } as never), 'name must be a string');
+  });
+});
+
+describe('captureLead', () => {
+  it('creates a contact linked to the session', async () => {
+    let created: unknown;
+    stub(prisma.contacts, 'findFirst', async () => null);
+    stub(prisma.contacts, 'create', async ({ data }: { data: Record<string, unknown> }) => {
+      created = data;
+      return { id: 'contact-1', ...data };
+    });
+
+    await captureLead(SESSION_ID, { name: 'Ada', email: 'Ada@Example.com' });
+
+    assert.deepEqual(created, {
+      name: 'Ada',
+      email: 'ada@example.com',
+      conversation_source: CONTACT_SOURCES.bot,
+      sessionId: SESSION_ID,
+    });
+  });
+
+  it('updates the contact the session already has for that source and email', async () => {
+    let lookup: unknown;
+    let updated: unknown;
+    stub(prisma.contacts, 'findFirst', async (args: { where: unknown }) => {
+      lookup = args.where;
+      return { id: 'contact-1' };
+    });
+    stub(prisma.contacts, 'update', async (args: unknown) => {
+      updated = args;
+      return { id: 'contact-1' };
+    });
+    stub(prisma.contacts, 'create', async () => assert.fail('a second contact was created'));
+
+    await captureLead(SESSION_ID, { email: 'ada@example.com', summary: 'Wants a demo' }, CONTACT_SOURCES.widgetForm);
+
+    assert.deepEqual(lookup, {
+      sessionId: SESSION_ID,
+      conversation_source: CONTACT_SOURCES.widgetForm,
+      email: { equals: 'ada@example.com', mode: 'insensitive' },
+    });
+    assert.deepEqual(updated, {
+      where: { id: 'contact-1' },
+      data: { email: 'ada@example.com', summary: 'Wants a demo' },
+    });
+  });
+});
+
+describe('listContacts', () => {
+  it('filters by source, date range and tenant', async () => {
+    let query: unknown;
+    stub(prisma.contacts, 'findMany', async (args: unknown) => {
+      query = args;
+      return [];
+    });
+    const from = new Date('2026-01-01T00:00:00Z');
+    const to = new Date('2026-02-01T00:00:00Z');
+
+    await listContacts({ source: 'rest', from, to, tenantId: TENANT_ID, take: 500 });
+
+    assert.deepEqual(query, {
+      where: {
+        conversation_source: 'rest',
+        chat_session: { tenant_id: TENANT_ID },
+        created_at: { gte: from, lte: to },
+      },
+      orderBy: { created_at: 'desc' },
+      take: 200,
+      skip: 0,
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import express from 'express';
+import { Server } from 'socket.io';
+import { prisma } from '../src/lib/prisma';
+import { assignCorrelationId } from '../src/middleware/observability';
+import { sendToN8n } from '../src/services/n8nService';
+import { enqueueBotReply, runDueJobs } from '../src/services/outboundQueue';
+import type { ChatServer } from '../src/types/socket';
+import { CORRELATION_HEADER, getCorrelationId, withCorrelationId } from '../src/utils/correlation';
+import { listen, restoreStubs, stub } from './helpers';
+
+const SESSION_ID = '2f1c7a52-8d4e-4b7a-9a51-0c6a3e5d9b10';
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+const payload = { sessionId: SESSION_ID, message: 'Where is my order?', history: [] };
+
+let botHeaders: Array<Record<string, string>>;
+
+beforeEach(() => {
+  botHeaders = [];
+  stub(axios, 'post', async (_url: string, _body: unknown, config: { headers: Record<string, string> }) => {
+    botHeaders.push(config.headers);
+    return { headers: {}, data: { output: 'It ships today.' } };
+  });
+});
+
+afterEach(restoreStubs);
+
+describe('withCorrelationId', () => {
+  it('keeps a well-formed id across awaits and forgets it afterwards', async () => {
+    const seen = await withCorrelationId('checkout-42', async (correlationId) => {
+      await new Promise((resolve) => setImmediate(resolve));
+      return [correlationId, getCorrelationId()];
+    });
+
+    assert.deepEqual(seen, ['checkout-42', 'checkout-42']);
+    assert.equal(getCorrelationId(), undefined);
+  });
+
+  it('replaces a missing or malformed id with a fresh one', () => {
+    assert.match(withCorrelationId(undefined, (correlationId) => correlationId), UUID);
+    assert.match(withCorrelationId('bad id\r\nX-Injected: 1', (correlationId) => correlationId), UUID);
+    assert.match(withCorrelationId('x'.repeat(129), (correlationId) => correlationId), UUID);
+  });
+});
+
+describe('assignCorrelationId', () => {
+  let server: Awaited<ReturnType<typeof listen>>;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(assignCorrelationId);
+    app.post('/turn', async (req, res) => {
+      const reply = await sendToN8n(req.body, { target: { webhookUrl: 'https://n8n.example.com/webhook/turn', timeoutMs: 1000 } });
+      res.json({ reply, correlationId: getCorrelationId() });
+    });
+    server = await listen(app);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  function turn(headers: Record<string, string> = {}) {
+    return fetch(`${server.url}/turn`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(payload),
+    });
+  }
+
+  it("echoes the caller's id and passes it on to the bot", async () => {
+    const response = await turn({ [CORRELATION_HEADER]: 'checkout-42' });
+    const body = (await response.json()) as { correlationId: string };
+
+    assert.equal(response.headers.get(CORRELATION_HEADER), 'checkout-42');
+    assert.equal(body.correlationId, 'checkout-42');
+    assert.equal(botHeaders[0][CORRELATION_HEADER], 'checkout-42');
+  });
+
+  it('issues an id when the caller sends none', async () => {
+    const response = await turn();
+    const correlationId = response.headers.get(CORRELATION_HEADER) ?? '';
+
+    assert.match(correlationId, UUID);
+    assert.equal(((await response.json()) as { correlationId: string }).correlationId, correlationId);
+    assert.equal(botHeaders[0][CORRELATION_HEADER], correlationId);
+  });
+
+  it('gives concurrent requests their own ids', async () => {
+    const responses = await Promise.all([turn({ [CORRELATION_HEADER]: 'a' }), turn({ [CORRELATION_HEADER]: 'b' })]);
+    const ids = await Promise.all(responses.map(async (response) => ((await response.json()) as { correlationId: string }).correlationId));
+
+    assert.deepEqual(ids, ['a', 'b']);
+    assert.deepEqual(botHeaders.map((headers) => headers[CORRELATION_HEADER]).sort(), ['a', 'b']);
+  });
+});
+
+describe('outbound bot requests', () => {
+  it('carry no header outside a turn', async () => {
+    await sendToN8n(payload, { target: { webhookUrl: 'https://n8n.example.com/webhook/idle', timeoutMs: 1000 } });
+    assert.deepEqual(botHeaders[0], {});
+  });
+
+  it('keep the id of the turn that queued a retry', async () => {
+    const io = new Server() as ChatServer;
+    stub(io, 'to', () => ({ emit: () => true }));
+    let queued: Record<string, unknown> = {};
+    stub(prisma.outboundJob, 'create', async ({ data }: { data: { payload: Record<string, unknown> } }) => {
+      queued = data.payload;
+      return { id: 'job-1' };
+    });
+
+    await withCorrelationId('checkout-42', () =>
+      enqueueBotReply(SESSION_ID, { messageId: 'message-1', request: payload }, new Error('n8n timed out'))
+    );
+    assert.equal(queued.correlationId, 'checkout-42');
+
+    const job = { id: 'job-1', type: 'BOT_REPLY', session_id: SESSION_ID, payload: queued, attempts: 1, max_attempts: 8 };
+    stub(prisma, '$queryRaw', async () => [{ id: job.id }]);
+    stub(prisma.outboundJob, 'findMany', async () => [job]);
+    stub(prisma.outboundJob, 'update', async () => job);
+    stub(prisma.chatSession, 'findUnique', async () => ({ widget_id: null, status: 'ACTIVE', agent_id: null }));
+    stub(prisma.chatMessage, 'findUnique', async () => null);
+    stub(prisma.chatMessage, 'create', async ({ data }: { data: Record<string, unknown> }) => ({ ...data, created_at: new Date() }));
+    stub(prisma.webhookSubscription, 'findMany', async () => []);
+
+    await runDueJobs(io);
+
+    assert.equal(botHeaders.length, 1);
+    assert.equal(botHeaders[0][CORRELATION_HEADER], 'checkout-42');
+  });
+});
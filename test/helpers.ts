@@ -0,0 +1,59 @@
+import type { AddressInfo } from 'net';
+import type { Express, Request, Response } from 'express';
+
+const originals: Array<() => void> = [];
+
+/**
+ * Replaces `target[key]` until `restoreStubs()` runs. Used on Prisma model
+ * delegates (`prisma.chatSession`), whose methods `mock.method` can't see.
+ */
+export function stub<T extends object>(target: T, key: keyof T, value: unknown): void {
+  const original = target[key];
+  originals.push(() => {
+    target[key] = original;
+  });
+  target[key] = value as T[typeof key];
+}
+
+export function restoreStubs(): void {
+  while (originals.length) originals.pop()?.();
+}
+
+export interface RecordedResponse {
+  statusCode: number;
+  body: unknown;
+  headers: Record<string, string>;
+}
+
+/** Just enough of an Express request/response pair to run a middleware */
+export function fakeExchange(request: { headers?: Record<string, string>; params?: Record<string, string> }) {
+  const recorded: RecordedResponse = { statusCode: 200, body: undefined, headers: {} };
+  const res = {
+    locals: {},
+    status(code: number) {
+      recorded.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      recorded.body = body;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      recorded.headers[name.toLowerCase()] = value;
+      return res;
+    },
+  };
+  const req = { headers: request.headers ?? {}, params: request.params ?? {} };
+  return { req: req as unknown as Request, res: res as unknown as Response, recorded };
+}
+
+/** Serves `app` on a free port for `fetch`; call `close()` when done */
+export async function listen(app: Express): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = app.listen(0);
+  await new Promise<void>((resolve) => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,206 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import express from 'express';
+import { Server } from 'socket.io';
+import { prisma } from '../src/lib/prisma';
+import { createMessagesRouter } from '../src/routes/messages';
+import { issueWidgetToken } from '../src/services/authService';
+import { MAX_MESSAGE_LENGTH } from '../src/services/socketSchemas';
+import type { ChatServer } from '../src/types/socket';
+import { listen, restoreStubs, stub } from './helpers';
+
+const SESSION_ID = '2f1c7a52-8d4e-4b7a-9a51-0c6a3e5d9b10';
+const OTHER_SESSION_ID = '7d0f5b0e-3c2a-4f8e-b1d6-5e9a2c4b8f31';
+
+interface StoredMessage {
+  id: string;
+  role: string;
+  content: string;
+  created_at: Date;
+}
+
+const io = new Server() as ChatServer;
+let server: Awaited<ReturnType<typeof listen>>;
+let stored: StoredMessage[];
+let emitted: Array<{ event: string; payload: unknown }>;
+let sessionStatus: string | null;
+
+function post(body: unknown, headers: Record<string, string> = {}) {
+  return fetch(`${server.url}/api/sessions/${SESSION_ID}/messages`, {
+    method: 'POST',
+    headers: { Authorization: 'Bearer test-api-secret', 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/sessions', createMessagesRouter(io));
+  server = await listen(app);
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  stored = [];
+  emitted = [];
+  sessionStatus = 'ACTIVE';
+  stub(io, 'to', () => ({
+    emit: (event: string, payload: unknown) => {
+      emitted.push({ event, payload });
+      return true;
+    },
+  }));
+  stub(prisma.chatSession, 'findUnique', async () =>
+    sessionStatus ? { id: SESSION_ID, status: sessionStatus, agent_id: null, widget_id: null } : null
+  );
+  stub(prisma.chatSession, 'update', async () => ({}));
+  stub(prisma.webhookSubscription, 'findMany', async () => []);
+  stub(prisma, '$transaction', async (run: (tx: typeof prisma) => Promise<unknown>) => run(prisma));
+  stub(prisma.chatMessage, 'findMany', async () => []);
+  stub(prisma.chatMessage, 'create', async ({ data }: { data: Omit<StoredMessage, 'id' | 'created_at'> }) => {
+    const message = { id: `message-${stored.length + 1}`, created_at: new Date(), ...data };
+    stored.push(message);
+    return message;
+  });
+  stub(prisma.chatMessage, 'findUniqueOrThrow', async ({ where }: { where: { id: string } }) => ({
+    ...stored.find((message) => message.id === where.id),
+    attachment: [],
+  }));
+});
+
+afterEach(restoreStubs);
+
+describe('POST /api/sessions/:id/messages', () => {
+  it('waits for the bot reply by default', async () => {
+    stub(axios, 'post', async () => ({ headers: {}, data: { output: 'It ships today.' } }));
+
+    const response = await post({ content: 'Where is my order?' });
+    const body = (await response.json()) as {
+      message: { sender: string; content: string };
+      reply: { status: string; message: { sender: string; content: string } };
+    };
+
+    assert.equal(response.status, 201);
+    assert.equal(body.message.sender, 'USER');
+    assert.equal(body.message.content, 'Where is my order?');
+    assert.equal(body.reply.status, 'REPLIED');
+    assert.equal(body.reply.message.content, 'It ships today.');
+    assert.deepEqual(
+      stored.map((message) => message.role),
+      ['USER', 'BOT']
+    );
+  });
+
+  it('answers 202 with `Prefer: respond-async` and replies over the socket', async () => {
+    let answer: (value: unknown) => void = () => undefined;
+    stub(axios, 'post', () => new Promise((resolve) => (answer = resolve)));
+
+    const response = await post({ content: 'Where is my order?' }, { Prefer: 'respond-async, wait=5' });
+
+    assert.equal(response.status, 202);
+    assert.equal(response.headers.get('preference-applied'), 'respond-async');
+    const body = (await response.json()) as { message: { content: string }; reply?: unknown };
+    assert.equal(body.message.content, 'Where is my order?');
+    assert.equal(body.reply, undefined);
+    assert.equal(stored.length, 1);
+
+    answer({ headers: {}, data: { output: 'It ships today.' } });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const complete = emitted.find((event) => event.event === 'message_complete');
+    assert.equal((complete?.payload as { content: string } | undefined)?.content, 'It ships today.');
+  });
+
+  it('reports a delayed reply when the bot is down', async () => {
+    stub(axios, 'post', async () => {
+      throw new Error('connect ECONNREFUSED');
+    });
+    stub(prisma.outboundJob, 'create', async () => ({ id: 'job-1' }));
+
+    const response = await post({ content: 'Hello?' });
+
+    assert.equal(response.status, 201);
+    assert.deepEqual(((await response.json()) as { reply: unknown }).reply, { status: 'DELAYED', jobId: 'job-1' });
+  });
+
+  it('refuses closed and unknown sessions', async () => {
+    sessionStatus = 'CLOSED';
+    assert.equal((await post({ content: 'Hi' })).status, 409);
+
+    sessionStatus = null;
+    assert.equal((await post({ content: 'Hi' })).status, 404);
+    assert.equal(stored.length, 0);
+  });
+
+  it('needs content, attachments or a response', async () => {
+    const response = await post({ content: '' });
+    assert.equal(response.status, 400);
+  });
+});
+
+describe('auth guards before validation', () => {
+  /** A request to `/api/sessions/<path>` with the given bearer credential, if any */
+  function send(method: string, path: string, { credential, body }: { credential?: string; body?: unknown } = {}) {
+    return fetch(`${server.url}/api/sessions/${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(credential ? { Authorization: `Bearer ${credential}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  const invalidBody = { content: 42, attachmentIds: ['not-a-uuid'] };
+
+  it('answers 401 without schema details to callers without credentials', async () => {
+    const responses = [
+      await send('POST', `${SESSION_ID}/messages`, { body: invalidBody }),
+      await send('POST', 'not-a-uuid/messages', { body: invalidBody }),
+      await send('GET', `${SESSION_ID}/messages?limit=lots&role=ROBOT`),
+      await send('POST', `${SESSION_ID}/messages`, { credential: 'wrong-secret', body: invalidBody }),
+    ];
+
+    for (const response of responses) {
+      assert.equal(response.status, 401);
+      assert.equal(response.headers.get('www-authenticate'), 'Bearer');
+      assert.equal(((await response.json()) as { issues?: unknown }).issues, undefined);
+    }
+    assert.equal(stored.length, 0);
+  });
+
+  it("answers 403 to a widget token for another session's messages", async () => {
+    const response = await send('POST', `${OTHER_SESSION_ID}/messages`, {
+      credential: issueWidgetToken(SESSION_ID, 'visitor-1'),
+      body: invalidBody,
+    });
+    assert.equal(response.status, 403);
+  });
+
+  it('validates the request once the caller may access the session', async () => {
+    const badId = await send('POST', 'not-a-uuid/messages', { credential: 'test-api-secret', body: { content: 'Hi' } });
+    assert.equal(badId.status, 400);
+    assert.deepEqual(((await badId.json()) as { issues: unknown }).issues, [
+      { location: 'params', path: 'id', message: 'Invalid uuid' },
+    ]);
+
+    const tooLong = await send('POST', `${SESSION_ID}/messages`, {
+      credential: issueWidgetToken(SESSION_ID, 'visitor-1'),
+      body: { content: 'x'.repeat(MAX_MESSAGE_LENGTH + 1) },
+    });
+    assert.equal(tooLong.status, 400);
+    const { issues } = (await tooLong.json()) as { issues: Array<{ location: string; path: string }> };
+    assert.deepEqual(
+      issues.map(({ location, path }) => `${location}.${path}`),
+      ['body.content']
+    );
+
+    const badQuery = await send('GET', `${SESSION_ID}/messages?limit=lots`, { credential: 'test-api-secret' });
+    assert.equal(badQuery.status, 400);
+    assert.equal(stored.length, 0);
+  });
+});
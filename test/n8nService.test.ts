@@ -0,0 +1,96 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough } from 'stream';
+import axios from 'axios';
+import { env } from '../src/config/env';
+import { sendToN8n, type N8nTarget } from '../src/services/n8nService';
+import { restoreStubs, stub } from './helpers';
+
+const payload = { sessionId: 'session-1', message: 'Where is my order?', history: [] };
+
+let targets = 0;
+
+// A webhook of its own per test, so failures never open another test's circuit
+function target(timeoutMs = 1000): N8nTarget {
+  targets += 1;
+  return { webhookUrl: `https://n8n.example.com/webhook/${targets}`, timeoutMs };
+}
+
+/** Answers the next n8n request with a stream the test writes to */
+function respondWithStream(contentType: string) {
+  const stream = new PassThrough();
+  stub(env, 'n8nStreaming', true);
+  stub(axios, 'post', async (_url: string, _body: unknown, config: { responseType: string }) => {
+    assert.equal(config.responseType, 'stream');
+    return { headers: { 'content-type': contentType }, data: stream };
+  });
+  return stream;
+}
+
+afterEach(restoreStubs);
+
+describe('sendToN8n streaming', () => {
+  it('relays n8n stream items and keeps the lead and blocks', async () => {
+    const stream = respondWithStream('application/x-ndjson');
+    const deltas: string[] = [];
+    const reply = sendToN8n(payload, { onDelta: (delta) => deltas.push(delta), target: target() });
+
+    stream.write('{"type":"begin"}\n{"type":"item","content":"Your order "}\n{"type":"item","con');
+    stream.write('tent":"ships today."}\n');
+    stream.end('{"type":"end","lead":{"email":"ada@example.com"},"blocks":[{"type":"quick_replies","replies":["Thanks"]}]}');
+
+    assert.deepEqual(await reply, {
+      output: 'Your order ships today.',
+      lead: { email: 'ada@example.com' },
+      blocks: [{ type: 'quick_replies', replies: [{ label: 'Thanks', value: 'Thanks' }] }],
+    });
+    assert.deepEqual(deltas, ['Your order ', 'ships today.']);
+  });
+
+  it('relays chunked plain text as it arrives', async () => {
+    const stream = respondWithStream('text/plain; charset=utf-8');
+    const deltas: string[] = [];
+    const reply = sendToN8n(payload, { onDelta: (delta) => deltas.push(delta), target: target() });
+
+    stream.write('Hello');
+    await new Promise((resolve) => setImmediate(resolve));
+    stream.end(', Ada');
+
+    assert.equal((await reply).output, 'Hello, Ada');
+    assert.equal(deltas.join(''), 'Hello, Ada');
+  });
+
+  it('parses a body that is not NDJSON as a regular response', async () => {
+    const stream = respondWithStream('application/json');
+    const deltas: string[] = [];
+    const reply = sendToN8n(payload, { onDelta: (delta) => deltas.push(delta), target: target() });
+
+    stream.write('{"output": "All done",\n');
+    stream.end('"contact": {"name": "Ada"}}');
+
+    assert.deepEqual(await reply, { output: 'All done', lead: { name: 'Ada' }, blocks: undefined });
+    assert.deepEqual(deltas, []);
+  });
+
+  it('fails a stream that stops sending for the timeout', async () => {
+    const stream = respondWithStream('application/x-ndjson');
+    const deltas: string[] = [];
+    const reply = sendToN8n(payload, { onDelta: (delta) => deltas.push(delta), target: target(50) });
+
+    stream.write('{"type":"item","content":"Let me check"}\n');
+
+    await assert.rejects(reply, /n8n stream stalled for 50ms/);
+    assert.deepEqual(deltas, ['Let me check']);
+    assert.equal(stream.destroyed, true);
+  });
+
+  it('asks for JSON when nobody listens for deltas', async () => {
+    stub(env, 'n8nStreaming', true);
+    stub(axios, 'post', async (_url: string, _body: unknown, config: { responseType: string }) => {
+      assert.equal(config.responseType, 'json');
+      return { headers: {}, data: { text: 'Hi' } };
+    });
+
+    assert.deepEqual(await sendToN8n(payload, { target: target() }), { output: 'Hi', lead: undefined, blocks: undefined });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import { isPrivateAddress, isPrivateUrl, publicAddressLookup } from '../src/utils/network';
+
+describe('isPrivateAddress', () => {
+  for (const address of [
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '::',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+    '::ffff:169.254.169.254',
+  ]) {
+    it(`blocks ${address}`, () => {
+      assert.equal(isPrivateAddress(address), true);
+    });
+  }
+
+  for (const address of ['8.8.8.8', '172.32.0.1', '93.184.216.34', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+    it(`allows ${address}`, () => {
+      assert.equal(isPrivateAddress(address), false);
+    });
+  }
+});
+
+describe('isPrivateUrl', () => {
+  it('checks IP literals without DNS', async () => {
+    assert.equal(await isPrivateUrl('http://127.0.0.1:8080/hook'), true);
+    assert.equal(await isPrivateUrl('http://[::1]/hook'), true);
+    assert.equal(await isPrivateUrl('https://8.8.8.8/hook'), false);
+  });
+
+  it('checks the addresses a hostname resolves to', async () => {
+    assert.equal(await isPrivateUrl('http://localhost:3000/hook'), true);
+  });
+});
+
+describe('publicAddressLookup', () => {
+  it('stops axios from connecting to a host that resolves to loopback', async () => {
+    await assert.rejects(
+      axios.get('http://localhost:9/', { lookup: publicAddressLookup, timeout: 2000 }),
+      /resolves to a private address/
+    );
+  });
+});
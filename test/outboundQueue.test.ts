@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import { Prisma } from '@prisma/client';
+import { Server } from 'socket.io';
+import { env } from '../src/config/env';
+import { prisma } from '../src/lib/prisma';
+import { replayJob, retryDelayMs, runDueJobs } from '../src/services/outboundQueue';
+import type { ChatServer } from '../src/types/socket';
+import { restoreStubs, stub } from './helpers';
+
+const SESSION_ID = '2f1c7a52-8d4e-4b7a-9a51-0c6a3e5d9b10';
+const MESSAGE_ID = '9c4e1f3a-6b2d-4e8f-a7c5-1d3b5f7e9a20';
+const JOB_ID = '5b8d2e4f-1a3c-4d6e-9f0b-2c4e6a8d0f12';
+
+// Never attached to an HTTP server: emits go to the stubbed `to()`
+const io = new Server() as ChatServer;
+
+interface Calls {
+  botRequests: number;
+  jobUpdates: Record<string, unknown>[];
+  created: Record<string, unknown>[];
+  emitted: { event: string; payload: unknown }[];
+}
+
+let calls: Calls;
+
+function botReplyJob(overrides: Record<string, unknown> = {}) {
+  return {
+    id: JOB_ID,
+    type: 'BOT_REPLY',
+    status: 'PROCESSING',
+    session_id: SESSION_ID,
+    payload: { messageId: MESSAGE_ID, request: { sessionId: SESSION_ID, message: 'hello', history: [] } },
+    attempts: 1,
+    max_attempts: 8,
+    next_attempt_at: new Date(),
+    ...overrides,
+  };
+}
+
+/** Stubs one due job, its session and the n8n webhook (`reply` rejects to simulate an outage) */
+function stubWorker(
+  job: ReturnType<typeof botReplyJob>,
+  {
+    session = { widget_id: null, status: 'ACTIVE', agent_id: null } as Record<string, unknown> | null,
+    delivered = false,
+    reply = async (): Promise<unknown> => ({ data: { output: 'Sorry for the wait!' }, headers: {} }),
+  } = {}
+) {
+  stub(prisma, '$queryRaw', async () => [{ id: job.id }]);
+  stub(prisma.outboundJob, 'findMany', async () => [job]);
+  stub(prisma.outboundJob, 'update', async ({ data }: { data: Record<string, unknown> }) => {
+    calls.jobUpdates.push(data);
+    return { ...job, ...data };
+  });
+  stub(prisma.chatSession, 'findUnique', async () => session);
+  stub(prisma.chatMessage, 'findUnique', async () => (delivered ? { id: MESSAGE_ID } : null));
+  stub(prisma.chatMessage, 'create', async ({ data }: { data: Record<string, unknown> }) => {
+    calls.created.push(data);
+    return { ...data, created_at: new Date() };
+  });
+  stub(prisma.webhookSubscription, 'findMany', async () => []);
+  stub(axios, 'post', async () => {
+    calls.botRequests += 1;
+    return reply();
+  });
+}
+
+beforeEach(() => {
+  calls = { botRequests: 0, jobUpdates: [], created: [], emitted: [] };
+  stub(io, 'to', () => ({
+    emit: (event: string, payload: unknown) => {
+      calls.emitted.push({ event, payload });
+      return true;
+    },
+  }));
+});
+
+afterEach(restoreStubs);
+
+describe('retryDelayMs', () => {
+  it('doubles from N8N_RETRY_BASE_SECONDS with up to 20% jitter', () => {
+    const base = env.n8nRetryBaseSeconds * 1000;
+    for (const attempts of [1, 2, 3]) {
+      const delay = retryDelayMs(attempts);
+      const expected = base * 2 ** (attempts - 1);
+      assert.ok(delay >= expected && delay <= expected * 1.2, `attempt ${attempts}: ${delay}ms`);
+    }
+  });
+
+  it('is capped at 10 minutes', () => {
+    assert.equal(retryDelayMs(30), 10 * 60 * 1000);
+  });
+});
+
+describe('outbound worker', () => {
+  it('delivers the reply under the job message id', async () => {
+    stubWorker(botReplyJob());
+
+    await runDueJobs(io);
+
+    assert.equal(calls.botRequests, 1);
+    assert.equal(calls.created[0]?.id, MESSAGE_ID);
+    assert.equal(calls.jobUpdates[0]?.status, 'SUCCEEDED');
+  });
+
+  it('backs off exponentially when the bot is still down', async () => {
+    stubWorker(botReplyJob({ attempts: 2 }), { reply: async () => Promise.reject(new Error('ECONNREFUSED')) });
+
+    const startedAt = Date.now();
+    await runDueJobs(io);
+
+    const [update] = calls.jobUpdates;
+    assert.equal(update?.status, 'PENDING');
+    assert.equal(update?.attempts, 3);
+    assert.equal(update?.last_error, 'ECONNREFUSED');
+    const delay = (update?.next_attempt_at as Date).getTime() - startedAt;
+    const expected = env.n8nRetryBaseSeconds * 1000 * 4;
+    assert.ok(delay >= expected && delay <= expected * 1.2 + 1000, `next attempt in ${delay}ms`);
+  });
+
+  it('dead-letters the job and tells the visitor after the last attempt', async () => {
+    stubWorker(botReplyJob({ attempts: 7 }), { reply: async () => Promise.reject(new Error('ECONNREFUSED')) });
+
+    await runDueJobs(io);
+
+    assert.deepEqual(calls.jobUpdates, [{ status: 'DEAD', attempts: 8, last_error: 'ECONNREFUSED' }]);
+    assert.deepEqual(
+      calls.emitted.map(({ event, payload }) => ({ event, reply: (payload as { reply?: string }).reply })),
+      [{ event: 'status', reply: 'FAILED' }]
+    );
+  });
+
+  it('does not ask the bot again when the reply was already stored', async () => {
+    stubWorker(botReplyJob(), { delivered: true });
+
+    await runDueJobs(io);
+
+    assert.equal(calls.botRequests, 0);
+    assert.deepEqual(calls.created, []);
+    assert.equal(calls.jobUpdates[0]?.status, 'SUCCEEDED');
+  });
+
+  it('treats a duplicate message id on insert as delivered', async () => {
+    stubWorker(botReplyJob());
+    stub(prisma.chatMessage, 'create', async () => {
+      throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed on the fields: (`id`)', {
+        code: 'P2002',
+        clientVersion: Prisma.prismaVersion.client,
+        meta: { target: ['id'] },
+      });
+    });
+
+    await runDueJobs(io);
+
+    assert.equal(calls.jobUpdates[0]?.status, 'SUCCEEDED');
+  });
+
+  for (const [label, session] of [
+    ['closed', { widget_id: null, status: 'CLOSED', agent_id: null }],
+    ['held by an agent', { widget_id: null, status: 'ACTIVE', agent_id: 'key-1' }],
+  ] as const) {
+    it(`drops the reply when the session is ${label}`, async () => {
+      stubWorker(botReplyJob(), { session });
+
+      await runDueJobs(io);
+
+      assert.equal(calls.botRequests, 0);
+      assert.deepEqual(calls.created, []);
+      assert.equal(calls.jobUpdates[0]?.status, 'SUCCEEDED');
+    });
+  }
+});
+
+describe('replayJob', () => {
+  it('puts a dead-lettered job back with a fresh retry budget', async () => {
+    let replayed: { where: Record<string, unknown>; data: Record<string, unknown> } | undefined;
+    stub(prisma.outboundJob, 'updateMany', async (args: NonNullable<typeof replayed>) => {
+      replayed = args;
+      return { count: 1 };
+    });
+    stub(prisma.outboundJob, 'findUnique', async () => botReplyJob({ status: 'PENDING', attempts: 0 }));
+
+    const job = await replayJob(JOB_ID);
+
+    assert.equal(job?.status, 'PENDING');
+    assert.deepEqual(replayed?.where, { id: JOB_ID, status: 'DEAD' });
+    assert.equal(replayed?.data.attempts, 0);
+    assert.equal(replayed?.data.status, 'PENDING');
+  });
+
+  it('returns null for jobs that are not dead-lettered', async () => {
+    stub(prisma.outboundJob, 'updateMany', async () => ({ count: 0 }));
+    assert.equal(await replayJob(JOB_ID), null);
+  });
+
+  it('lets a replayed job whose reply was stored before complete without a second reply', async () => {
+    stubWorker(botReplyJob({ attempts: 0 }), { delivered: true });
+
+    await runDueJobs(io);
+
+    assert.equal(calls.botRequests, 0);
+    assert.deepEqual(calls.created, []);
+    assert.equal(calls.jobUpdates[0]?.status, 'SUCCEEDED');
+  });
+});
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma } from '../src/lib/prisma';
+import { getMessagePage } from '../src/services/messageService';
+import { listSessions } from '../src/services/sessionService';
+import { restoreStubs, stub } from './helpers';
+
+const SESSION_ID = '2f1c7a52-8d4e-4b7a-9a51-0c6a3e5d9b10';
+const TENANT_ID = 'a1a1a1a1-0000-4000-8000-000000000001';
+
+interface Row {
+  id: string;
+  created_at: Date;
+}
+
+interface PageArgs {
+  cursor?: { id: string };
+  skip?: number;
+  take: number;
+}
+
+// Prisma's cursor semantics over rows already in query order: a negative take reads backwards from the cursor
+function prismaPage<T extends Row>(rows: T[], { cursor, skip = 0, take }: PageArgs): T[] {
+  const at = cursor ? rows.findIndex((row) => row.id === cursor.id) : -1;
+  if (take >= 0) {
+    const from = cursor ? at + skip : 0;
+    return rows.slice(from, from + take);
+  }
+  const end = cursor ? at - skip + 1 : rows.length;
+  return rows.slice(Math.max(0, end + take), end);
+}
+
+// Two messages per second, so ids break the created_at ties
+const messages = Array.from({ length: 7 }, (_, index) => ({
+  id: `m${index + 1}`,
+  session_id: SESSION_ID,
+  role: index % 2 ? 'BOT' : 'USER',
+  content: `message ${index + 1}`,
+  created_at: new Date(Date.UTC(2026, 2, 1, 9, 0, Math.floor(index / 2))),
+  attachment: [],
+}));
+
+const ids = (page: { messages: { id: string }[] }) => page.messages.map((message) => message.id);
+
+afterEach(restoreStubs);
+
+describe('getMessagePage', () => {
+  let queries: Array<PageArgs & { where: unknown; orderBy: unknown }>;
+
+  beforeEach(() => {
+    queries = [];
+    stub(prisma.chatMessage, 'findMany', async (args: PageArgs & { where: { role?: { in: string[] } }; orderBy: unknown }) => {
+      queries.push(args);
+      const roles = args.where.role?.in;
+      return prismaPage(
+        messages.filter((message) => !roles || roles.includes(message.role)),
+        args
+      );
+    });
+  });
+
+  it('returns the latest page oldest first', async () => {
+    const page = await getMessagePage(SESSION_ID, { limit: 3 });
+
+    assert.deepEqual(ids(page), ['m5', 'm6', 'm7']);
+    assert.equal(page.olderCursor, 'm5');
+    assert.equal(page.newerCursor, null);
+    assert.deepEqual(queries[0].orderBy, [{ created_at: 'asc' }, { id: 'asc' }]);
+  });
+
+  it('scrolls back to the first message without gaps or repeats', async () => {
+    const seen: string[] = [];
+    let page = await getMessagePage(SESSION_ID, { limit: 3 });
+    seen.unshift(...ids(page));
+    while (page.olderCursor) {
+      page = await getMessagePage(SESSION_ID, { limit: 3, before: page.olderCursor });
+      seen.unshift(...ids(page));
+      assert.ok(page.newerCursor, 'an older page links back to newer messages');
+    }
+
+    assert.deepEqual(seen, messages.map((message) => message.id));
+    assert.deepEqual(ids(page), ['m1']);
+  });
+
+  it('catches up after a known message', async () => {
+    const first = await getMessagePage(SESSION_ID, { limit: 4, after: 'm2' });
+    assert.deepEqual(ids(first), ['m3', 'm4', 'm5', 'm6']);
+    assert.equal(first.olderCursor, 'm3');
+    assert.equal(first.newerCursor, 'm6');
+
+    const last = await getMessagePage(SESSION_ID, { limit: 4, after: first.newerCursor ?? '' });
+    assert.deepEqual(ids(last), ['m7']);
+    assert.equal(last.newerCursor, null);
+
+    const empty = await getMessagePage(SESSION_ID, { limit: 4, after: 'm7' });
+    assert.deepEqual(empty, { messages: [], olderCursor: null, newerCursor: null });
+  });
+
+  it('pages within the requested roles', async () => {
+    const page = await getMessagePage(SESSION_ID, { limit: 2, roles: ['BOT'] });
+
+    assert.deepEqual(ids(page), ['m4', 'm6']);
+    assert.deepEqual(queries[0].where, { session_id: SESSION_ID, role: { in: ['BOT'] } });
+  });
+});
+
+describe('listSessions', () => {
+  const sessions = Array.from({ length: 5 }, (_, index) => ({
+    id: `s${5 - index}`,
+    visitor_id: 'visitor-1',
+    created_at: new Date(Date.UTC(2026, 2, 1, 9, 0, 4 - index)),
+  }));
+
+  it('pages newest first with nextCursor', async () => {
+    let query: (PageArgs & { where: unknown; orderBy: unknown }) | undefined;
+    stub(prisma.chatSession, 'findMany', async (args: PageArgs & { where: unknown; orderBy: unknown }) => {
+      query = args;
+      return prismaPage(sessions, args);
+    });
+
+    const first = await listSessions({ limit: 2 });
+    assert.deepEqual(first.sessions.map((session) => session.id), ['s5', 's4']);
+    assert.equal(first.nextCursor, 's4');
+    assert.deepEqual(query?.orderBy, [{ created_at: 'desc' }, { id: 'desc' }]);
+
+    const second = await listSessions({ limit: 2, cursor: first.nextCursor ?? undefined });
+    assert.deepEqual(second.sessions.map((session) => session.id), ['s3', 's2']);
+
+    const last = await listSessions({ limit: 2, cursor: second.nextCursor ?? undefined });
+    assert.deepEqual(last.sessions.map((session) => session.id), ['s1']);
+    assert.equal(last.nextCursor, null);
+  });
+
+  it('combines the filters with the tenant scope', async () => {
+    let where: unknown;
+    stub(prisma.chatSession, 'findMany', async (args: { where: unknown }) => {
+      where = args.where;
+      return [];
+    });
+    const from = new Date('2026-03-01T00:00:00Z');
+
+    await listSessions({
+      limit: 10,
+      scope: { tenant_id: TENANT_ID },
+      statuses: ['ACTIVE', 'INACTIVE'],
+      createdFrom: from,
+      metadata: { 'utm.source': 'newsletter', page: '/pricing' },
+    });
+
+    assert.deepEqual(where, {
+      tenant_id: TENANT_ID,
+      status: { in: ['ACTIVE', 'INACTIVE'] },
+      created_at: { gte: from },
+      last_active_at: undefined,
+      AND: [
+        { metadata: { path: ['utm', 'source'], equals: 'newsletter' } },
+        { metadata: { path: ['page'], equals: '/pricing' } },
+      ],
+    });
+  });
+});
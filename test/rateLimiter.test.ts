@@ -0,0 +1,95 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { env } from '../src/config/env';
+import { rateLimit } from '../src/middleware/rateLimit';
+import { createMemoryStore, createRedisStore, enforceRateLimits, RateLimitError, type RedisCounterClient } from '../src/services/rateLimiter';
+import { fakeExchange, restoreStubs, stub } from './helpers';
+
+/** Answers the increment script the way Redis would, and records what was sent */
+function fakeRedis(reply?: unknown) {
+  const counts = new Map<string, number>();
+  const calls: Array<{ script: string; keys: string[]; arguments: string[] }> = [];
+  const client: RedisCounterClient & { isReady: boolean } = {
+    isReady: true,
+    async eval(script, options) {
+      calls.push({ script, ...options });
+      if (reply !== undefined) return reply;
+      const [key] = options.keys;
+      const count = (counts.get(key) ?? 0) + 1;
+      counts.set(key, count);
+      return [count, Number(options.arguments[0]) - 1];
+    },
+  };
+  return { client, calls };
+}
+
+afterEach(restoreStubs);
+
+describe('createRedisStore', () => {
+  it('counts with one script call instead of PEXPIRE NX', async () => {
+    const { client, calls } = fakeRedis();
+    const store = createRedisStore(client, createMemoryStore());
+
+    await store.increment('messagesPerIp:1.2.3.4', 60_000);
+    const second = await store.increment('messagesPerIp:1.2.3.4', 60_000);
+
+    assert.equal(second.count, 2);
+    assert.ok(second.resetAt > Date.now() + 59_000);
+    assert.equal(calls.length, 2);
+    assert.deepEqual(calls[0].keys, ['ratelimit:messagesPerIp:1.2.3.4']);
+    assert.deepEqual(calls[0].arguments, ['60000']);
+    assert.match(calls[0].script, /if count == 1 then redis\.call\('PEXPIRE'/);
+    assert.doesNotMatch(calls[0].script, /NX/);
+  });
+
+  it('rejects replies that are not a count and a TTL', async () => {
+    const store = createRedisStore(fakeRedis('QUEUED').client, createMemoryStore());
+    await assert.rejects(store.increment('key', 1000), /Unexpected rate limit script reply/);
+  });
+
+  it('counts in the fallback while Redis is not connected', async () => {
+    const { client, calls } = fakeRedis();
+    client.isReady = false;
+    const store = createRedisStore(client, createMemoryStore());
+
+    await store.increment('key', 1000);
+    assert.equal((await store.increment('key', 1000)).count, 2);
+    assert.equal(calls.length, 0);
+  });
+});
+
+describe('rate limit rejections', () => {
+  it('answers 429 with Retry-After once the limit is used up', async () => {
+    stub(env.rateLimits.messagesPerIp, 'limit', 1);
+    const middleware = rateLimit(() => [{ rule: 'messagesPerIp', key: '198.51.100.7' }]);
+
+    let passed = 0;
+    const first = fakeExchange({});
+    await middleware(first.req, first.res, () => passed++);
+    const second = fakeExchange({});
+    await middleware(second.req, second.res, () => passed++);
+
+    assert.equal(passed, 1);
+    assert.equal(second.recorded.statusCode, 429);
+    assert.equal(second.recorded.headers['retry-after'], '60');
+    assert.deepEqual(second.recorded.body, { error: 'Too many requests', retryAfter: 60 });
+  });
+
+  it('throws a RateLimitError for socket events', async () => {
+    stub(env.rateLimits.messagesPerSession, 'limit', 1);
+    const checks = [{ rule: 'messagesPerSession' as const, key: 'session-429' }];
+
+    await enforceRateLimits(checks);
+    await assert.rejects(enforceRateLimits(checks), (error: unknown) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.rule, 'messagesPerSession');
+      assert.equal(error.retryAfterSeconds, 60);
+      return true;
+    });
+  });
+
+  it('ignores rules whose limit is 0', async () => {
+    stub(env.rateLimits.sessionsPerIp, 'limit', 0);
+    for (let i = 0; i < 3; i++) await enforceRateLimits([{ rule: 'sessionsPerIp', key: '203.0.113.9' }]);
+  });
+});
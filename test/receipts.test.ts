@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma } from '../src/lib/prisma';
+import { recordReceipts } from '../src/services/messageService';
+import { restoreStubs, stub } from './helpers';
+
+const SESSION_ID = '2f1c7a52-8d4e-4b7a-9a51-0c6a3e5d9b10';
+const OTHER_SESSION_ID = '7d0f5b0e-3c2a-4f8e-b1d6-5e9a2c4b8f31';
+const VISITOR_RECEIVES = ['BOT', 'AGENT', 'SYSTEM'] as const;
+
+interface StoredMessage {
+  id: string;
+  session_id: string;
+  role: string;
+  created_at: Date;
+  delivered_at: Date | null;
+  read_at: Date | null;
+}
+
+interface MessageWhere {
+  id: { in: string[] };
+  session_id?: string;
+  role?: { in: string[] };
+  delivered_at?: null;
+  read_at?: null;
+}
+
+let stored: StoredMessage[];
+
+function message(id: string, role: string, sessionId = SESSION_ID): StoredMessage {
+  return { id, session_id: sessionId, role, created_at: new Date(Date.UTC(2026, 2, 1, 9, 0, stored.length)), delivered_at: null, read_at: null };
+}
+
+function matches(row: StoredMessage, where: MessageWhere): boolean {
+  return (
+    where.id.in.includes(row.id) &&
+    (where.session_id === undefined || row.session_id === where.session_id) &&
+    (where.role === undefined || where.role.in.includes(row.role)) &&
+    (where.delivered_at === undefined || row.delivered_at === null) &&
+    (where.read_at === undefined || row.read_at === null)
+  );
+}
+
+const byId = (id: string) => stored.find((row) => row.id === id);
+
+beforeEach(() => {
+  stored = [];
+  stored.push(message('bot-1', 'BOT'), message('user-1', 'USER'), message('agent-1', 'AGENT'), message('bot-other', 'BOT', OTHER_SESSION_ID));
+  stub(prisma.chatMessage, 'findMany', async ({ where }: { where: MessageWhere }) =>
+    stored.filter((row) => matches(row, where)).map(({ id }) => ({ id }))
+  );
+  stub(
+    prisma.chatMessage,
+    'updateMany',
+    async ({ where, data }: { where: MessageWhere; data: Partial<StoredMessage> }) => {
+      const rows = stored.filter((row) => matches(row, where));
+      rows.forEach((row) => Object.assign(row, data));
+      return { count: rows.length };
+    }
+  );
+});
+
+afterEach(restoreStubs);
+
+describe('recordReceipts', () => {
+  it("only stamps the session's messages of the roles the acknowledging side receives", async () => {
+    const receipt = await recordReceipts(SESSION_ID, ['agent-1', 'user-1', 'bot-1', 'bot-other'], 'delivered', [
+      ...VISITOR_RECEIVES,
+    ]);
+
+    assert.deepEqual(receipt && { ...receipt, at: undefined }, {
+      sessionId: SESSION_ID,
+      messageIds: ['bot-1', 'agent-1'],
+      status: 'delivered',
+      at: undefined,
+    });
+    assert.ok(byId('bot-1')?.delivered_at);
+    assert.equal(byId('user-1')?.delivered_at, null);
+    assert.equal(byId('bot-other')?.delivered_at, null);
+  });
+
+  it('returns null when every message was already acknowledged', async () => {
+    assert.ok(await recordReceipts(SESSION_ID, ['bot-1'], 'delivered', [...VISITOR_RECEIVES]));
+    assert.equal(await recordReceipts(SESSION_ID, ['bot-1'], 'delivered', [...VISITOR_RECEIVES]), null);
+  });
+
+  it('marks a read message delivered too, keeping an earlier delivery time', async () => {
+    await recordReceipts(SESSION_ID, ['bot-1'], 'delivered', [...VISITOR_RECEIVES]);
+    const deliveredAt = byId('bot-1')?.delivered_at;
+
+    const receipt = await recordReceipts(SESSION_ID, ['bot-1', 'agent-1'], 'read', [...VISITOR_RECEIVES]);
+
+    assert.deepEqual(receipt?.messageIds, ['bot-1', 'agent-1']);
+    assert.equal(byId('bot-1')?.delivered_at, deliveredAt);
+    assert.ok(byId('agent-1')?.delivered_at);
+    assert.ok(byId('bot-1')?.read_at && byId('agent-1')?.read_at);
+  });
+
+  it('lets operators acknowledge visitor messages only', async () => {
+    const receipt = await recordReceipts(SESSION_ID, ['user-1', 'bot-1'], 'read', ['USER']);
+
+    assert.deepEqual(receipt?.messageIds, ['user-1']);
+    assert.equal(byId('bot-1')?.read_at, null);
+  });
+});
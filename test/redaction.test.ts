@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { RedactionRules } from '../src/config/env';
+import { findEmails, redactWith } from '../src/utils/redaction';
+
+const MASK_ALL: RedactionRules = { email: 'mask', phone: 'mask', card: 'mask' };
+
+function mask(text: string): string {
+  return redactWith(text, MASK_ALL);
+}
+
+describe('phone redaction', () => {
+  for (const phone of [
+    '+1 (555) 010-0100',
+    '+44 20 7946 0958',
+    '+15550100',
+    '+49-30-1234-5678',
+    '(555) 010-0100',
+    '555-010-0100',
+    '555.010.0100',
+    '030 1234 5678',
+    '06 12 34 56 78',
+  ]) {
+    it(`masks ${phone}`, () => {
+      assert.equal(mask(`call me at ${phone} tomorrow`), 'call me at [PHONE] tomorrow');
+    });
+  }
+
+  for (const text of [
+    'order 12345678 shipped',
+    'Meeting on 2024-01-15 10:30',
+    'Termin am 15.01.2024 um 10:30',
+    'version 1.2.3.4.5.6.7',
+    'upgraded to 10.20.30',
+    'client 192.168.100.200 connected',
+    'took 1234 5678 ms',
+    'at 2024-01-15T10:30:00.000Z',
+    'session 12345678-1234-1234-1234-123456789012 closed',
+    'session 550e8400-e29b-41d4-a716-446655440000 closed',
+    'paid 1,234,567.89 EUR',
+  ]) {
+    it(`leaves "${text}" alone`, () => {
+      assert.equal(mask(text), text);
+    });
+  }
+
+  it('hashes the same number written differently to the same token', () => {
+    const rules: RedactionRules = { phone: 'hash' };
+    const a = redactWith('+1 555 010 0100', rules);
+    const b = redactWith('+1-555-010-0100', rules);
+    assert.match(a, /^\[PHONE:[0-9a-f]{12}\]$/);
+    assert.equal(a, b);
+  });
+});
+
+describe('card redaction', () => {
+  it('masks numbers that pass the Luhn check', () => {
+    assert.equal(mask('card 4111 1111 1111 1111 exp 12/29'), 'card [CARD] exp 12/29');
+    assert.equal(mask('card 4111-1111-1111-1111'), 'card [CARD]');
+  });
+
+  it('leaves numbers that fail the Luhn check alone', () => {
+    assert.equal(mask('ref 4111 1111 1111 1112'), 'ref 4111 1111 1111 1112');
+  });
+
+  it('does not match digit groups inside UUIDs', () => {
+    const text = 'id 41111111-1111-1111-1111-111111111111';
+    assert.equal(mask(text), text);
+  });
+});
+
+describe('email redaction', () => {
+  it('masks addresses and drops them in drop mode', () => {
+    assert.equal(mask('mail Jane.Doe@Example.com please'), 'mail [EMAIL] please');
+    assert.equal(redactWith('mail jane@example.com please', { email: 'drop' }), 'mail  please');
+  });
+
+  it('only applies the detectors the rules enable', () => {
+    const text = 'jane@example.com +1 (555) 010-0100';
+    assert.equal(redactWith(text, { phone: 'mask' }), 'jane@example.com [PHONE]');
+    assert.equal(redactWith(text, {}), text);
+  });
+
+  it('finds emails in raw text for the lead flow', () => {
+    assert.deepEqual(findEmails('a@example.com, A@example.com and b@example.org'), ['a@example.com', 'b@example.org']);
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma } from '../src/lib/prisma';
+import { getAttachmentStorage } from '../src/lib/attachmentStorage';
+import { eraseVisitor } from '../src/services/retentionService';
+import { restoreStubs, stub } from './helpers';
+
+const TENANT_ID = 'a1a1a1a1-0000-4000-8000-000000000001';
+const SESSION_IDS = ['2f1c7a52-8d4e-4b7a-9a51-0c6a3e5d9b10', '7d0f5b0e-3c2a-4f8e-b1d6-5e9a2c4b8f31'];
+
+interface Calls {
+  sessionLookups: unknown[];
+  contactDeletes: unknown[];
+  sessionDeletes: unknown[];
+  rawDeletes: unknown[][];
+  fileDeletes: string[];
+  audits: unknown[];
+}
+
+/** Stubs every query eraseVisitor runs; the transaction simply awaits the stubbed operations */
+function stubErasure(sessionIds: string[]): Calls {
+  const calls: Calls = {
+    sessionLookups: [],
+    contactDeletes: [],
+    sessionDeletes: [],
+    rawDeletes: [],
+    fileDeletes: [],
+    audits: [],
+  };
+  stub(prisma.chatSession, 'findMany', async (args: unknown) => {
+    calls.sessionLookups.push(args);
+    return sessionIds.map((id) => ({ id }));
+  });
+  stub(prisma.attachment, 'findMany', async () => [{ id: 'attachment-1', storage_key: 'files/attachment-1.png' }]);
+  stub(prisma.chatMessage, 'count', async () => 5);
+  stub(prisma.contacts, 'deleteMany', async (args: unknown) => {
+    calls.contactDeletes.push(args);
+    return { count: 1 };
+  });
+  stub(prisma, '$executeRaw', async (...args: unknown[]) => {
+    calls.rawDeletes.push(args);
+    return 3;
+  });
+  stub(prisma.chatSession, 'deleteMany', async (args: unknown) => {
+    calls.sessionDeletes.push(args);
+    return { count: sessionIds.length };
+  });
+  stub(prisma, '$transaction', async (operations: Promise<unknown>[]) => Promise.all(operations));
+  stub(prisma.auditLog, 'create', async (args: unknown) => {
+    calls.audits.push(args);
+    return {};
+  });
+  stub(getAttachmentStorage(), 'delete', async (key: string) => {
+    calls.fileDeletes.push(key);
+  });
+  return calls;
+}
+
+afterEach(restoreStubs);
+
+describe('eraseVisitor', () => {
+  it('deletes the sessions, contacts, deliveries and files and reports the counts', async () => {
+    const calls = stubErasure(SESSION_IDS);
+
+    const result = await eraseVisitor('visitor-1', { actor: 'ops' });
+
+    assert.deepEqual(result, { sessions: 2, messages: 5, contacts: 1, attachments: 1, webhookDeliveries: 3 });
+    assert.deepEqual(calls.contactDeletes, [{ where: { sessionId: { in: SESSION_IDS } } }]);
+    assert.deepEqual(calls.sessionDeletes, [{ where: { id: { in: SESSION_IDS } } }]);
+    // Webhook deliveries are matched by the erased session ids (the tagged template's values)
+    assert.equal(calls.rawDeletes.length, 1);
+    assert.deepEqual(calls.rawDeletes[0]?.slice(1), [SESSION_IDS, SESSION_IDS, SESSION_IDS]);
+    assert.deepEqual(calls.fileDeletes, ['files/attachment-1.png']);
+  });
+
+  it('records who erased the visitor', async () => {
+    const calls = stubErasure(SESSION_IDS);
+
+    await eraseVisitor('visitor-1', { actor: 'ops', tenantId: TENANT_ID });
+
+    assert.equal(calls.audits.length, 1);
+    assert.deepEqual(calls.audits[0], {
+      data: {
+        action: 'VISITOR_ERASED',
+        actor: 'ops',
+        tenant_id: TENANT_ID,
+        visitor_id: 'visitor-1',
+        details: { sessions: 2, messages: 5, contacts: 1, attachments: 1, webhookDeliveries: 3 },
+      },
+    });
+  });
+
+  it('only looks at sessions of the caller tenant', async () => {
+    const calls = stubErasure(SESSION_IDS);
+
+    await eraseVisitor('visitor-1', { actor: 'tenant admin', tenantId: TENANT_ID });
+    await eraseVisitor('visitor-1', { actor: 'ops' });
+
+    assert.deepEqual(calls.sessionLookups, [
+      { where: { visitor_id: 'visitor-1', tenant_id: TENANT_ID }, select: { id: true } },
+      { where: { visitor_id: 'visitor-1' }, select: { id: true } },
+    ]);
+  });
+
+  it('returns null and deletes nothing when the visitor has no sessions in scope', async () => {
+    const calls = stubErasure([]);
+
+    assert.equal(await eraseVisitor('visitor-1', { actor: 'tenant admin', tenantId: TENANT_ID }), null);
+    assert.deepEqual(calls.contactDeletes, []);
+    assert.deepEqual(calls.sessionDeletes, []);
+    assert.deepEqual(calls.rawDeletes, []);
+    assert.deepEqual(calls.fileDeletes, []);
+    assert.deepEqual(calls.audits, []);
+  });
+});
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma } from '../src/lib/prisma';
+import { parseRichBlocks, resolveRichResponse, type RichBlock } from '../src/services/richMessageService';
+import { restoreStubs, stub } from './helpers';
+
+const SESSION_ID = '2f1c7a52-8d4e-4b7a-9a51-0c6a3e5d9b10';
+const OTHER_SESSION_ID = '7d0f5b0e-3c2a-4f8e-b1d6-5e9a2c4b8f31';
+const MESSAGE_ID = '9c4d2e1f-7a6b-4c3d-8e2f-0a1b2c3d4e5f';
+
+const blocks: RichBlock[] = [
+  {
+    type: 'quick_replies',
+    replies: [
+      { label: 'Track my order', value: 'track' },
+      { label: 'Talk to sales', value: 'sales' },
+    ],
+  },
+  {
+    type: 'form',
+    id: 'contact',
+    submitLabel: 'Send',
+    fields: [
+      { name: 'name', label: 'Name', type: 'text', required: true },
+      { name: 'email', label: 'Email', type: 'email', required: true },
+      { name: 'seats', label: 'Seats', type: 'number', required: false },
+      { name: 'plan', label: 'Plan', type: 'select', required: false, options: ['Basic', 'Pro'] },
+    ],
+  },
+];
+
+beforeEach(() => {
+  // The bot message only exists in SESSION_ID
+  stub(prisma.chatMessage, 'findFirst', async ({ where }: { where: { id: string; session_id: string } }) =>
+    where.id === MESSAGE_ID && where.session_id === SESSION_ID ? { rich: { blocks } } : null
+  );
+});
+
+afterEach(restoreStubs);
+
+describe('parseRichBlocks', () => {
+  const rejections: Array<[string, unknown, string]> = [
+    ['a missing block list', undefined, 'blocks must be an array of 1 to 10 blocks'],
+    ['too many blocks', Array(11).fill({ type: 'buttons', buttons: [] }), 'blocks must be an array of 1 to 10 blocks'],
+    ['an unknown block type', [{ type: 'carousel' }], 'blocks[0]: type must be one of quick_replies, buttons, card, form'],
+    ['an empty quick reply list', [{ type: 'quick_replies', replies: [] }], 'blocks[0]: replies must be an array of 1 to 10 items'],
+    ['a blank quick reply', [{ type: 'quick_replies', replies: ['  '] }], 'blocks[0]: replies[0]: must be a short non-empty string'],
+    [
+      'a quick reply value that is not a string',
+      [{ type: 'quick_replies', replies: [{ label: 'Yes', value: 1 }] }],
+      'blocks[0]: replies[0]: value must be a string',
+    ],
+    [
+      'a button linking outside http(s)',
+      [{ type: 'buttons', buttons: [{ label: 'Open', url: 'javascript:alert(1)' }] }],
+      'blocks[0]: buttons[0]: url must be an http(s) URL',
+    ],
+    ['a card without a title', [{ type: 'card', title: '' }], 'blocks[0]: title must be a non-empty string'],
+    [
+      'a card image outside http(s)',
+      [{ type: 'card', title: 'Plan', imageUrl: 'data:image/png;base64,AAAA' }],
+      'blocks[0]: imageUrl must be an http(s) URL',
+    ],
+    [
+      'a form without an identifier',
+      [{ type: 'form', id: '1st form', fields: [{ name: 'name', label: 'Name' }] }],
+      'blocks[0]: id must be an identifier',
+    ],
+    [
+      'a form field of an unknown type',
+      [{ type: 'form', id: 'contact', fields: [{ name: 'when', label: 'When', type: 'date' }] }],
+      'blocks[0]: fields[0]: type must be one of text, email, tel, number, textarea, select',
+    ],
+    [
+      'a form field with a non-boolean required',
+      [{ type: 'form', id: 'contact', fields: [{ name: 'name', label: 'Name', required: 'yes' }] }],
+      'blocks[0]: fields[0]: required must be a boolean',
+    ],
+    [
+      'a select field without options',
+      [{ type: 'form', id: 'contact', fields: [{ name: 'plan', label: 'Plan', type: 'select', options: [] }] }],
+      'blocks[0]: fields[0]: options must be an array of 1 to 20 short strings',
+    ],
+    [
+      'a select field with a blank option',
+      [{ type: 'form', id: 'contact', fields: [{ name: 'plan', label: 'Plan', type: 'select', options: ['Basic', ''] }] }],
+      'blocks[0]: fields[0]: options must be an array of 1 to 20 short strings',
+    ],
+    [
+      'duplicate field names',
+      [{ type: 'form', id: 'contact', fields: [{ name: 'name', label: 'Name' }, { name: 'name', label: 'Full name' }] }],
+      'blocks[0]: field names must be unique',
+    ],
+  ];
+
+  for (const [name, value, error] of rejections) {
+    it(`rejects ${name}`, () => {
+      assert.equal(parseRichBlocks(value), error);
+    });
+  }
+
+  it('defaults quick reply values and field types', () => {
+    assert.deepEqual(
+      parseRichBlocks([
+        { type: 'quick_replies', replies: ['Yes'] },
+        { type: 'form', id: 'contact', fields: [{ name: 'name', label: 'Name' }] },
+      ]),
+      [
+        { type: 'quick_replies', replies: [{ label: 'Yes', value: 'Yes' }] },
+        {
+          type: 'form',
+          id: 'contact',
+          title: undefined,
+          submitLabel: undefined,
+          fields: [{ name: 'name', label: 'Name', type: 'text', required: false }],
+        },
+      ]
+    );
+  });
+});
+
+describe('resolveRichResponse', () => {
+  function submit(values: Record<string, string>, sessionId = SESSION_ID) {
+    return resolveRichResponse(sessionId, { type: 'form', messageId: MESSAGE_ID, formId: 'contact', values });
+  }
+
+  it('stores a clicked quick reply as its label', async () => {
+    const response = { type: 'quick_reply' as const, messageId: MESSAGE_ID, value: 'track' };
+    assert.deepEqual(await resolveRichResponse(SESSION_ID, response), { content: 'Track my order', response, emails: [] });
+  });
+
+  it('rejects quick reply values the message did not offer', async () => {
+    const resolved = await resolveRichResponse(SESSION_ID, { type: 'quick_reply', messageId: MESSAGE_ID, value: 'refund' });
+    assert.equal(resolved, 'That option is no longer available.');
+  });
+
+  it('rejects answers to a message of another session', async () => {
+    const quickReply = await resolveRichResponse(OTHER_SESSION_ID, {
+      type: 'quick_reply',
+      messageId: MESSAGE_ID,
+      value: 'track',
+    });
+    assert.equal(quickReply, 'That option is no longer available.');
+    assert.equal(await submit({ name: 'Ada', email: 'ada@example.com' }, OTHER_SESSION_ID), 'That form is no longer available.');
+  });
+
+  it('rejects an unknown form id', async () => {
+    const resolved = await resolveRichResponse(SESSION_ID, {
+      type: 'form',
+      messageId: MESSAGE_ID,
+      formId: 'survey',
+      values: {},
+    });
+    assert.equal(resolved, 'That form is no longer available.');
+  });
+
+  it('rejects fields the form does not have', async () => {
+    assert.equal(await submit({ name: 'Ada', email: 'ada@example.com', role: 'admin' }), 'The form contains unknown fields.');
+  });
+
+  it('rejects values that do not fit the field type', async () => {
+    assert.equal(await submit({ email: 'ada@example.com' }), 'Name is required');
+    assert.equal(await submit({ name: 'Ada', email: 'not-an-address' }), 'Email must be an email address');
+    assert.equal(await submit({ name: 'Ada', email: 'ada@example.com', seats: 'many' }), 'Seats must be a number');
+    assert.equal(await submit({ name: 'Ada', email: 'ada@example.com', plan: 'Enterprise' }), 'Plan must be one of the options');
+    assert.equal(await submit({ name: 'x'.repeat(1001), email: 'ada@example.com' }), 'Name is too long');
+  });
+
+  it('returns the filled-in lines and the email fields', async () => {
+    const resolved = await submit({ name: ' Ada ', email: 'ada@example.com', seats: '', plan: 'Pro' });
+
+    assert.deepEqual(resolved, {
+      content: 'Name: Ada\nEmail: ada@example.com\nPlan: Pro',
+      response: {
+        type: 'form',
+        messageId: MESSAGE_ID,
+        formId: 'contact',
+        values: { name: 'Ada', email: 'ada@example.com', plan: 'Pro' },
+      },
+      emails: ['ada@example.com'],
+    });
+  });
+});
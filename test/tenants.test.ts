@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Widget } from '@prisma/client';
+import { env } from '../src/config/env';
+import { prisma } from '../src/lib/prisma';
+import {
+  corsOrigin,
+  generateWidgetKey,
+  getWidget,
+  getWidgetByPublicKey,
+  invalidateWidgetCache,
+  isOriginAllowed,
+  n8nTargetFor,
+  widgetAllowsOrigin,
+} from '../src/services/tenantService';
+import { restoreStubs, stub } from './helpers';
+
+const TENANT_ID = 'a1a1a1a1-0000-4000-8000-000000000001';
+
+function widget(overrides: Partial<Widget> = {}): Widget {
+  return {
+    id: 'widget-1',
+    tenant_id: TENANT_ID,
+    name: 'Shop',
+    public_key: 'pk_shop',
+    allowed_origins: ['https://shop.example.com'],
+    n8n_webhook_url: null,
+    n8n_timeout_ms: null,
+    bot_providers: null,
+    heartbeat_timeout_seconds: null,
+    session_close_minutes: null,
+    branding: {},
+    active: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+let loads: number;
+
+beforeEach(() => {
+  loads = 0;
+  invalidateWidgetCache();
+  stub(env, 'corsOrigins', ['https://www.example.com']);
+  stub(prisma.widget, 'findMany', async ({ where }: { where: { active: boolean } }) => {
+    loads += 1;
+    assert.deepEqual(where, { active: true });
+    return [widget(), widget({ id: 'widget-2', public_key: 'pk_blog', allowed_origins: [] })];
+  });
+});
+
+afterEach(restoreStubs);
+
+describe('widget lookup', () => {
+  it('finds active widgets by public key or id from one cached load', async () => {
+    assert.equal((await getWidgetByPublicKey(' pk_shop '))?.id, 'widget-1');
+    assert.equal((await getWidget('widget-2'))?.public_key, 'pk_blog');
+    assert.equal(await getWidgetByPublicKey('pk_unknown'), null);
+    assert.equal(await getWidgetByPublicKey(undefined), null);
+    assert.equal(await getWidget(null), null);
+    assert.equal(loads, 1);
+
+    invalidateWidgetCache();
+    await getWidget('widget-1');
+    assert.equal(loads, 2);
+  });
+
+  it('retries the load after a failure instead of caching it', async () => {
+    stub(prisma.widget, 'findMany', async () => {
+      loads += 1;
+      throw new Error('connection refused');
+    });
+    await assert.rejects(getWidget('widget-1'), /connection refused/);
+    await assert.rejects(getWidget('widget-1'), /connection refused/);
+    assert.equal(loads, 2);
+  });
+
+  it('issues public keys that are not API keys', () => {
+    assert.match(generateWidgetKey(), /^pk_[0-9a-f]{32}$/);
+  });
+});
+
+describe('widget origins', () => {
+  it('limits a widget to its own origins when it has any', () => {
+    assert.equal(widgetAllowsOrigin(widget(), 'https://shop.example.com'), true);
+    assert.equal(widgetAllowsOrigin(widget(), 'https://evil.example.com'), false);
+    assert.equal(widgetAllowsOrigin(widget({ allowed_origins: [] }), 'https://evil.example.com'), true);
+    assert.equal(widgetAllowsOrigin(widget(), undefined), true);
+  });
+
+  it('allows CORS for CORS_ORIGIN and every widget origin', async () => {
+    assert.equal(await isOriginAllowed('https://www.example.com'), true);
+    assert.equal(await isOriginAllowed('https://shop.example.com'), true);
+    assert.equal(await isOriginAllowed('https://evil.example.com'), false);
+
+    const allowed = await new Promise((resolve) => corsOrigin('https://shop.example.com', (_error, allow) => resolve(allow)));
+    assert.equal(allowed, true);
+  });
+});
+
+describe('n8nTargetFor', () => {
+  it('uses the widget webhook and timeout, falling back to the defaults', () => {
+    assert.deepEqual(n8nTargetFor(widget({ n8n_webhook_url: 'https://n8n.shop.example.com/hook', n8n_timeout_ms: 5000 })), {
+      webhookUrl: 'https://n8n.shop.example.com/hook',
+      timeoutMs: 5000,
+    });
+    assert.deepEqual(n8nTargetFor(null), { webhookUrl: env.n8nWebhookUrl, timeoutMs: env.n8nTimeoutMs });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ChatMessage, ChatSession } from '@prisma/client';
+import { buildTranscript, renderTranscript } from '../src/services/transcriptService';
+
+const CREATED_AT = new Date('2026-03-01T09:30:00Z');
+
+function transcriptOf(...contents: string[]) {
+  const session = {
+    id: 'session-1',
+    visitor_id: 'visitor-1',
+    status: 'CLOSED',
+    metadata: {},
+    created_at: CREATED_AT,
+    last_active_at: CREATED_AT,
+    chat_message: contents.map((content, index) => ({
+      id: `message-${index + 1}`,
+      role: 'USER',
+      content,
+      created_at: CREATED_AT,
+    })),
+  } as unknown as ChatSession & { chat_message: ChatMessage[] };
+  return buildTranscript(session, 'UTC');
+}
+
+function contentCells(csv: string): string[] {
+  return csv
+    .split('\r\n')
+    .slice(1, -1)
+    .map((row) => row.slice(row.indexOf('UTC,') + 4));
+}
+
+describe('CSV transcripts', () => {
+  it('keeps formula-looking cells as text', () => {
+    const csv = renderTranscript(
+      transcriptOf('=HYPERLINK("http://evil.example","x")', '+1', '-2', '@SUM(A1)', '\tcmd', 'plain'),
+      'csv'
+    );
+
+    assert.deepEqual(contentCells(csv), [
+      `"'=HYPERLINK(""http://evil.example"",""x"")"`,
+      `'+1`,
+      `'-2`,
+      `'@SUM(A1)`,
+      `'\tcmd`,
+      'plain',
+    ]);
+  });
+
+  it('quotes a carriage return prefixed cell after escaping it', () => {
+    const csv = renderTranscript(transcriptOf('\r=1+1'), 'csv');
+    assert.ok(csv.includes(`,"'\r=1+1"\r\n`));
+  });
+
+  it('quotes commas, quotes and newlines', () => {
+    const csv = renderTranscript(transcriptOf('hi, "there"\nbye'), 'csv');
+    assert.ok(csv.endsWith(`,"hi, ""there""\nbye"\r\n`));
+  });
+});
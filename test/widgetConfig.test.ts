@@ -0,0 +1,143 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { prisma } from '../src/lib/prisma';
+import { widgetConfigRouter } from '../src/routes/widgetConfig';
+import { invalidateWidgetCache } from '../src/services/tenantService';
+import { DEFAULT_WIDGET_CONFIG, parseWidgetConfig, type WidgetConfig } from '../src/services/widgetConfigService';
+import { listen, restoreStubs, stub } from './helpers';
+
+let server: Awaited<ReturnType<typeof listen>>;
+let storedConfigs: Map<string | null, unknown>;
+
+function getConfig(query = '', headers: Record<string, string> = {}) {
+  return fetch(`${server.url}/api/widget/config${query}`, { headers });
+}
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/widget', widgetConfigRouter);
+  server = await listen(app);
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  storedConfigs = new Map();
+  invalidateWidgetCache();
+  stub(prisma.widget, 'findMany', async () => [
+    { id: 'widget-1', public_key: 'pk_shop', allowed_origins: [], branding: { logo: 'shop.svg' }, active: true },
+  ]);
+  stub(prisma.widgetConfig, 'findFirst', async ({ where }: { where: { widget_id: string | null } }) =>
+    storedConfigs.has(where.widget_id) ? { config: storedConfigs.get(where.widget_id) } : null
+  );
+});
+
+afterEach(restoreStubs);
+
+describe('parseWidgetConfig', () => {
+  it('accepts a partial config', () => {
+    const config = {
+      welcomeMessage: 'Hi!',
+      position: 'bottom-left',
+      colors: { primary: '#0f766e' },
+      strings: { sendButton: 'Go' },
+      starterQuestions: ['Where is my order?'],
+      officeHours: { timezone: 'Europe/Berlin', days: { mon: { open: '09:00', close: '17:00' }, sun: null }, offlineMessage: 'Back soon' },
+    };
+    assert.deepEqual(parseWidgetConfig(config), {
+      ...config,
+      officeHours: { ...config.officeHours, days: { mon: { open: '09:00', close: '17:00' } } },
+    });
+  });
+
+  const rejections: Array<[string, unknown, string]> = [
+    ['a non-object', [], 'config must be an object'],
+    ['unknown fields', { theme: 'dark' }, 'Unknown config field: theme'],
+    ['an unknown position', { position: 'top' }, 'position must be one of bottom-right, bottom-left'],
+    ['CSS in a color', { colors: { primary: 'red;}body{display:none' } }, 'colors.primary must be a hex color'],
+    ['unknown colors', { colors: { accent: '#fff' } }, 'Unknown color: accent'],
+    ['unknown strings', { strings: { goodbye: 'Bye' } }, 'Unknown string: goodbye'],
+    ['a blank launcher', { launcherText: ' ' }, 'launcherText must be a non-empty string'],
+    ['too many starter questions', { starterQuestions: Array(7).fill('Hi?') }, 'starterQuestions must be an array of up to 6 non-empty strings'],
+    [
+      'an unknown time zone',
+      { officeHours: { timezone: 'Mars/Olympus', days: {}, offlineMessage: '' } },
+      'officeHours.timezone must be a valid IANA time zone',
+    ],
+    [
+      'closing before opening',
+      { officeHours: { timezone: 'UTC', days: { fri: { open: '17:00', close: '09:00' } }, offlineMessage: '' } },
+      'officeHours.days.fri must use HH:MM times with open before close',
+    ],
+    ['a plain http socket.io script', { socketIoUrl: 'http://cdn.example.com/socket.io.js' }, 'socketIoUrl must be an https URL'],
+  ];
+
+  for (const [name, value, error] of rejections) {
+    it(`rejects ${name}`, () => {
+      assert.equal(parseWidgetConfig(value), error);
+    });
+  }
+});
+
+describe('/api/widget/config', () => {
+  it('overlays the deployment default and the widget config over the built-in defaults', async () => {
+    storedConfigs.set(null, { launcherText: 'Questions?', colors: { primary: '#0f766e' } });
+    storedConfigs.set('widget-1', { colors: { header: '#000000' }, strings: { title: 'Shop help' } });
+
+    const response = await getConfig('', { 'X-Widget-Key': 'pk_shop' });
+    const config = (await response.json()) as WidgetConfig & { branding: unknown };
+
+    assert.equal(response.status, 200);
+    assert.equal(config.launcherText, 'Questions?');
+    assert.deepEqual(config.colors, { ...DEFAULT_WIDGET_CONFIG.colors, primary: '#0f766e', header: '#000000' });
+    assert.equal(config.strings.title, 'Shop help');
+    assert.equal(config.strings.sendButton, DEFAULT_WIDGET_CONFIG.strings.sendButton);
+    assert.deepEqual(config.branding, { logo: 'shop.svg' });
+  });
+
+  it('skips a stored config that no longer validates', async () => {
+    storedConfigs.set(null, { position: 'top' });
+    const config = (await (await getConfig()).json()) as WidgetConfig;
+    assert.equal(config.position, DEFAULT_WIDGET_CONFIG.position);
+  });
+
+  // fetch() adds `Cache-Control: no-cache` to requests with If-None-Match, as browsers do for the widget
+  it('answers 304 while the ETag still matches', async () => {
+    const first = await getConfig('?widgetKey=pk_shop');
+    const etag = first.headers.get('etag');
+    assert.ok(etag);
+    assert.equal(first.headers.get('cache-control'), 'no-cache');
+
+    const unchanged = await getConfig('?widgetKey=pk_shop', { 'If-None-Match': etag });
+    assert.equal(unchanged.status, 304);
+    assert.equal(await unchanged.text(), '');
+
+    storedConfigs.set('widget-1', { launcherText: 'New!' });
+    const changed = await getConfig('?widgetKey=pk_shop', { 'If-None-Match': etag });
+    assert.equal(changed.status, 200);
+    assert.notEqual(changed.headers.get('etag'), etag);
+  });
+
+  it('still answers a PUT with the config', async () => {
+    stub(prisma.widgetConfig, 'create', async () => ({}));
+    const etag = (await getConfig()).headers.get('etag') ?? '';
+
+    const response = await fetch(`${server.url}/api/widget/config`, {
+      method: 'PUT',
+      headers: { Authorization: 'Bearer test-api-secret', 'Content-Type': 'application/json', 'If-None-Match': etag },
+      body: JSON.stringify({}),
+    });
+
+    assert.equal(response.status, 200);
+  });
+
+  it('answers 404 for an unknown widget key', async () => {
+    const response = await getConfig('?widgetKey=pk_unknown');
+    assert.equal(response.status, 404);
+    assert.deepEqual(await response.json(), { error: 'Unknown widget key' });
+  });
+});